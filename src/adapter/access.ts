@@ -0,0 +1,17 @@
+import type { PayloadRequest } from 'payload'
+
+/**
+ * Default access check for Svea admin features: users of the admin user
+ * collection with an `admin` role. The collection alone is not enough,
+ * since customers usually share it with admins.
+ */
+export function isSveaAdmin({ req }: { req: PayloadRequest }): boolean {
+  const user = req.user as { collection?: string; roles?: unknown } | null
+  if (!user || user.collection !== req.payload.config.admin.user) {
+    return false
+  }
+
+  return Array.isArray(user.roles)
+    ? user.roles.includes('admin')
+    : user.roles === 'admin'
+}
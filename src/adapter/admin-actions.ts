@@ -0,0 +1,250 @@
+import type { SveaPaymentAdminClient } from './admin-client'
+import { SveaOrderStateError } from './errors'
+import { withSveaEventLog } from './event-log'
+import { getSveaMerchantProfileName } from './merchant-profiles'
+import type {
+  SveaAdminActionArgs,
+  SveaAdminActionResult,
+  SveaAdminActions,
+  SveaAdminOrder,
+  SveaAdminStatus,
+  SveaEventLog,
+  SveaMerchantClients,
+} from './types'
+
+/**
+ * Amounts and status derived from a Payment Admin order
+ */
+interface SveaAdminOrderSummary {
+  adminStatus: SveaAdminStatus
+  deliveryId?: number
+  deliveredAmount: number
+  creditedAmount: number
+  cancelledAmount: number
+}
+
+/**
+ * Derives the stored admin status and amounts from a Payment Admin order
+ */
+export function summarizeSveaAdminOrder(
+  order: SveaAdminOrder,
+): SveaAdminOrderSummary {
+  const deliveries = order.Deliveries || []
+  const deliveredAmount = deliveries.reduce(
+    (sum, delivery) => sum + (delivery.DeliveryAmount || 0),
+    0,
+  )
+  const creditedAmount = deliveries.reduce(
+    (sum, delivery) => sum + (delivery.CreditedAmount || 0),
+    0,
+  )
+  const cancelledAmount = order.CancelledAmount || 0
+  const latestDelivery = deliveries[deliveries.length - 1]
+
+  let adminStatus: SveaAdminStatus = 'open'
+
+  if (order.OrderStatus === 'Cancelled') {
+    adminStatus = 'cancelled'
+  } else if (deliveredAmount > 0 && creditedAmount >= deliveredAmount) {
+    adminStatus = 'credited'
+  } else if (creditedAmount > 0) {
+    adminStatus = 'partiallyCredited'
+  } else if (
+    deliveredAmount > 0 &&
+    deliveredAmount + cancelledAmount >= order.OrderAmount
+  ) {
+    adminStatus = 'delivered'
+  } else if (deliveredAmount > 0) {
+    adminStatus = 'partiallyDelivered'
+  } else if (cancelledAmount > 0) {
+    adminStatus = 'partiallyCancelled'
+  }
+
+  return {
+    adminStatus,
+    deliveryId: latestDelivery?.Id,
+    deliveredAmount,
+    creditedAmount,
+    cancelledAmount,
+  }
+}
+
+/**
+ * Maps the admin status to the ecommerce plugin's transaction status.
+ * Returns undefined when the transaction status should be left as is.
+ */
+export function getSveaAdminTransactionStatus(
+  adminStatus: SveaAdminStatus,
+): 'cancelled' | 'refunded' | undefined {
+  if (adminStatus === 'cancelled') return 'cancelled'
+  if (adminStatus === 'credited') return 'refunded'
+  return undefined
+}
+
+/**
+ * Creates the capture, refund and cancel helpers exposed on the adapter.
+ *
+ * Each helper looks up the Svea transaction, performs the Payment Admin
+ * call, re-reads the admin order and writes the resulting state back to
+ * the transaction's `svea` group.
+ */
+export function createSveaAdminActions(options: {
+  adminClient: SveaPaymentAdminClient
+  transactionsSlug: string
+  eventLog?: SveaEventLog
+  /** Clients per merchant profile, used for transactions storing one */
+  merchants?: SveaMerchantClients
+}): SveaAdminActions {
+  const { adminClient, eventLog, merchants } = options
+
+  async function getTransaction({
+    payload,
+    transactionId,
+    transactionsSlug = options.transactionsSlug,
+  }: SveaAdminActionArgs) {
+    const transaction = await payload.findByID({
+      collection: transactionsSlug as 'transactions',
+      id: transactionId,
+    })
+
+    const existingSveaData =
+      transaction.svea && typeof transaction.svea === 'object'
+        ? (transaction.svea as Record<string, unknown>)
+        : {}
+
+    const sveaOrderId = existingSveaData.orderId as number | undefined
+
+    if (!sveaOrderId) {
+      throw new SveaOrderStateError('Transaction has no Svea order ID.')
+    }
+
+    const client = withSveaEventLog(
+      merchants?.adminClient(
+        getSveaMerchantProfileName(transaction as Record<string, unknown>),
+      ) ?? adminClient,
+      eventLog,
+      payload,
+    )
+
+    return { transaction, existingSveaData, sveaOrderId, client }
+  }
+
+  async function syncTransaction(
+    client: SveaPaymentAdminClient,
+    args: SveaAdminActionArgs,
+    existingSveaData: Record<string, unknown>,
+    sveaOrderId: number,
+    message: string,
+  ): Promise<SveaAdminActionResult> {
+    const { payload, transactionId } = args
+    const transactionsSlug = args.transactionsSlug || options.transactionsSlug
+
+    const adminOrder = await client.getOrder(sveaOrderId)
+    const summary = summarizeSveaAdminOrder(adminOrder)
+    const status = getSveaAdminTransactionStatus(summary.adminStatus)
+
+    await payload.update({
+      id: transactionId,
+      collection: transactionsSlug as 'transactions',
+      data: {
+        ...(status ? { status } : {}),
+        svea: {
+          ...existingSveaData,
+          ...summary,
+        },
+      } as Record<string, unknown>,
+    })
+
+    payload.logger.info(
+      { transactionId, sveaOrderId, ...summary },
+      message,
+    )
+
+    return {
+      message,
+      transactionID: transactionId,
+      adminStatus: summary.adminStatus,
+      deliveredAmount: summary.deliveredAmount,
+      creditedAmount: summary.creditedAmount,
+      cancelledAmount: summary.cancelledAmount,
+    }
+  }
+
+  const captureOrder: SveaAdminActions['captureOrder'] = async (args) => {
+    const { existingSveaData, sveaOrderId, client } =
+      await getTransaction(args)
+
+    await client.deliverOrderRows(sveaOrderId, args.orderRowIds || [])
+
+    return syncTransaction(
+      client,
+      args,
+      existingSveaData,
+      sveaOrderId,
+      'Svea order delivered',
+    )
+  }
+
+  const refundOrder: SveaAdminActions['refundOrder'] = async (args) => {
+    const { existingSveaData, sveaOrderId, client } =
+      await getTransaction(args)
+
+    const adminOrder = await client.getOrder(sveaOrderId)
+    const deliveries = adminOrder.Deliveries || []
+    const delivery = args.deliveryId
+      ? deliveries.find((d) => d.Id === args.deliveryId)
+      : deliveries[deliveries.length - 1]
+
+    if (!delivery) {
+      throw new SveaOrderStateError('Svea order has no delivery to credit.')
+    }
+
+    if (args.orderRowIds && args.orderRowIds.length > 0) {
+      await client.creditOrderRows(
+        sveaOrderId,
+        delivery.Id,
+        args.orderRowIds,
+      )
+    } else {
+      const amount =
+        args.amount ?? delivery.DeliveryAmount - delivery.CreditedAmount
+
+      if (amount <= 0) {
+        throw new SveaOrderStateError(
+          'Nothing left to credit on this delivery.',
+        )
+      }
+
+      await client.creditAmount(sveaOrderId, delivery.Id, amount)
+    }
+
+    return syncTransaction(
+      client,
+      args,
+      existingSveaData,
+      sveaOrderId,
+      'Svea order credited',
+    )
+  }
+
+  const cancelOrder: SveaAdminActions['cancelOrder'] = async (args) => {
+    const { existingSveaData, sveaOrderId, client } =
+      await getTransaction(args)
+
+    if (typeof args.amount === 'number') {
+      await client.cancelAmount(sveaOrderId, args.amount)
+    } else {
+      await client.cancelOrder(sveaOrderId)
+    }
+
+    return syncTransaction(
+      client,
+      args,
+      existingSveaData,
+      sveaOrderId,
+      'Svea order cancelled',
+    )
+  }
+
+  return { captureOrder, refundOrder, cancelOrder }
+}
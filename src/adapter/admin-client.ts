@@ -0,0 +1,161 @@
+import { sveaRequest } from './request'
+import type { SveaRequestConfig } from './request'
+import type {
+  CreditSveaOrderResponse,
+  DeliverSveaOrderResponse,
+  SveaAdminOrder,
+  SveaApiCallListener,
+  SveaPaymentAdminClientConfig,
+} from './types'
+
+/** Default Svea Payment Admin API URLs */
+export const SVEA_ADMIN_API_URLS = {
+  staging: 'https://paymentadminapistage.svea.com',
+  production: 'https://paymentadminapi.svea.com',
+} as const
+
+/**
+ * Typed client for the Svea Payment Admin API
+ *
+ * Used to deliver (capture), credit (refund) and cancel orders once the
+ * checkout has reached `Final`. Amounts are in minor units.
+ *
+ * @example
+ * ```ts
+ * import { SveaPaymentAdminClient, SVEA_ADMIN_API_URLS } from '@jevnakern/payload-svea-adapter'
+ *
+ * const admin = new SveaPaymentAdminClient({
+ *   merchantId: process.env.SVEA_MERCHANT_ID!,
+ *   secretKey: process.env.SVEA_SECRET_KEY!,
+ *   paymentAdminApiUrl: SVEA_ADMIN_API_URLS.staging,
+ * })
+ *
+ * await admin.deliverOrder(12345)
+ * ```
+ */
+export class SveaPaymentAdminClient {
+  private readonly config: SveaPaymentAdminClientConfig
+  private readonly requestConfig: SveaRequestConfig
+
+  constructor(config: SveaPaymentAdminClientConfig) {
+    this.config = config
+    this.requestConfig = {
+      merchantId: config.merchantId,
+      secretKey: config.secretKey,
+      baseUrl: config.paymentAdminApiUrl || SVEA_ADMIN_API_URLS.staging,
+      fetch: config.fetch,
+      onApiCall: config.onApiCall,
+      timeoutMs: config.timeoutMs,
+      retry: config.retry,
+      circuitBreaker: config.circuitBreaker,
+    }
+  }
+
+  /**
+   * Returns a copy of the client reporting every call to `onApiCall`
+   */
+  withApiCallListener(onApiCall: SveaApiCallListener): SveaPaymentAdminClient {
+    return new SveaPaymentAdminClient({ ...this.config, onApiCall })
+  }
+
+  /**
+   * Fetches an order with its deliveries and credits
+   * (GET /api/v1/orders/{orderId})
+   */
+  async getOrder(orderId: number | string): Promise<SveaAdminOrder> {
+    return sveaRequest<SveaAdminOrder>(this.requestConfig, {
+      method: 'GET',
+      path: `/api/v1/orders/${orderId}`,
+      errorPrefix: 'Failed to fetch Svea admin order',
+      requireBody: true,
+    })
+  }
+
+  /**
+   * Delivers all remaining rows of an order
+   */
+  async deliverOrder(
+    orderId: number | string,
+  ): Promise<DeliverSveaOrderResponse | null> {
+    return this.deliverOrderRows(orderId, [])
+  }
+
+  /**
+   * Delivers the selected rows of an order. An empty list delivers all rows.
+   * (POST /api/v1/orders/{orderId}/deliveries)
+   */
+  async deliverOrderRows(
+    orderId: number | string,
+    orderRowIds: number[],
+  ): Promise<DeliverSveaOrderResponse | null> {
+    return sveaRequest<DeliverSveaOrderResponse>(this.requestConfig, {
+      method: 'POST',
+      path: `/api/v1/orders/${orderId}/deliveries`,
+      body: { OrderRowIds: orderRowIds },
+      errorPrefix: 'Failed to deliver Svea order',
+    })
+  }
+
+  /**
+   * Credits the selected rows of a delivery
+   * (POST /api/v1/orders/{orderId}/deliveries/{deliveryId}/credits)
+   */
+  async creditOrderRows(
+    orderId: number | string,
+    deliveryId: number | string,
+    orderRowIds: number[],
+  ): Promise<CreditSveaOrderResponse | null> {
+    return sveaRequest<CreditSveaOrderResponse>(this.requestConfig, {
+      method: 'POST',
+      path: `/api/v1/orders/${orderId}/deliveries/${deliveryId}/credits`,
+      body: { OrderRowIds: orderRowIds },
+      errorPrefix: 'Failed to credit Svea order rows',
+    })
+  }
+
+  /**
+   * Credits an amount (in minor units) on a delivery
+   * (PATCH /api/v1/orders/{orderId}/deliveries/{deliveryId})
+   */
+  async creditAmount(
+    orderId: number | string,
+    deliveryId: number | string,
+    creditedAmount: number,
+  ): Promise<void> {
+    await sveaRequest(this.requestConfig, {
+      method: 'PATCH',
+      path: `/api/v1/orders/${orderId}/deliveries/${deliveryId}`,
+      body: { CreditedAmount: creditedAmount },
+      errorPrefix: 'Failed to credit Svea amount',
+    })
+  }
+
+  /**
+   * Cancels an undelivered order
+   * (PATCH /api/v1/orders/{orderId})
+   */
+  async cancelOrder(orderId: number | string): Promise<void> {
+    await sveaRequest(this.requestConfig, {
+      method: 'PATCH',
+      path: `/api/v1/orders/${orderId}`,
+      body: { IsCancelled: true },
+      errorPrefix: 'Failed to cancel Svea order',
+    })
+  }
+
+  /**
+   * Cancels an amount (in minor units) of an undelivered order
+   * (PATCH /api/v1/orders/{orderId})
+   */
+  async cancelAmount(
+    orderId: number | string,
+    cancelledAmount: number,
+  ): Promise<void> {
+    await sveaRequest(this.requestConfig, {
+      method: 'PATCH',
+      path: `/api/v1/orders/${orderId}`,
+      body: { CancelledAmount: cancelledAmount },
+      errorPrefix: 'Failed to cancel Svea amount',
+    })
+  }
+}
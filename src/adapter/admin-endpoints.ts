@@ -0,0 +1,256 @@
+import type { Endpoint, PayloadRequest } from 'payload'
+import { addDataAndFileToRequest } from 'payload'
+
+import { isSveaAdmin } from './access'
+import { summarizeSveaAdminOrder } from './admin-actions'
+import type { SveaPaymentAdminClient } from './admin-client'
+import type { SveaCheckoutClient } from './checkout-client'
+import { SveaError } from './errors'
+import { withSveaEventLog } from './event-log'
+import { getSveaMerchantProfileName } from './merchant-profiles'
+import type {
+  SveaAdapterConfig,
+  SveaAdminActions,
+  SveaEventLog,
+  SveaMerchantClients,
+} from './types'
+
+/**
+ * Resolves the Svea transaction ID from `transactionId` or a Payload `orderId`
+ */
+async function resolveTransactionId(
+  req: PayloadRequest,
+  params: { transactionId?: unknown; orderId?: unknown },
+  transactionsSlug: string,
+): Promise<number | string | undefined> {
+  if (params.transactionId) {
+    return params.transactionId as number | string
+  }
+
+  if (!params.orderId) return undefined
+
+  const results = await req.payload.find({
+    collection: transactionsSlug as 'transactions',
+    where: {
+      and: [
+        { order: { equals: params.orderId } },
+        { paymentMethod: { equals: 'svea' } },
+      ],
+    },
+    limit: 1,
+    req,
+  })
+
+  return results.docs[0]?.id
+}
+
+/**
+ * Creates the Payload endpoints backing the Svea admin actions UI.
+ *
+ * Paths are relative to `/api/payments/svea`:
+ * - `GET /admin/status?transactionId=` or `?orderId=` — live Svea status
+ * - `POST /admin/capture` — `{ transactionId, orderRowIds? }`
+ * - `POST /admin/refund` — `{ transactionId, orderRowIds?, amount?, deliveryId? }`
+ * - `POST /admin/cancel` — `{ transactionId, amount? }`
+ */
+export function createSveaAdminEndpoints(options: {
+  checkoutClient: SveaCheckoutClient
+  adminClient: SveaPaymentAdminClient
+  adminActions: SveaAdminActions
+  transactionsSlug: string
+  adminAccess?: SveaAdapterConfig['adminAccess']
+  eventLog?: SveaEventLog
+  /** Clients per merchant profile, used for transactions storing one */
+  merchants?: SveaMerchantClients
+}): Endpoint[] {
+  const {
+    checkoutClient,
+    adminClient,
+    adminActions,
+    transactionsSlug,
+    adminAccess = isSveaAdmin,
+    eventLog,
+    merchants,
+  } = options
+
+  function withAccess(
+    handler: (req: PayloadRequest) => Promise<Response>,
+  ): Endpoint['handler'] {
+    return async (req) => {
+      if (!(await adminAccess({ req }))) {
+        return Response.json({ error: 'Unauthorized' }, { status: 403 })
+      }
+
+      try {
+        return await handler(req)
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error'
+        req.payload.logger.error(
+          { error: errorMessage, path: req.pathname },
+          'Error in Svea admin endpoint',
+        )
+        // Admins see the full message, only the status follows the error
+        return Response.json(
+          { error: errorMessage },
+          { status: error instanceof SveaError ? error.responseStatus : 500 },
+        )
+      }
+    }
+  }
+
+  const status: Endpoint = {
+    path: '/admin/status',
+    method: 'get',
+    handler: withAccess(async (req) => {
+      const transactionId = await resolveTransactionId(
+        req,
+        {
+          transactionId: req.searchParams.get('transactionId'),
+          orderId: req.searchParams.get('orderId'),
+        },
+        transactionsSlug,
+      )
+
+      if (!transactionId) {
+        return Response.json(
+          { error: 'Svea transaction not found' },
+          { status: 404 },
+        )
+      }
+
+      const transaction = await req.payload.findByID({
+        collection: transactionsSlug as 'transactions',
+        id: transactionId,
+        req,
+      })
+
+      const sveaData =
+        transaction.svea && typeof transaction.svea === 'object'
+          ? (transaction.svea as Record<string, unknown>)
+          : {}
+      const sveaOrderId = sveaData.orderId as number | undefined
+
+      if (!sveaOrderId) {
+        return Response.json(
+          { error: 'Transaction has no Svea order ID' },
+          { status: 404 },
+        )
+      }
+
+      const profile = getSveaMerchantProfileName(
+        transaction as Record<string, unknown>,
+      )
+
+      const sveaOrder = await withSveaEventLog(
+        merchants?.checkoutClient(profile) ?? checkoutClient,
+        eventLog,
+        req.payload,
+      ).getOrder(sveaOrderId)
+
+      // The Payment Admin API only knows orders that reached Final
+      let admin = null
+      try {
+        const adminOrder = await withSveaEventLog(
+          merchants?.adminClient(profile) ?? adminClient,
+          eventLog,
+          req.payload,
+        ).getOrder(sveaOrderId)
+        admin = {
+          ...summarizeSveaAdminOrder(adminOrder),
+          orderStatus: adminOrder.OrderStatus,
+          orderAmount: adminOrder.OrderAmount,
+          actions: adminOrder.Actions || [],
+          rows: adminOrder.OrderRows || [],
+          deliveries: (adminOrder.Deliveries || []).map((delivery) => ({
+            id: delivery.Id,
+            deliveryAmount: delivery.DeliveryAmount,
+            creditedAmount: delivery.CreditedAmount,
+            actions: delivery.Actions || [],
+            rows: delivery.OrderRows || [],
+          })),
+        }
+      } catch (error) {
+        req.payload.logger.info(
+          { sveaOrderId, error: error instanceof Error ? error.message : error },
+          'Svea admin order not available',
+        )
+      }
+
+      return Response.json({
+        transactionId: transaction.id,
+        transactionStatus: transaction.status,
+        sveaOrderId,
+        checkoutStatus: sveaOrder.Status,
+        currency: sveaOrder.Currency,
+        paymentType: sveaOrder.PaymentType || sveaOrder.Payment?.paymentType,
+        admin,
+      })
+    }),
+  }
+
+  function actionEndpoint(
+    path: string,
+    run: (
+      req: PayloadRequest,
+      data: Record<string, unknown>,
+      transactionId: number | string,
+    ) => Promise<unknown>,
+  ): Endpoint {
+    return {
+      path,
+      method: 'post',
+      handler: withAccess(async (req) => {
+        await addDataAndFileToRequest(req)
+        const data = (req.data || {}) as Record<string, unknown>
+
+        const transactionId = await resolveTransactionId(
+          req,
+          data,
+          transactionsSlug,
+        )
+
+        if (!transactionId) {
+          return Response.json(
+            { error: 'Svea transaction not found' },
+            { status: 404 },
+          )
+        }
+
+        const result = await run(req, data, transactionId)
+        return Response.json(result)
+      }),
+    }
+  }
+
+  const capture = actionEndpoint('/admin/capture', (req, data, transactionId) =>
+    adminActions.captureOrder({
+      payload: req.payload,
+      transactionId,
+      transactionsSlug,
+      orderRowIds: data.orderRowIds as number[] | undefined,
+    }),
+  )
+
+  const refund = actionEndpoint('/admin/refund', (req, data, transactionId) =>
+    adminActions.refundOrder({
+      payload: req.payload,
+      transactionId,
+      transactionsSlug,
+      deliveryId: data.deliveryId as number | undefined,
+      orderRowIds: data.orderRowIds as number[] | undefined,
+      amount: data.amount as number | undefined,
+    }),
+  )
+
+  const cancel = actionEndpoint('/admin/cancel', (req, data, transactionId) =>
+    adminActions.cancelOrder({
+      payload: req.payload,
+      transactionId,
+      transactionsSlug,
+      amount: data.amount as number | undefined,
+    }),
+  )
+
+  return [status, capture, refund, cancel]
+}
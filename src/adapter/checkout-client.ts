@@ -0,0 +1,142 @@
+import { sveaRequest } from './request'
+import type { SveaRequestConfig } from './request'
+import type {
+  CreateSveaOrderRequest,
+  CreateSveaOrderResponse,
+  CreateSveaTokenOrderRequest,
+  CreateSveaTokenOrderResponse,
+  GetSveaOrderResponse,
+  SveaApiCallListener,
+  SveaCheckoutClientConfig,
+  UpdateSveaOrderRequest,
+  UpdateSveaOrderResponse,
+} from './types'
+
+/** Default Svea Checkout API URLs */
+export const SVEA_API_URLS = {
+  staging: 'https://checkoutapistage.svea.com',
+  production: 'https://checkoutapi.svea.com',
+} as const
+
+/**
+ * Typed client for the Svea Checkout API
+ *
+ * Every request is signed with `createSveaAuthHeaders` and failures are
+ * thrown as `SveaApiError` or `SveaUnavailableError`.
+ *
+ * @example
+ * ```ts
+ * import { SveaCheckoutClient, SVEA_API_URLS } from '@jevnakern/payload-svea-adapter'
+ *
+ * const client = new SveaCheckoutClient({
+ *   merchantId: process.env.SVEA_MERCHANT_ID!,
+ *   secretKey: process.env.SVEA_SECRET_KEY!,
+ *   checkoutApiUrl: SVEA_API_URLS.staging,
+ * })
+ *
+ * const order = await client.getOrder(12345)
+ * ```
+ */
+export class SveaCheckoutClient {
+  private readonly config: SveaCheckoutClientConfig
+  private readonly requestConfig: SveaRequestConfig
+
+  constructor(config: SveaCheckoutClientConfig) {
+    this.config = config
+    this.requestConfig = {
+      merchantId: config.merchantId,
+      secretKey: config.secretKey,
+      baseUrl: config.checkoutApiUrl || SVEA_API_URLS.staging,
+      fetch: config.fetch,
+      onApiCall: config.onApiCall,
+      timeoutMs: config.timeoutMs,
+      retry: config.retry,
+      circuitBreaker: config.circuitBreaker,
+    }
+  }
+
+  /**
+   * Returns a copy of the client reporting every call to `onApiCall`
+   */
+  withApiCallListener(onApiCall: SveaApiCallListener): SveaCheckoutClient {
+    return new SveaCheckoutClient({ ...this.config, onApiCall })
+  }
+
+  /**
+   * Creates a new checkout order (POST /api/orders)
+   */
+  async createOrder(
+    request: CreateSveaOrderRequest,
+  ): Promise<CreateSveaOrderResponse> {
+    return sveaRequest<CreateSveaOrderResponse>(this.requestConfig, {
+      method: 'POST',
+      path: '/api/orders',
+      body: request,
+      errorPrefix: 'Failed to create Svea order',
+      requireBody: true,
+    })
+  }
+
+  /**
+   * Fetches a checkout order (GET /api/orders/{orderId})
+   */
+  async getOrder(orderId: number | string): Promise<GetSveaOrderResponse> {
+    return sveaRequest<GetSveaOrderResponse>(this.requestConfig, {
+      method: 'GET',
+      path: `/api/orders/${orderId}`,
+      errorPrefix: 'Failed to fetch Svea order',
+      requireBody: true,
+    })
+  }
+
+  /**
+   * Updates the cart and merchant data of an order that is still
+   * `Created` (PUT /api/orders/{orderId})
+   */
+  async updateOrder(
+    orderId: number | string,
+    request: UpdateSveaOrderRequest,
+  ): Promise<UpdateSveaOrderResponse> {
+    return sveaRequest<UpdateSveaOrderResponse>(this.requestConfig, {
+      method: 'PUT',
+      path: `/api/orders/${orderId}`,
+      body: request,
+      errorPrefix: 'Failed to update Svea order',
+      requireBody: true,
+    })
+  }
+
+  /**
+   * Fetches an order created from a recurring token
+   * (GET /api/tokens/{token}/orders/{orderId})
+   */
+  async getOrderByToken(
+    token: string,
+    orderId: number | string,
+  ): Promise<GetSveaOrderResponse> {
+    return sveaRequest<GetSveaOrderResponse>(this.requestConfig, {
+      method: 'GET',
+      path: `/api/tokens/${encodeURIComponent(token)}/orders/${orderId}`,
+      errorPrefix: 'Failed to fetch Svea order by token',
+      requireBody: true,
+    })
+  }
+
+  /**
+   * Charges a recurring token for a new order
+   * (POST /api/tokens/{token}/orders)
+   */
+  async createTokenOrder(
+    token: string,
+    request: CreateSveaTokenOrderRequest,
+  ): Promise<CreateSveaTokenOrderResponse> {
+    return sveaRequest<CreateSveaTokenOrderResponse>(this.requestConfig, {
+      method: 'POST',
+      path: `/api/tokens/${encodeURIComponent(token)}/orders`,
+      body: request,
+      errorPrefix: 'Failed to create Svea order from token',
+      requireBody: true,
+    })
+  }
+}
+
@@ -0,0 +1,34 @@
+import crypto from 'crypto'
+
+/**
+ * Creates the secret handed to the browser that started a checkout. Only
+ * its hash is stored on the transaction.
+ */
+export function createSveaCheckoutToken(): { token: string; hash: string } {
+  const token = crypto.randomBytes(24).toString('base64url')
+  return { token, hash: hashSveaCheckoutToken(token) }
+}
+
+function hashSveaCheckoutToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Checks a checkout token against the hash stored on the transaction, in
+ * constant time
+ */
+export function verifySveaCheckoutToken(
+  token: unknown,
+  hash: unknown,
+): boolean {
+  if (typeof token !== 'string' || !token || typeof hash !== 'string') {
+    return false
+  }
+
+  const expected = Buffer.from(hash, 'hex')
+  const received = Buffer.from(hashSveaCheckoutToken(token), 'hex')
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  )
+}
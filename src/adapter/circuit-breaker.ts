@@ -0,0 +1,74 @@
+import type {
+  SveaCircuitBreaker,
+  SveaCircuitBreakerOptions,
+  SveaCircuitState,
+} from './types'
+
+/**
+ * Creates a circuit breaker for the Svea API clients. After
+ * `failureThreshold` consecutive failures the circuit opens and calls fail
+ * fast for `resetTimeoutMs`. The first call after that is a trial: an
+ * answer from Svea closes the circuit, another failure reopens it.
+ *
+ * @example
+ * ```ts
+ * const circuitBreaker = createSveaCircuitBreaker({ failureThreshold: 3 })
+ *
+ * const client = new SveaCheckoutClient({
+ *   merchantId: process.env.SVEA_MERCHANT_ID!,
+ *   secretKey: process.env.SVEA_SECRET_KEY!,
+ *   circuitBreaker,
+ * })
+ * ```
+ */
+export function createSveaCircuitBreaker({
+  failureThreshold = 5,
+  resetTimeoutMs = 30_000,
+}: SveaCircuitBreakerOptions = {}): SveaCircuitBreaker {
+  let failures = 0
+  let openedAt: number | undefined
+  let trialInFlight = false
+
+  const getState = (): SveaCircuitState => {
+    if (openedAt === undefined) return 'closed'
+    return Date.now() - openedAt >= resetTimeoutMs ? 'halfOpen' : 'open'
+  }
+
+  return {
+    get state() {
+      return getState()
+    },
+    get retryAt() {
+      return openedAt === undefined
+        ? undefined
+        : new Date(openedAt + resetTimeoutMs)
+    },
+    tryAcquire: () => {
+      const state = getState()
+      if (state === 'closed') return true
+      // Only one trial call at a time; the rest keep failing fast
+      if (state === 'halfOpen' && !trialInFlight) {
+        trialInFlight = true
+        return true
+      }
+      return false
+    },
+    recordSuccess: () => {
+      failures = 0
+      openedAt = undefined
+      trialInFlight = false
+    },
+    recordFailure: () => {
+      failures += 1
+      trialInFlight = false
+      if (openedAt !== undefined || failures >= failureThreshold) {
+        openedAt = Date.now()
+      }
+    },
+    reset: () => {
+      failures = 0
+      openedAt = undefined
+      trialInFlight = false
+    },
+  }
+}
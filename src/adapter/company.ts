@@ -0,0 +1,114 @@
+import type { PayloadRequest } from 'payload'
+
+import type {
+  PayloadAddress,
+  SveaBusinessCheckoutOptions,
+  SveaCompanyDetails,
+  SveaOrder,
+  SveaPresetValue,
+} from './types'
+
+/**
+ * Reads the first non-empty string among the given keys
+ */
+function pickString(
+  source: Record<string, unknown> | undefined,
+  ...keys: string[]
+): string | undefined {
+  for (const key of keys) {
+    const value = source?.[key]
+    if (typeof value === 'string' && value.trim()) return value.trim()
+  }
+  return undefined
+}
+
+/**
+ * Extracts the company and invoice references of a business purchase.
+ * Returns `undefined` for private customers without any references.
+ */
+export function getSveaCompanyDetails(
+  sveaOrder: SveaOrder,
+): SveaCompanyDetails | undefined {
+  const customer = sveaOrder.Customer as Record<string, unknown> | undefined
+  const isCompany = Boolean(customer?.isCompany ?? customer?.IsCompany)
+
+  const billingReferences = (sveaOrder.BillingReferences || [])
+    .map((entry) =>
+      pickString(
+        entry as Record<string, unknown>,
+        'reference',
+        'Reference',
+        'value',
+        'Value',
+      ),
+    )
+    .filter((reference): reference is string => Boolean(reference))
+    .map((reference) => ({ reference }))
+
+  const details = Object.fromEntries(
+    Object.entries({
+      ...(isCompany
+        ? {
+            name:
+              pickString(customer, 'companyName', 'CompanyName') ||
+              pickString(
+                sveaOrder.BillingAddress as Record<string, unknown>,
+                'fullName',
+                'FullName',
+              ),
+            organizationNumber: pickString(
+              customer,
+              'nationalId',
+              'NationalId',
+            ),
+          }
+        : {}),
+      customerReference: sveaOrder.CustomerReference?.trim() || undefined,
+      peppolId: sveaOrder.PeppolId?.trim() || undefined,
+      billingReferences:
+        billingReferences.length > 0 ? billingReferences : undefined,
+    }).filter(([, value]) => value !== undefined),
+  ) as SveaCompanyDetails
+
+  return Object.keys(details).length > 0 ? details : undefined
+}
+
+/**
+ * Builds the preset values opening the checkout as a company purchase
+ */
+export async function buildSveaCompanyPresetValues({
+  req,
+  billingAddress,
+  options = {},
+}: {
+  req: PayloadRequest
+  billingAddress?: PayloadAddress
+  options?: SveaBusinessCheckoutOptions
+}): Promise<SveaPresetValue[]> {
+  const {
+    companyOnly = false,
+    resolveOrganizationNumber = ({ req: request }) =>
+      pickString(
+        request.user as Record<string, unknown> | undefined,
+        'organizationNumber',
+      ),
+  } = options
+
+  const organizationNumber = await resolveOrganizationNumber({
+    req,
+    billingAddress,
+  })
+
+  return [
+    { typeName: 'IsCompany', value: 'true', isReadonly: companyOnly },
+    ...(organizationNumber
+      ? [
+          {
+            typeName: 'NationalId',
+            value: organizationNumber,
+            isReadonly: false,
+          },
+        ]
+      : []),
+  ]
+}
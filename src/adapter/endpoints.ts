@@ -0,0 +1,193 @@
+import type { Endpoint, Payload, PayloadRequest } from 'payload'
+import { addDataAndFileToRequest } from 'payload'
+
+import { getSveaErrorResponse } from './errors'
+import type { SveaOrderRowOptions } from './order-rows'
+import type {
+  SveaAdapterConfig,
+  SveaAmountMismatchPolicy,
+  SveaHttpOptions,
+  SveaMerchantProfile,
+  SveaPaymentAdapter,
+  SveaReservationOptions,
+  SveaValidationOptions,
+} from './types'
+import { createSveaValidationCallbackHandler } from '../handlers/validation-callback'
+import { createSveaWebhookHandler } from '../handlers/webhook'
+
+/**
+ * Payload requests wrap the incoming Fetch `Request`, so the route
+ * handlers can read the body and headers directly
+ */
+function toFetchRequest(req: PayloadRequest): Request {
+  return req as unknown as Request
+}
+
+/**
+ * Creates the Payload endpoints replacing the Next.js route files.
+ *
+ * Paths are relative to `/api/payments/svea`:
+ * - `POST|GET /webhook` — Svea push notifications
+ * - `POST|PUT|GET /validation-callback/*` — Svea validation callbacks
+ * - `POST /confirm` — confirmation by Svea order ID, transaction ID or
+ *   client order number (the ecommerce plugin's own `/confirm-order`
+ *   requires a cart and customer email)
+ * - `POST /update-order` — send cart changes to an open Svea order
+ */
+export function createSveaEndpoints(options: {
+  merchantId: string
+  secretKey: string
+  checkoutApiUrl: string
+  merchants?: SveaMerchantProfile[]
+  http?: SveaHttpOptions
+  pushSecret?: string
+  pushAllowedIps?: string[]
+  pushTrustedProxies?: number
+  onMismatch: SveaAmountMismatchPolicy
+  amountTolerance: number
+  eventLog: boolean
+  validation?: SveaValidationOptions
+  reservations: boolean | SveaReservationOptions
+  orderRowOptions: SveaOrderRowOptions
+  collections: NonNullable<SveaAdapterConfig['collections']>
+  confirmOrder: SveaPaymentAdapter['confirmOrder']
+  updateCheckout: SveaPaymentAdapter['updateCheckout']
+}): Endpoint[] {
+  const { collections, confirmOrder, updateCheckout } = options
+
+  // Created once, so clients and their circuit breaker outlive a request.
+  // Every request carries the same Payload instance.
+  let payload: Payload | undefined
+  const getPayload = async () => payload as Payload
+
+  const webhook = createSveaWebhookHandler({
+    getPayload,
+    merchantId: options.merchantId,
+    secretKey: options.secretKey,
+    checkoutApiUrl: options.checkoutApiUrl,
+    merchants: options.merchants,
+    http: options.http,
+    collections,
+    onMismatch: options.onMismatch,
+    amountTolerance: options.amountTolerance,
+    pushSecret: options.pushSecret,
+    allowedIps: options.pushAllowedIps,
+    trustedProxies: options.pushTrustedProxies,
+    eventLog: options.eventLog,
+    reservations: options.reservations,
+  })
+
+  const validationCallback = createSveaValidationCallbackHandler({
+    ...options.orderRowOptions,
+    getPayload,
+    merchantId: options.merchantId,
+    secretKey: options.secretKey,
+    checkoutApiUrl: options.checkoutApiUrl,
+    merchants: options.merchants,
+    http: options.http,
+    collections,
+    validation: options.validation,
+    eventLog: options.eventLog,
+    reservations: options.reservations,
+  })
+
+  const handleWebhook: Endpoint['handler'] = (req) => {
+    payload = req.payload
+    return webhook.POST(toFetchRequest(req))
+  }
+
+  const handleValidation: Endpoint['handler'] = (req) => {
+    payload = req.payload
+    return validationCallback.POST(toFetchRequest(req))
+  }
+
+  const handleConfirm: Endpoint['handler'] = async (req) => {
+    try {
+      await addDataAndFileToRequest(req)
+      const data = (req.data || {}) as Record<string, unknown>
+
+      const result = await confirmOrder({
+        data,
+        req,
+        ordersSlug: collections.orders,
+        transactionsSlug: collections.transactions,
+        cartsSlug: collections.carts,
+        customersSlug: collections.customers,
+      })
+
+      return Response.json(result)
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      req.payload.logger.error(
+        { error: errorMessage },
+        'Error confirming Svea order',
+      )
+      const { status, message } = getSveaErrorResponse(error)
+      return Response.json({ error: message }, { status })
+    }
+  }
+
+  const handleUpdateOrder: Endpoint['handler'] = async (req) => {
+    try {
+      await addDataAndFileToRequest(req)
+      const data = (req.data || {}) as Record<string, unknown>
+
+      const transactionId =
+        (data.transactionId as string | number | undefined) ??
+        (data.transactionID as string | number | undefined)
+      const sveaOrderId =
+        (data.orderId as string | number | undefined) ??
+        (data.sveaOrderId as string | number | undefined)
+
+      if (!transactionId && !sveaOrderId) {
+        return Response.json(
+          { error: 'transactionId or orderId is required' },
+          { status: 400 },
+        )
+      }
+
+      const result = await updateCheckout({
+        req,
+        transactionId,
+        sveaOrderId,
+        checkoutToken: data.checkoutToken as string | undefined,
+        transactionsSlug: collections.transactions,
+        cartsSlug: collections.carts,
+      })
+
+      return Response.json(result)
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      req.payload.logger.error(
+        { error: errorMessage },
+        'Error updating Svea order',
+      )
+      const { status, message } = getSveaErrorResponse(error)
+      return Response.json({ error: message }, { status })
+    }
+  }
+
+  return [
+    { path: '/webhook', method: 'post', handler: handleWebhook },
+    { path: '/webhook', method: 'get', handler: handleWebhook },
+    {
+      path: '/validation-callback/:params*',
+      method: 'post',
+      handler: handleValidation,
+    },
+    {
+      path: '/validation-callback/:params*',
+      method: 'put',
+      handler: handleValidation,
+    },
+    {
+      path: '/validation-callback/:params*',
+      method: 'get',
+      handler: handleValidation,
+    },
+    { path: '/confirm', method: 'post', handler: handleConfirm },
+    { path: '/update-order', method: 'post', handler: handleUpdateOrder },
+  ]
+}
@@ -0,0 +1,241 @@
+import type { SveaErrorOptions, SveaReservationShortage } from './types'
+
+/** Customer message of errors without a more specific one */
+const DEFAULT_CUSTOMER_MESSAGE =
+  'Something went wrong with your payment. Please try again.'
+
+/**
+ * Base class of the errors thrown by the adapter. `message` is meant for
+ * logs and may contain internals; `customerMessage` is safe to show.
+ */
+export class SveaError extends Error {
+  /** HTTP status route handlers respond with */
+  readonly responseStatus: number
+  /** Message safe to show to customers */
+  readonly customerMessage: string
+  readonly cause?: unknown
+
+  constructor(
+    message: string,
+    {
+      responseStatus = 500,
+      customerMessage = DEFAULT_CUSTOMER_MESSAGE,
+      cause,
+    }: SveaErrorOptions & { responseStatus?: number } = {},
+  ) {
+    super(message)
+    this.name = 'SveaError'
+    this.responseStatus = responseStatus
+    this.customerMessage = customerMessage
+    if (cause !== undefined) this.cause = cause
+  }
+}
+
+/**
+ * Svea answered with an error status, or with a `ResultCode` reporting a
+ * failure. The message keeps the `<action>: <status> - <message>` format.
+ */
+export class SveaApiError extends SveaError {
+  /** HTTP status of Svea's response */
+  readonly status: number
+  /** Svea `ResultCode` of a 2xx response reporting a failure */
+  readonly resultCode?: number
+  /** Svea's `errormessage` header, or the message of the response body */
+  readonly errorMessage?: string
+
+  constructor(
+    message: string,
+    {
+      status,
+      resultCode,
+      errorMessage,
+      ...options
+    }: SveaErrorOptions & {
+      status: number
+      resultCode?: number
+      errorMessage?: string
+    },
+  ) {
+    super(message, {
+      // Svea's own failures are a bad gateway for our callers
+      responseStatus: status === 404 ? 404 : 502,
+      customerMessage:
+        status === 404
+          ? 'We could not find this checkout. Please start again.'
+          : 'The payment provider could not process the request. Please try again.',
+      ...options,
+    })
+    this.name = 'SveaApiError'
+    this.status = status
+    this.resultCode = resultCode
+    this.errorMessage = errorMessage
+  }
+}
+
+/**
+ * Svea could not be reached: a network error, a timeout, or an open
+ * circuit breaker failing the call fast
+ */
+export class SveaUnavailableError extends SveaError {
+  readonly reason: 'network' | 'timeout' | 'circuitOpen'
+  /** When an open circuit lets the next call through */
+  readonly retryAt?: Date
+
+  constructor(
+    message: string,
+    {
+      reason,
+      retryAt,
+      ...options
+    }: SveaErrorOptions & {
+      reason: SveaUnavailableError['reason']
+      retryAt?: Date
+    },
+  ) {
+    super(message, {
+      responseStatus: 503,
+      customerMessage:
+        'Payment is temporarily unavailable. Please try again in a moment.',
+      ...options,
+    })
+    this.name = 'SveaUnavailableError'
+    this.reason = reason
+    this.retryAt = retryAt
+  }
+}
+
+/**
+ * The request or the cart cannot be turned into a Svea order, e.g. a
+ * missing currency or an empty cart. The message defaults to being the
+ * customer message.
+ */
+export class SveaValidationError extends SveaError {
+  constructor(message: string, options: SveaErrorOptions = {}) {
+    super(message, {
+      responseStatus: 400,
+      customerMessage: message,
+      ...options,
+    })
+    this.name = 'SveaValidationError'
+  }
+}
+
+/**
+ * Some items lack the stock the checkout needs
+ */
+export class SveaOutOfStockError extends SveaError {
+  readonly shortages: SveaReservationShortage[]
+
+  constructor(
+    message: string,
+    {
+      shortages,
+      ...options
+    }: SveaErrorOptions & { shortages: SveaReservationShortage[] },
+  ) {
+    super(message, {
+      responseStatus: 409,
+      customerMessage: 'One or more items in your cart are no longer in stock.',
+      ...options,
+    })
+    this.name = 'SveaOutOfStockError'
+    this.shortages = shortages
+  }
+}
+
+/**
+ * No transaction matches the Svea order, transaction ID or client order
+ * number
+ */
+export class SveaTransactionNotFoundError extends SveaError {
+  constructor(
+    message = 'Transaction not found.',
+    options: SveaErrorOptions = {},
+  ) {
+    super(message, {
+      responseStatus: 404,
+      customerMessage: 'We could not find this checkout. Please start again.',
+      ...options,
+    })
+    this.name = 'SveaTransactionNotFoundError'
+  }
+}
+
+/**
+ * The cart of a checkout no longer exists
+ */
+export class SveaCartNotFoundError extends SveaError {
+  constructor(message = 'Cart not found.', options: SveaErrorOptions = {}) {
+    super(message, {
+      responseStatus: 404,
+      customerMessage: 'Your cart could not be found. Please start again.',
+      ...options,
+    })
+    this.name = 'SveaCartNotFoundError'
+  }
+}
+
+/**
+ * The transaction or Svea order is in a state that does not allow the
+ * action, e.g. updating a completed checkout
+ */
+export class SveaOrderStateError extends SveaError {
+  constructor(message: string, options: SveaErrorOptions = {}) {
+    super(message, {
+      responseStatus: 409,
+      customerMessage: 'This order has already been completed or cancelled.',
+      ...options,
+    })
+    this.name = 'SveaOrderStateError'
+  }
+}
+
+/**
+ * The customer has not completed the Svea checkout yet
+ */
+export class SveaOrderNotFinalError extends SveaError {
+  /** Current checkout status, e.g. `Created` */
+  readonly sveaStatus: string
+
+  constructor(sveaStatus: string, options: SveaErrorOptions = {}) {
+    super(`Svea order is not finalized. Current status: ${sveaStatus}`, {
+      responseStatus: 409,
+      customerMessage: 'Your payment has not been completed yet.',
+      ...options,
+    })
+    this.name = 'SveaOrderNotFinalError'
+    this.sveaStatus = sveaStatus
+  }
+}
+
+/**
+ * The Svea order total or currency differs from the transaction and the
+ * mismatch policy holds the order for review
+ */
+export class SveaAmountMismatchError extends SveaError {
+  constructor(
+    message = 'Svea order amount does not match the transaction. The order requires manual review.',
+    options: SveaErrorOptions = {},
+  ) {
+    super(message, {
+      responseStatus: 409,
+      customerMessage:
+        'Your payment was received, but your order needs a manual review. We will be in touch.',
+      ...options,
+    })
+    this.name = 'SveaAmountMismatchError'
+  }
+}
+
+/**
+ * Status and customer-safe message to respond with for an error. Errors
+ * not thrown by the adapter give a 500 with a generic message.
+ */
+export function getSveaErrorResponse(error: unknown): {
+  status: number
+  message: string
+} {
+  return error instanceof SveaError
+    ? { status: error.responseStatus, message: error.customerMessage }
+    : { status: 500, message: DEFAULT_CUSTOMER_MESSAGE }
+}
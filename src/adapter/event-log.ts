@@ -0,0 +1,159 @@
+import type { Payload } from 'payload'
+
+import { SVEA_PUSH_SECRET_PARAM } from './push-verification'
+import type {
+  SveaApiCall,
+  SveaApiCallListener,
+  SveaEventLog,
+} from './types'
+
+/** Default slug of the Svea event log collection */
+export const SVEA_EVENTS_SLUG = 'svea-events'
+
+/** Keys whose values are never stored in the event log */
+const REDACTED_KEYS = new Set([
+  'authorization',
+  'secret',
+  'secretkey',
+  'password',
+  'token',
+  'recurringtoken',
+])
+
+/** Keys whose values are too large to be useful in the event log */
+const OMITTED_KEYS = new Set(['snippet'])
+
+/**
+ * Removes credentials and large values from data before it is stored
+ */
+export function redactSveaEventData(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSveaEventData)
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => {
+        const normalizedKey = key.toLowerCase()
+        if (REDACTED_KEYS.has(normalizedKey)) return [key, '[redacted]']
+        if (OMITTED_KEYS.has(normalizedKey)) return [key, '[omitted]']
+        return [key, redactSveaEventData(entry)]
+      }),
+    )
+  }
+
+  return value
+}
+
+/**
+ * Removes the push secret and recurring tokens from a URL before it is
+ * stored
+ */
+export function redactSveaEventUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    if (parsed.searchParams.has(SVEA_PUSH_SECRET_PARAM)) {
+      parsed.searchParams.set(SVEA_PUSH_SECRET_PARAM, '[redacted]')
+    }
+    parsed.pathname = parsed.pathname.replace(
+      /\/tokens\/[^/]+/,
+      '/tokens/[redacted]',
+    )
+    return parsed.toString()
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Reads the Svea order ID from an API call's path or response
+ */
+function getApiCallOrderId(call: SveaApiCall): number | undefined {
+  const match = call.url.match(/\/orders\/(\d+)/)
+  if (match?.[1]) return Number(match[1])
+
+  const responseOrderId = (call.responseBody as { OrderId?: unknown } | null)
+    ?.OrderId
+  return typeof responseOrderId === 'number' ? responseOrderId : undefined
+}
+
+/**
+ * Creates the writer for the `svea-events` collection
+ *
+ * Failures to store an event are logged and swallowed so the event log
+ * can never break a payment flow.
+ */
+export function createSveaEventLog(
+  options: { slug?: string; transactionsSlug?: string } = {},
+): SveaEventLog {
+  const { slug = SVEA_EVENTS_SLUG, transactionsSlug = 'transactions' } =
+    options
+
+  const record: SveaEventLog['record'] = async (payload, event) => {
+    try {
+      let transaction = event.transaction
+
+      if (!transaction && event.sveaOrderId) {
+        const results = await payload.find({
+          collection: transactionsSlug as 'transactions',
+          where: {
+            'svea.orderId': {
+              equals: event.sveaOrderId,
+            },
+          },
+          limit: 1,
+          depth: 0,
+        })
+        transaction = results.docs[0]?.id
+      }
+
+      await payload.create({
+        collection: slug as 'transactions',
+        data: {
+          ...event,
+          ...(transaction ? { transaction } : {}),
+          ...(event.url ? { url: redactSveaEventUrl(event.url) } : {}),
+          request: redactSveaEventData(event.request),
+          response: redactSveaEventData(event.response),
+        } as Record<string, unknown>,
+      })
+    } catch (error) {
+      payload.logger.warn(
+        {
+          type: event.type,
+          sveaOrderId: event.sveaOrderId,
+          error: error instanceof Error ? error.message : error,
+        },
+        'Could not store Svea event',
+      )
+    }
+  }
+
+  return {
+    record,
+    apiCallListener: (payload: Payload) => (call) =>
+      record(payload, {
+        type: 'api',
+        sveaOrderId: getApiCallOrderId(call),
+        method: call.method,
+        url: call.url,
+        httpStatus: call.status,
+        durationMs: call.durationMs,
+        outcome: call.error ? 'failed' : 'succeeded',
+        request: call.requestBody,
+        response: call.responseBody,
+        error: call.error,
+      }),
+  }
+}
+
+/**
+ * Returns the client reporting its API calls to the event log, or the
+ * client itself when the event log is disabled
+ */
+export function withSveaEventLog<
+  T extends { withApiCallListener: (listener: SveaApiCallListener) => T },
+>(client: T, eventLog: SveaEventLog | undefined, payload: Payload): T {
+  if (!eventLog) return client
+  return client.withApiCallListener(eventLog.apiCallListener(payload))
+}
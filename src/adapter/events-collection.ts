@@ -0,0 +1,117 @@
+import type { CollectionConfig, Plugin } from 'payload'
+
+import { isSveaAdmin } from './access'
+import { SVEA_EVENTS_SLUG } from './event-log'
+import type { SveaEventsCollectionOptions } from './types'
+
+/**
+ * Collection storing inbound Svea callbacks and outbound API calls
+ *
+ * Events are written through the local API only; the admin list can be
+ * filtered by Svea order ID and event type.
+ */
+export function sveaEventsCollection(
+  options: SveaEventsCollectionOptions = {},
+): CollectionConfig {
+  const {
+    slug = SVEA_EVENTS_SLUG,
+    transactionsSlug = 'transactions',
+    readAccess = isSveaAdmin,
+  } = options
+
+  return {
+    slug,
+    labels: {
+      singular: 'Svea event',
+      plural: 'Svea events',
+    },
+    admin: {
+      group: 'Ecommerce',
+      useAsTitle: 'type',
+      defaultColumns: [
+        'type',
+        'sveaOrderId',
+        'status',
+        'outcome',
+        'transaction',
+        'createdAt',
+      ],
+      listSearchableFields: ['sveaOrderId', 'url'],
+    },
+    access: {
+      read: readAccess,
+      create: () => false,
+      update: () => false,
+      delete: readAccess,
+    },
+    disableDuplicate: true,
+    timestamps: true,
+    fields: [
+      {
+        name: 'type',
+        type: 'select',
+        required: true,
+        index: true,
+        options: [
+          { label: 'Push notification', value: 'push' },
+          { label: 'Validation callback', value: 'validation' },
+          { label: 'Confirmation', value: 'confirm' },
+          { label: 'API call', value: 'api' },
+        ],
+      },
+      {
+        name: 'sveaOrderId',
+        type: 'number',
+        label: 'Svea Order ID',
+        index: true,
+      },
+      {
+        name: 'transaction',
+        type: 'relationship',
+        relationTo: transactionsSlug as 'transactions',
+        index: true,
+      },
+      {
+        type: 'row',
+        fields: [
+          { name: 'status', type: 'text', label: 'Svea Status' },
+          { name: 'outcome', type: 'text' },
+          { name: 'httpStatus', type: 'number', label: 'HTTP Status' },
+          { name: 'durationMs', type: 'number', label: 'Duration (ms)' },
+        ],
+      },
+      {
+        type: 'row',
+        fields: [
+          { name: 'method', type: 'text' },
+          { name: 'url', type: 'text', label: 'URL' },
+        ],
+      },
+      { name: 'request', type: 'json' },
+      { name: 'response', type: 'json' },
+      { name: 'error', type: 'textarea' },
+    ],
+  }
+}
+
+/**
+ * Payload plugin adding the `svea-events` collection
+ *
+ * @example
+ * ```ts
+ * export default buildConfig({
+ *   plugins: [
+ *     ecommercePlugin({ ... sveaAdapter({ ..., eventLog: true }) ... }),
+ *     sveaEventLogPlugin(),
+ *   ],
+ * })
+ * ```
+ */
+export function sveaEventLogPlugin(
+  options: SveaEventsCollectionOptions = {},
+): Plugin {
+  return (config) => ({
+    ...config,
+    collections: [...(config.collections || []), sveaEventsCollection(options)],
+  })
+}
@@ -0,0 +1,200 @@
+import type { NamedGroupField, TextField, UIField } from 'payload'
+
+import { isSveaAdmin } from './access'
+import {
+  SVEA_RECURRING_MERCHANT_PROFILE_FIELD,
+  SVEA_RECURRING_TOKEN_FIELD,
+} from './recurring-token'
+
+/** Import map path of the Svea admin actions component */
+export const SVEA_ORDER_ACTIONS_COMPONENT =
+  '@jevnakern/payload-svea-adapter/admin#SveaOrderActions'
+
+/**
+ * UI field rendering live Svea status and Deliver/Credit/Cancel actions
+ * on an order's edit view
+ *
+ * @example
+ * ```ts
+ * ecommercePlugin({
+ *   orders: {
+ *     ordersCollectionOverride: ({ defaultCollection }) => ({
+ *       ...defaultCollection,
+ *       fields: [...defaultCollection.fields, sveaOrderActionsField()],
+ *     }),
+ *   },
+ * })
+ * ```
+ */
+export function sveaOrderActionsField(
+  overrides: Partial<Omit<UIField, 'type'>> = {},
+): UIField {
+  return {
+    name: 'sveaActions',
+    label: 'Svea',
+    ...overrides,
+    type: 'ui',
+    admin: {
+      ...overrides.admin,
+      components: {
+        Field: {
+          path: SVEA_ORDER_ACTIONS_COMPONENT,
+          clientProps: { source: 'order' },
+        },
+        ...overrides.admin?.components,
+      },
+    },
+  }
+}
+
+/**
+ * Text field storing the Svea recurring token on the customers collection
+ *
+ * The token is written by the adapter when a recurring checkout is
+ * finalized and read by `chargeRecurringToken`. It is hidden from the
+ * admin UI and can only be read by users passing `isSveaAdmin`, not by
+ * customers, not even their own token.
+ *
+ * @example
+ * ```ts
+ * export const Users: CollectionConfig = {
+ *   slug: 'users',
+ *   auth: true,
+ *   fields: [...fields, sveaRecurringTokenField()],
+ * }
+ * ```
+ */
+export function sveaRecurringTokenField(
+  overrides: Partial<Omit<TextField, 'type' | 'name'>> = {},
+): TextField {
+  return {
+    label: 'Svea Recurring Token',
+    index: true,
+    ...overrides,
+    name: SVEA_RECURRING_TOKEN_FIELD,
+    type: 'text',
+    access: {
+      read: isSveaAdmin,
+      update: () => false,
+      ...overrides.access,
+    },
+    admin: {
+      hidden: true,
+      ...overrides.admin,
+    },
+  } as TextField
+}
+
+/**
+ * Text field storing the merchant profile that issued the recurring token,
+ * next to `sveaRecurringTokenField`. Needed with `merchants`, so
+ * `chargeRecurringToken` charges the token through the profile it belongs
+ * to rather than the one serving the currency.
+ *
+ * @example
+ * ```ts
+ * fields: [
+ *   ...fields,
+ *   sveaRecurringTokenField(),
+ *   sveaRecurringMerchantProfileField(),
+ * ]
+ * ```
+ */
+export function sveaRecurringMerchantProfileField(
+  overrides: Partial<Omit<TextField, 'type' | 'name'>> = {},
+): TextField {
+  return {
+    label: 'Svea Recurring Merchant Profile',
+    ...overrides,
+    name: SVEA_RECURRING_MERCHANT_PROFILE_FIELD,
+    type: 'text',
+    access: {
+      read: isSveaAdmin,
+      update: () => false,
+      ...overrides.access,
+    },
+    admin: {
+      hidden: true,
+      ...overrides.admin,
+    },
+  } as TextField
+}
+
+/**
+ * Group field storing the shipping chosen in the Svea checkout on an
+ * order. The adapter fills it when embedded shipping is enabled.
+ *
+ * @example
+ * ```ts
+ * ecommercePlugin({
+ *   orders: {
+ *     ordersCollectionOverride: ({ defaultCollection }) => ({
+ *       ...defaultCollection,
+ *       fields: [...defaultCollection.fields, sveaShippingField()],
+ *     }),
+ *   },
+ * })
+ * ```
+ */
+export function sveaShippingField(
+  overrides: Partial<Omit<NamedGroupField, 'type' | 'fields'>> = {},
+): NamedGroupField {
+  const readOnly = { readOnly: true }
+
+  return {
+    name: 'sveaShipping',
+    label: 'Shipping',
+    ...overrides,
+    type: 'group',
+    admin: {
+      condition: (_, siblingData) =>
+        typeof siblingData?.[overrides.name || 'sveaShipping']?.fee ===
+        'number',
+      ...overrides.admin,
+    },
+    fields: [
+      {
+        type: 'row',
+        fields: [
+          { name: 'carrier', type: 'text', admin: readOnly },
+          { name: 'name', type: 'text', admin: readOnly },
+          {
+            name: 'fee',
+            type: 'number',
+            label: 'Fee (minor units)',
+            admin: readOnly,
+          },
+        ],
+      },
+      {
+        type: 'row',
+        fields: [
+          {
+            name: 'optionId',
+            type: 'text',
+            label: 'Option ID',
+            admin: readOnly,
+          },
+          { name: 'postalCode', type: 'text', admin: readOnly },
+        ],
+      },
+      {
+        type: 'row',
+        fields: [
+          {
+            name: 'pickupPointId',
+            type: 'text',
+            label: 'Pickup Point ID',
+            admin: readOnly,
+          },
+          {
+            name: 'pickupPointName',
+            type: 'text',
+            label: 'Pickup Point',
+            admin: readOnly,
+          },
+        ],
+      },
+    ],
+  } as NamedGroupField
+}
@@ -0,0 +1,404 @@
+import crypto from 'crypto'
+
+import type { PayloadRequest } from 'payload'
+import {
+  commitTransaction,
+  createLocalReq,
+  initTransaction,
+  killTransaction,
+} from 'payload'
+
+import type {
+  PayloadAddress,
+  SveaFinalizeOrderArgs,
+  SveaFinalizeOrderResult,
+} from './types'
+import { getSveaCompanyDetails } from './company'
+import { SveaCartNotFoundError, SveaOrderStateError } from './errors'
+import { getSveaMerchantProfileName } from './merchant-profiles'
+import { storeSveaRecurringToken } from './recurring-token'
+import { getSveaShippingDetails, hasSveaShippingRecorded } from './shipping'
+import { mapSveaAddressToPayload } from '../utils/address'
+
+/**
+ * Normalizes cart items for storage
+ */
+export function normalizeCartItems(
+  cart?: {
+    items?: unknown[] | null
+  } | null,
+) {
+  if (!cart?.items || cart.items.length === 0) return []
+
+  return cart.items.map((item) => {
+    const typedItem = item as {
+      product?: number | string | { id?: number | string } | null
+      variant?: number | string | { id?: number | string } | null
+      quantity?: number
+      id?: string | number | null
+    }
+    return {
+      product:
+        typeof typedItem.product === 'object'
+          ? typedItem.product?.id
+          : typedItem.product,
+      variant: typedItem.variant
+        ? typeof typedItem.variant === 'object'
+          ? typedItem.variant.id
+          : typedItem.variant
+        : undefined,
+      quantity: typedItem.quantity || 1,
+    }
+  })
+}
+
+/**
+ * Reads the ID of a relationship value that may be populated
+ */
+function getRelationId(value: unknown): number | string | undefined {
+  if (value && typeof value === 'object') {
+    return (value as { id?: number | string }).id
+  }
+  return (value as number | string | null | undefined) ?? undefined
+}
+
+/** Age after which a claim left by a crashed call may be taken over */
+const FINALIZE_CLAIM_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Creates the Payload order for a `Final` Svea order, links it to the
+ * transaction, marks the cart as purchased and stores a recurring token
+ * on the customer.
+ *
+ * Used by both `confirmOrder` and the webhook so the order looks the same
+ * whichever fires first. The transaction is claimed first with a
+ * conditional update that only matches while it has no order and no live
+ * claim, which is atomic on adapters without transactions such as
+ * MongoDB. Inside a database transaction the claim also locks the row: a
+ * concurrent call waits (or fails with a write conflict), then sees the
+ * linked order and returns it instead of creating a second one.
+ */
+export async function finalizeSveaOrder({
+  payload,
+  user,
+  transactionId,
+  sveaOrder,
+  amountMismatch,
+  customerEmail,
+  ordersSlug = 'orders',
+  transactionsSlug = 'transactions',
+  cartsSlug = 'carts',
+  customersSlug = 'users',
+  reservations,
+}: SveaFinalizeOrderArgs): Promise<SveaFinalizeOrderResult> {
+  const req = await createLocalReq(user ? { user } : {}, payload)
+  const ownsTransaction = await initTransaction(req)
+
+  const findLinkedOrder = async (lockedReq?: PayloadRequest) => {
+    const transaction = await payload.findByID({
+      collection: transactionsSlug as 'transactions',
+      id: transactionId,
+      depth: 0,
+      showHiddenFields: true,
+      req: lockedReq,
+    })
+    return { transaction, orderID: getRelationId(transaction.order) }
+  }
+
+  const claim = crypto.randomUUID()
+  let claimed = false
+
+  try {
+    const { transaction: current } = await findLinkedOrder(req)
+    const currentSveaData =
+      current.svea && typeof current.svea === 'object'
+        ? (current.svea as Record<string, unknown>)
+        : {}
+
+    // Claim the transaction row before anything else. The whole group is
+    // written, as MongoDB replaces nested objects.
+    const now = Date.now()
+    await payload.db.updateOne({
+      collection: transactionsSlug,
+      where: {
+        and: [
+          { id: { equals: transactionId } },
+          { order: { exists: false } },
+          {
+            or: [
+              { 'svea.finalizeClaim': { exists: false } },
+              {
+                'svea.finalizedAt': {
+                  less_than: new Date(now - FINALIZE_CLAIM_TTL_MS).toISOString(),
+                },
+              },
+            ],
+          },
+        ],
+      },
+      data: {
+        svea: {
+          ...currentSveaData,
+          finalizedAt: new Date(now).toISOString(),
+          finalizeClaim: claim,
+        },
+      },
+      req,
+      returning: false,
+    })
+
+    // Re-read after the lock - another call may have finished meanwhile
+    const { transaction, orderID: linkedOrderID } = await findLinkedOrder(req)
+    claimed =
+      (transaction.svea as { finalizeClaim?: unknown } | undefined)
+        ?.finalizeClaim === claim
+
+    if (!linkedOrderID && !claimed) {
+      throw new SveaOrderStateError(
+        'Svea order is being finalized by another request.',
+      )
+    }
+
+    if (linkedOrderID) {
+      if (ownsTransaction) await killTransaction(req)
+      payload.logger.info(
+        { transactionId, orderId: linkedOrderID },
+        'Svea order already finalized',
+      )
+      return {
+        orderID: linkedOrderID,
+        transactionID: transactionId,
+        created: false,
+      }
+    }
+
+    const existingSveaData =
+      transaction.svea && typeof transaction.svea === 'object'
+        ? (transaction.svea as Record<string, unknown>)
+        : {}
+
+    // Get cart - recurring charges have none
+    const cartId = getRelationId(transaction.cart)
+    const cart = cartId
+      ? await payload.findByID({
+          collection: cartsSlug as 'carts',
+          id: cartId,
+          req,
+        })
+      : null
+
+    // Normalize order items, falling back to the transaction's snapshot
+    let normalizedOrderItems = normalizeCartItems(
+      cart as { items?: unknown[] | null } | null,
+    )
+    if (
+      normalizedOrderItems.length === 0 &&
+      Array.isArray(transaction.items) &&
+      transaction.items.length > 0
+    ) {
+      normalizedOrderItems = normalizeCartItems({
+        items: transaction.items as unknown[],
+      })
+    }
+
+    if (!cart && normalizedOrderItems.length === 0) {
+      throw new SveaCartNotFoundError()
+    }
+
+    // Company and invoice references of business purchases
+    const company = getSveaCompanyDetails(sveaOrder)
+
+    // Shipping chosen in the checkout is charged on top of the cart
+    const shipping = getSveaShippingDetails(sveaOrder)
+    const addShippingFee = Boolean(
+      shipping && !hasSveaShippingRecorded(transaction),
+    )
+    const amount =
+      ((transaction.amount as number) || (cart?.subtotal as number) || 0) +
+      (shipping && addShippingFee ? shipping.fee / 100 : 0)
+
+    // Resolve addresses
+    let shippingAddress: PayloadAddress | undefined
+    let billingAddress: PayloadAddress | undefined
+
+    if (transaction.billingAddress) {
+      const storedAddress = transaction.billingAddress as PayloadAddress
+      billingAddress = {
+        ...storedAddress,
+        ...(company?.name && !storedAddress.company
+          ? { company: company.name }
+          : {}),
+      }
+      shippingAddress = billingAddress
+    } else {
+      shippingAddress =
+        mapSveaAddressToPayload(
+          sveaOrder.ShippingAddress || sveaOrder.BillingAddress,
+          company?.name,
+        ) || undefined
+      billingAddress =
+        mapSveaAddressToPayload(
+          sveaOrder.BillingAddress || sveaOrder.ShippingAddress,
+          company?.name,
+        ) || undefined
+    }
+
+    // Resolve customer
+    const customerId =
+      getRelationId(cart?.customer) ||
+      getRelationId(transaction.customer) ||
+      user?.id ||
+      undefined
+
+    const resolvedCustomerEmail =
+      (transaction.customerEmail as string) ||
+      customerEmail ||
+      sveaOrder.Customer?.emailAddress ||
+      sveaOrder.EmailAddress ||
+      (typeof user?.email === 'string' ? user.email : undefined)
+
+    // Orders created before this transaction was linked
+    const existingOrderLookup = await payload.find({
+      collection: ordersSlug as 'orders',
+      where: {
+        transactions: {
+          contains: transaction.id,
+        },
+      },
+      limit: 1,
+      depth: 0,
+      req,
+    })
+
+    let orderID = existingOrderLookup.docs[0]?.id as number | string | undefined
+    const created = !orderID
+
+    if (!orderID) {
+      const order = await payload.create({
+        collection: ordersSlug as 'orders',
+        data: {
+          amount,
+          currency: (transaction.currency || cart?.currency || 'NOK') as string,
+          items: normalizedOrderItems,
+          status: 'processing',
+          ...(shipping ? { sveaShipping: shipping } : {}),
+          transactions: [transaction.id],
+          ...(shippingAddress ? { shippingAddress } : {}),
+          ...(customerId ? { customer: customerId } : {}),
+          ...(resolvedCustomerEmail
+            ? { customerEmail: resolvedCustomerEmail }
+            : {}),
+        } as Record<string, unknown>,
+        req,
+      })
+      orderID = order.id
+    }
+
+    await payload.update({
+      id: transaction.id,
+      collection: transactionsSlug as 'transactions',
+      data: {
+        order: orderID,
+        status: 'succeeded',
+        ...(addShippingFee ? { amount } : {}),
+        ...(billingAddress ? { billingAddress } : {}),
+        ...(resolvedCustomerEmail ? { customerEmail: resolvedCustomerEmail } : {}),
+        svea: {
+          ...existingSveaData,
+          orderId: sveaOrder.OrderId,
+          clientOrderNumber:
+            existingSveaData.clientOrderNumber || sveaOrder.ClientOrderNumber,
+          paymentType:
+            sveaOrder.PaymentType ||
+            sveaOrder.Payment?.paymentType ||
+            existingSveaData.paymentType,
+          ...(company ? { company } : {}),
+          ...(shipping ? { shipping } : {}),
+          ...(amountMismatch ? { amountMismatch } : {}),
+        },
+      } as Record<string, unknown>,
+      req,
+    })
+
+    // Deduct reserved stock together with the order
+    await reservations?.commit(payload, transactionId, req)
+
+    if (ownsTransaction) await commitTransaction(req)
+
+    payload.logger.info(
+      { orderId: orderID, transactionId, sveaOrderId: sveaOrder.OrderId, created },
+      created ? 'Created order for Svea payment' : 'Linked existing order',
+    )
+
+    // Mark cart as purchased - failures must not undo the order
+    if (cart) {
+      try {
+        await payload.update({
+          id: cart.id,
+          collection: cartsSlug as 'carts',
+          data: {
+            purchasedAt:
+              (cart.purchasedAt as string) || new Date().toISOString(),
+            status: 'purchased',
+            items: [],
+          } as Record<string, unknown>,
+        })
+      } catch (cartError) {
+        payload.logger.warn(
+          { cartId: cart.id, error: cartError },
+          'Could not update cart status',
+        )
+      }
+    }
+
+    if (sveaOrder.RecurringToken) {
+      await storeSveaRecurringToken({
+        payload,
+        customerId,
+        token: sveaOrder.RecurringToken,
+        merchantProfile: getSveaMerchantProfileName(transaction),
+        customersSlug,
+        transactionId,
+      })
+    }
+
+    return { orderID, transactionID: transactionId, created }
+  } catch (error) {
+    if (ownsTransaction) {
+      await killTransaction(req)
+    } else if (claimed) {
+      // Without a rollback, let a retry take the claim right away. The
+      // whole group is written, as MongoDB replaces nested objects.
+      await findLinkedOrder()
+        .then(({ transaction }) =>
+          payload.db.updateOne({
+            collection: transactionsSlug,
+            where: {
+              and: [
+                { id: { equals: transactionId } },
+                { 'svea.finalizeClaim': { equals: claim } },
+              ],
+            },
+            data: {
+              svea: {
+                ...(transaction.svea as Record<string, unknown>),
+                finalizeClaim: null,
+              },
+            },
+            returning: false,
+          }),
+        )
+        .catch(() => undefined)
+    }
+
+    // A concurrent call may have won the write conflict
+    const { orderID } = await findLinkedOrder().catch(() => ({
+      orderID: undefined,
+    }))
+    if (orderID) {
+      return { orderID, transactionID: transactionId, created: false }
+    }
+
+    throw error
+  }
+}
@@ -4,16 +4,63 @@ import type {
 } from '@payloadcms/plugin-ecommerce/types'
 import type { GroupField } from 'payload'
 
-import { createSveaAuthHeaders } from './auth'
+import { createSveaAdminActions } from './admin-actions'
+import { SVEA_ADMIN_API_URLS } from './admin-client'
+import { createSveaAdminEndpoints } from './admin-endpoints'
+import {
+  createSveaCheckoutToken,
+  verifySveaCheckoutToken,
+} from './checkout-token'
+import { buildSveaCompanyPresetValues } from './company'
+import { createSveaEndpoints } from './endpoints'
+import {
+  SveaAmountMismatchError,
+  SveaCartNotFoundError,
+  SveaError,
+  SveaOrderNotFinalError,
+  SveaOrderStateError,
+  SveaOutOfStockError,
+  SveaTransactionNotFoundError,
+  SveaValidationError,
+} from './errors'
+import { SVEA_API_URLS } from './checkout-client'
+import { createSveaEventLog, withSveaEventLog } from './event-log'
+import { SVEA_ORDER_ACTIONS_COMPONENT, sveaShippingField } from './fields'
+import { finalizeSveaOrder, normalizeCartItems } from './finalize-order'
+import {
+  createSveaMerchantClients,
+  getSveaMerchantProfileName,
+} from './merchant-profiles'
+import { buildSveaOrderRows, calculateSveaOrderTotal } from './order-rows'
+import type { SveaOrderRowOptions } from './order-rows'
+import {
+  buildSveaPresetValues,
+  mergeSveaPresetValues,
+  resolveSveaIdentityFlags,
+} from './preset-values'
+import { buildSveaPushUri } from './push-verification'
+import { buildSveaShippingInformation } from './shipping'
+import {
+  createSveaAmountMismatch,
+  reconcileSveaOrderAmount,
+  recordSveaAmountMismatch,
+} from './reconciliation'
+import {
+  createSveaInventoryReservations,
+  describeSveaShortages,
+  toSveaReservationItems,
+} from './reservations'
+import { sweepSveaPendingTransactions } from './sweeper'
+import { reconcileSveaTransactions } from './reconciliation-job'
+import { chargeSveaRecurringToken } from './recurring'
+import { getSveaRecurringMerchantProfile } from './recurring-token'
 import type {
   CreateSveaOrderRequest,
-  CreateSveaOrderResponse,
-  GetSveaOrderResponse,
   PayloadAddress,
   SveaAdapterConfig,
-  SveaOrderRow,
+  SveaPaymentAdapter,
+  SveaPresetContext,
 } from './types'
-import { mapSveaAddressToPayload } from '../utils/address'
 import {
   generateClientOrderNumber,
   getLocaleFromCountryCode,
@@ -21,94 +68,6 @@ import {
   normalizeCountryCode,
 } from '../utils'
 
-/** Default Svea Checkout API URLs */
-export const SVEA_API_URLS = {
-  staging: 'https://checkoutapistage.svea.com',
-  production: 'https://checkoutapi.svea.com',
-} as const
-
-/**
- * Maps a cart item to Svea order row format
- */
-function mapCartItemToSveaOrderRow(
-  item: {
-    product?: number | { id?: number; title?: string; priceInNOK?: number } | null
-    variant?: number | { id?: number; priceInNOK?: number } | null
-    quantity: number
-    id?: string | null
-  },
-  index: number,
-  vatPercent = 2500, // Default 25% VAT
-): SveaOrderRow | null {
-  if (!item.product) return null
-
-  const product = typeof item.product === 'object' ? item.product : null
-  const variant =
-    item.variant && typeof item.variant === 'object' ? item.variant : null
-
-  if (!product) return null
-
-  const priceInNOK = variant?.priceInNOK ?? (product as { priceInNOK?: number })?.priceInNOK ?? 0
-  const productTitle = (product as { title?: string })?.title || `Product ${index + 1}`
-  const quantity = item.quantity || 1
-
-  if (!priceInNOK || priceInNOK <= 0) {
-    throw new Error(`Invalid price for product ${productTitle}: ${priceInNOK}`)
-  }
-
-  // Convert to minor units (øre/cents)
-  const unitPrice = Math.round(priceInNOK * 100)
-
-  // Sanity check for price
-  if (unitPrice > 10000000000) {
-    throw new Error(
-      `Price too high for product ${productTitle}: ${priceInNOK}. Check if price is already in minor units.`,
-    )
-  }
-
-  // Quantity in minor units (100 = 1 unit)
-  const quantityInMinorUnits = Math.round(quantity * 100)
-
-  return {
-    name: productTitle,
-    quantity: quantityInMinorUnits,
-    unitPrice,
-    vatPercent,
-  }
-}
-
-/**
- * Normalizes cart items for storage
- */
-function normalizeCartItems(
-  cart?: {
-    items?: unknown[] | null
-  } | null,
-) {
-  if (!cart?.items || cart.items.length === 0) return []
-
-  return cart.items.map((item) => {
-    const typedItem = item as {
-      product?: number | string | { id?: number | string } | null
-      variant?: number | string | { id?: number | string } | null
-      quantity?: number
-      id?: string | number | null
-    }
-    return {
-      product:
-        typeof typedItem.product === 'object'
-          ? typedItem.product?.id
-          : typedItem.product,
-      variant: typedItem.variant
-        ? typeof typedItem.variant === 'object'
-          ? typedItem.variant.id
-          : typedItem.variant
-        : undefined,
-      quantity: typedItem.quantity || 1,
-    }
-  })
-}
-
 /**
  * Creates a Svea payment adapter for Payload CMS ecommerce plugin
  *
@@ -134,17 +93,90 @@ function normalizeCartItems(
  */
 export function sveaAdapter(
   config: SveaAdapterConfig & PaymentAdapterArgs,
-): PaymentAdapter {
+): SveaPaymentAdapter {
   const {
     merchantId,
     secretKey,
     checkoutApiUrl = process.env.SVEA_CHECKOUT_API_URL || SVEA_API_URLS.staging,
+    paymentAdminApiUrl = process.env.SVEA_PAYMENT_ADMIN_API_URL ||
+      SVEA_ADMIN_API_URLS.staging,
     frontendBaseUrl = process.env.FRONTEND_BASE_URL ||
       process.env.NEXT_PUBLIC_SERVER_URL,
+    pushSecret = process.env.SVEA_PUSH_SECRET,
+    pushAllowedIps,
+    pushTrustedProxies,
+    registerEndpoints = true,
     label = 'Svea',
+    adminAccess,
+    eventLog: eventLogEnabled = false,
     collections = {},
+    resolvePrice,
+    resolveVatPercent,
+    resolveRowName,
+    resolveArticleNumber,
+    taxClassField,
+    taxClasses,
+    defaultVatPercent,
+    resolveShipping,
+    resolveDiscounts,
+    fees,
+    onMismatch = 'review',
+    amountTolerance = 0,
+    validation,
+    reservations: reservationsConfig = false,
+    recurring = false,
+    business = false,
+    presetValues,
+    identityFlags,
+    shipping = false,
+    merchants,
+    http,
   } = config
 
+  const shippingOptions = shipping === true ? {} : shipping || undefined
+
+  const orderRowOptions: SveaOrderRowOptions = {
+    resolvePrice,
+    resolveVatPercent,
+    resolveRowName,
+    resolveArticleNumber,
+    taxClassField,
+    taxClasses,
+    defaultVatPercent,
+    resolveShipping,
+    resolveDiscounts,
+    fees,
+    sveaShipping: Boolean(shippingOptions),
+  }
+
+  const merchantClients = createSveaMerchantClients({
+    merchantId,
+    secretKey,
+    checkoutApiUrl,
+    paymentAdminApiUrl,
+    merchants,
+    http,
+  })
+
+  const checkoutClient = merchantClients.checkoutClient()
+  const adminClient = merchantClients.adminClient()
+
+  const eventLog = eventLogEnabled
+    ? createSveaEventLog({
+        slug: collections.events,
+        transactionsSlug: collections.transactions,
+      })
+    : undefined
+
+  const reservations = reservationsConfig
+    ? createSveaInventoryReservations({
+        ...(reservationsConfig === true ? {} : reservationsConfig),
+        slug: collections.reservations,
+        productsSlug: collections.products,
+        variantsSlug: collections.variants,
+      })
+    : undefined
+
   const initiatePayment: PaymentAdapter['initiatePayment'] = async ({
     data,
     req,
@@ -159,57 +191,80 @@ export function sveaAdapter(
       (req.user && 'email' in req.user ? (req.user.email as string) : undefined)
 
     if (!currency) {
-      throw new Error('Currency is required.')
+      throw new SveaValidationError('Currency is required.')
     }
 
     if (!cart || !cart.items || cart.items.length === 0) {
-      throw new Error('Cart is empty.')
+      throw new SveaValidationError('Cart is empty.')
     }
 
     if (!customerEmail) {
-      throw new Error('Customer email is required.')
+      throw new SveaValidationError('Customer email is required.')
     }
 
     const billingAddress = data.billingAddress as PayloadAddress | undefined
     const shippingAddress = data.shippingAddress || billingAddress
 
     if (!billingAddress) {
-      throw new Error('Billing address is required.')
+      throw new SveaValidationError('Billing address is required.')
     }
 
-    // Map cart items to Svea format
-    const orderRows: SveaOrderRow[] = (cart.items || [])
-      .map((item: unknown, index: number) =>
-        mapCartItemToSveaOrderRow(
-          item as {
-            product?: number | { id?: number; title?: string; priceInNOK?: number } | null
-            variant?: number | { id?: number; priceInNOK?: number } | null
-            quantity: number
-            id?: string | null
-          },
-          index,
-        ),
-      )
-      .filter((row): row is SveaOrderRow => row !== null)
-
-    if (orderRows.length === 0) {
-      throw new Error('No valid order items found.')
-    }
+    const orderRows = buildSveaOrderRows(
+      cart as unknown as Record<string, unknown>,
+      currency,
+      orderRowOptions,
+    )
 
-    // Validate order rows
-    for (const row of orderRows) {
-      if (!row.name || row.quantity <= 0 || row.unitPrice <= 0) {
-        throw new Error(
-          `Invalid order row: name, quantity, and unitPrice are required. Got: ${JSON.stringify(row)}`,
-        )
-      }
-    }
+    // Transaction amount matches what Svea will charge (major units)
+    const orderTotal = calculateSveaOrderTotal(orderRows) / 100
 
     const countryCode = normalizeCountryCode(billingAddress.country)
     const locale = getLocaleFromCountryCode(countryCode)
     const clientOrderNumber = generateClientOrderNumber(cart.id)
+    const merchantProfile = merchantClients.select({ countryCode, currency })
 
     const normalizedCartItems = normalizeCartItems(cart)
+    const reservationItems = toSveaReservationItems(normalizedCartItems)
+
+    // Fail before creating a Svea order that could not be fulfilled
+    if (reservations) {
+      const shortages = await reservations.findShortages(
+        payload,
+        reservationItems,
+      )
+      if (shortages.length > 0) {
+        throw new SveaOutOfStockError(
+          `Not enough inventory for ${describeSveaShortages(shortages)}.`,
+          { shortages },
+        )
+      }
+    }
+
+    const presetContext: SveaPresetContext = {
+      req,
+      customer: req.user
+        ? (req.user as unknown as Record<string, unknown>)
+        : undefined,
+      customerEmail,
+      billingAddress,
+      shippingAddress: shippingAddress as PayloadAddress | undefined,
+    }
+
+    // Company presets take precedence over the generic ones
+    const checkoutPresetValues = mergeSveaPresetValues(
+      await buildSveaPresetValues(presetContext, presetValues),
+      business
+        ? await buildSveaCompanyPresetValues({
+            req,
+            billingAddress,
+            options: business === true ? {} : business,
+          })
+        : [],
+    )
+    const checkoutIdentityFlags = await resolveSveaIdentityFlags(
+      presetContext,
+      identityFlags,
+    )
 
     // Determine base URL
     const requestOrigin = getOriginFromRequest(req)
@@ -232,85 +287,35 @@ export function sveaAdapter(
         termsUri: `${normalizedBaseUrl}/terms`,
         checkoutUri: `${normalizedBaseUrl}/checkout`,
         confirmationUri,
-        pushUri: `${normalizedBaseUrl}/api/payments/svea/webhook`,
+        pushUri: buildSveaPushUri(normalizedBaseUrl, pushSecret),
         checkoutValidationCallBackUri: `${normalizedBaseUrl}/api/payments/svea/validation-callback/{checkout.order.uri}`,
       },
-      presetValues: [
-        {
-          typeName: 'EmailAddress',
-          value: customerEmail,
-          isReadonly: false,
-        },
-      ],
+      presetValues: checkoutPresetValues,
+      ...(checkoutIdentityFlags
+        ? { identityFlags: checkoutIdentityFlags }
+        : {}),
+      merchantData: JSON.stringify({ cartId: cart.id }),
+      ...(shippingOptions
+        ? {
+            shippingInformation: buildSveaShippingInformation(
+              shippingOptions,
+              {
+                cart: cart as unknown as Record<string, unknown>,
+                currency: currency.toUpperCase(),
+                productRows: orderRows,
+              },
+            ),
+          }
+        : {}),
+      ...(recurring ? { recurring: true } : {}),
     }
 
     try {
-      const requestBody = JSON.stringify(sveaOrderRequest)
-      const { token, timestamp } = createSveaAuthHeaders(
-        merchantId,
-        secretKey,
-        requestBody,
-      )
-
-      const response = await fetch(`${checkoutApiUrl}/api/orders`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Svea ${token}`,
-          Timestamp: timestamp,
-        },
-        body: requestBody,
-      })
-
-      if (!response.ok) {
-        let errorText = ''
-        let errorJson: Record<string, unknown> | null = null
-
-        try {
-          errorText = await response.text()
-          if (errorText) {
-            try {
-              errorJson = JSON.parse(errorText)
-            } catch {
-              // Not JSON
-            }
-          }
-        } catch {
-          // Ignore read errors
-        }
-
-        payload.logger.error(
-          {
-            status: response.status,
-            statusText: response.statusText,
-            error: errorText,
-            errorJson,
-            requestBody: sveaOrderRequest,
-          },
-          'Error creating Svea order',
-        )
-
-        const errorMessageFromHeader = response.headers.get('errormessage')
-        const errorMessage =
-          errorMessageFromHeader ||
-          (errorJson?.message as string) ||
-          (errorJson?.error as string) ||
-          (errorJson?.Message as string) ||
-          errorText ||
-          response.statusText ||
-          'Unknown error'
-
-        throw new Error(
-          `Failed to create Svea order: ${response.status} - ${errorMessage}`,
-        )
-      }
-
-      const sveaOrder: CreateSveaOrderResponse & {
-        ResultCode?: number
-        resultCode?: number
-        ErrorMessage?: string
-        errorMessage?: string
-      } = await response.json()
+      const sveaOrder = await withSveaEventLog(
+        merchantClients.checkoutClient(merchantProfile),
+        eventLog,
+        payload,
+      ).createOrder(sveaOrderRequest)
 
       payload.logger.info(
         {
@@ -322,36 +327,8 @@ export function sveaAdapter(
         'Svea order created',
       )
 
-      // Check for error result codes
-      const resultCode =
-        typeof sveaOrder.ResultCode === 'number'
-          ? sveaOrder.ResultCode
-          : typeof sveaOrder.resultCode === 'number'
-            ? sveaOrder.resultCode
-            : undefined
-
-      const errorMessageFromBody =
-        typeof sveaOrder.ErrorMessage === 'string'
-          ? sveaOrder.ErrorMessage
-          : typeof sveaOrder.errorMessage === 'string'
-            ? sveaOrder.errorMessage
-            : undefined
-
-      if (
-        typeof resultCode === 'number' &&
-        resultCode !== 0 &&
-        resultCode !== 200 &&
-        resultCode !== 201
-      ) {
-        payload.logger.error(
-          { resultCode, errorMessage: errorMessageFromBody, sveaOrder },
-          'Svea order creation returned error',
-        )
-
-        throw new Error(
-          `Failed to create Svea order: ${resultCode} - ${errorMessageFromBody || 'Validation failed'}`,
-        )
-      }
+      // Lets the browser that started the checkout update it later
+      const checkoutToken = createSveaCheckoutToken()
 
       // Create transaction in Payload
       const transaction = await payload.create({
@@ -359,7 +336,7 @@ export function sveaAdapter(
         data: {
           paymentMethod: 'svea',
           status: 'pending',
-          amount: cart.subtotal || 0,
+          amount: orderTotal,
           currency: currency.toUpperCase(),
           cart: cart.id,
           items: normalizedCartItems,
@@ -370,24 +347,49 @@ export function sveaAdapter(
             orderId: sveaOrder.OrderId,
             clientOrderNumber: sveaOrder.ClientOrderNumber,
             paymentType: sveaOrder.PaymentType || sveaOrder.Payment?.paymentType,
+            ...(recurring ? { recurring: true } : {}),
+            ...(merchants?.length ? { merchantProfile } : {}),
+            checkoutTokenHash: checkoutToken.hash,
           },
         } as Record<string, unknown>,
       })
 
+      if (reservations) {
+        try {
+          await reservations.reserve(payload, {
+            transactionId: transaction.id,
+            sveaOrderId: sveaOrder.OrderId,
+            items: reservationItems,
+          })
+        } catch (reservationError) {
+          // Another checkout took the stock since the check above
+          await payload.update({
+            id: transaction.id,
+            collection: transactionsSlug as 'transactions',
+            data: { status: 'failed' } as Record<string, unknown>,
+          })
+          throw reservationError
+        }
+      }
+
       return {
         message: 'Svea order created successfully',
         orderId: sveaOrder.OrderId,
         clientOrderNumber: sveaOrder.ClientOrderNumber,
         checkoutSnippet: sveaOrder.Gui?.Snippet,
         transactionId: transaction.id,
+        checkoutToken: checkoutToken.token,
       }
     } catch (error) {
       payload.logger.error(error, 'Error initiating payment with Svea')
-      throw new Error(
-        error instanceof Error
-          ? error.message
-          : 'Unknown error initiating payment with Svea',
-      )
+      throw error instanceof SveaError
+        ? error
+        : new SveaError(
+            error instanceof Error
+              ? error.message
+              : 'Unknown error initiating payment with Svea',
+            { cause: error },
+          )
     }
   }
 
@@ -397,6 +399,7 @@ export function sveaAdapter(
     req,
     transactionsSlug = collections.transactions || 'transactions',
     cartsSlug = collections.carts || 'carts',
+    customersSlug = collections.customers || 'users',
   }) => {
     const payload = req.payload
 
@@ -470,7 +473,7 @@ export function sveaAdapter(
           { sveaOrderId, transactionId, clientOrderNumber },
           'Transaction not found',
         )
-        throw new Error('Transaction not found.')
+        throw new SveaTransactionNotFoundError()
       }
 
       // Get Svea order ID from transaction if not provided
@@ -484,7 +487,7 @@ export function sveaAdapter(
       }
 
       if (!sveaOrderId) {
-        throw new Error('Svea order ID is required.')
+        throw new SveaValidationError('Svea order ID is required.')
       }
 
       // Check if already processed
@@ -499,6 +502,14 @@ export function sveaAdapter(
           'Order already confirmed',
         )
 
+        await eventLog?.record(payload, {
+          type: 'confirm',
+          sveaOrderId: Number(sveaOrderId),
+          transaction: transaction.id,
+          outcome: 'already-confirmed',
+          request: data,
+        })
+
         return {
           message: 'Order already confirmed',
           orderID: existingOrderId,
@@ -507,36 +518,13 @@ export function sveaAdapter(
       }
 
       // Fetch order from Svea to verify status
-      const requestBody = ''
-      const { token, timestamp } = createSveaAuthHeaders(
-        merchantId,
-        secretKey,
-        requestBody,
-      )
-
-      const response = await fetch(
-        `${checkoutApiUrl}/api/orders/${sveaOrderId}`,
-        {
-          method: 'GET',
-          headers: {
-            Authorization: `Svea ${token}`,
-            Timestamp: timestamp,
-          },
-        },
-      )
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        payload.logger.error(
-          { status: response.status, error: errorText },
-          'Error fetching Svea order',
-        )
-        throw new Error(
-          `Failed to fetch Svea order: ${response.status} ${errorText}`,
-        )
-      }
-
-      const sveaOrder: GetSveaOrderResponse = await response.json()
+      const sveaOrder = await withSveaEventLog(
+        merchantClients.checkoutClient(
+          getSveaMerchantProfileName(transaction as Record<string, unknown>),
+        ),
+        eventLog,
+        payload,
+      ).getOrder(sveaOrderId)
 
       payload.logger.info(
         {
@@ -548,233 +536,257 @@ export function sveaAdapter(
       )
 
       if (sveaOrder.Status !== 'Final') {
-        throw new Error(
-          `Svea order is not finalized. Current status: ${sveaOrder.Status}`,
-        )
+        throw new SveaOrderNotFinalError(sveaOrder.Status)
       }
 
-      // Get cart
-      const cartId = transaction.cart
-      const cart =
-        cartId && typeof cartId === 'object'
-          ? cartId
-          : cartId
-            ? await payload.findByID({
-                collection: cartsSlug as 'carts',
-                id: cartId as number,
-              })
-            : null
-
-      if (!cart) {
-        throw new Error('Cart not found.')
-      }
+      // Compare what Svea charged with what Payload recorded
+      const reconciliation = reconcileSveaOrderAmount(
+        sveaOrder,
+        transaction,
+        amountTolerance,
+      )
+      const amountMismatch = reconciliation.matches
+        ? undefined
+        : createSveaAmountMismatch(reconciliation, onMismatch)
 
-      // Normalize order items
-      let normalizedOrderItems = normalizeCartItems(cart)
-      if (
-        (!normalizedOrderItems || normalizedOrderItems.length === 0) &&
-        transaction.items &&
-        Array.isArray(transaction.items) &&
-        transaction.items.length > 0
-      ) {
-        normalizedOrderItems = normalizeCartItems({
-          items: transaction.items as {
-            product?: number | { id?: number } | null
-            variant?: number | { id?: number } | null
-            quantity: number
-          }[],
-        })
-      }
+      if (amountMismatch) {
+        payload.logger.warn(
+          { transactionId: transaction.id, sveaOrderId, ...amountMismatch },
+          'Svea order amount does not match transaction',
+        )
 
-      // Resolve addresses
-      let shippingAddressPayload: PayloadAddress | undefined
-      let billingAddressPayload: PayloadAddress | undefined
-
-      if (transaction.billingAddress) {
-        const txAddr = transaction.billingAddress as PayloadAddress
-        shippingAddressPayload = { ...txAddr }
-        billingAddressPayload = shippingAddressPayload
-      } else {
-        shippingAddressPayload =
-          mapSveaAddressToPayload(
-            sveaOrder.ShippingAddress || sveaOrder.BillingAddress,
-          ) || undefined
-        billingAddressPayload =
-          mapSveaAddressToPayload(
-            sveaOrder.BillingAddress || sveaOrder.ShippingAddress,
-          ) || undefined
+        if (onMismatch === 'reject') {
+          await recordSveaAmountMismatch(
+            payload,
+            transaction,
+            transactionsSlug,
+            amountMismatch,
+          )
+          throw new SveaAmountMismatchError()
+        }
       }
 
-      // Resolve customer
-      const cartCustomerId =
-        cart.customer && typeof cart.customer === 'object'
-          ? (cart.customer as { id: number }).id
-          : cart.customer
-      const transactionCustomerId =
-        transaction.customer && typeof transaction.customer === 'object'
-          ? (transaction.customer as { id: number }).id
-          : transaction.customer
-      const resolvedCustomerId =
-        cartCustomerId || transactionCustomerId || req.user?.id || undefined
-
-      const resolvedCustomerEmail =
-        (transaction.customerEmail as string) ||
-        (data.customerEmail as string) ||
-        sveaOrder.Customer?.emailAddress ||
-        sveaOrder.EmailAddress ||
-        (typeof req.user?.email === 'string' ? req.user.email : undefined)
-
-      // Check for existing order
-      let existingOrderId: number | undefined
-
-      if (transaction.order) {
-        existingOrderId =
-          typeof transaction.order === 'object'
-            ? (transaction.order as { id: number }).id
-            : (transaction.order as number)
-      } else {
-        const existingOrderLookup = await payload.find({
-          collection: ordersSlug as 'orders',
-          where: {
-            transactions: {
-              contains: transaction.id,
-            },
-          },
-          limit: 1,
-        })
-        existingOrderId = existingOrderLookup.docs?.[0]?.id as
-          | number
-          | undefined
-      }
+      const { orderID } = await finalizeSveaOrder({
+        payload,
+        user: req.user,
+        transactionId: transaction.id,
+        sveaOrder,
+        amountMismatch,
+        customerEmail: data.customerEmail as string | undefined,
+        ordersSlug,
+        transactionsSlug,
+        cartsSlug,
+        customersSlug,
+        reservations,
+      })
 
-      // Build order payload
-      const orderPayload: Record<string, unknown> = {
-        amount: (transaction.amount as number) || (cart.subtotal as number) || 0,
-        currency: (transaction.currency || cart.currency || 'NOK') as string,
-        items: normalizedOrderItems,
-        status: 'processing',
-        transactions: [transaction.id],
-      }
+      payload.logger.info(
+        { orderId: orderID, transactionId: transaction.id, sveaOrderId },
+        'Order confirmed successfully',
+      )
 
-      if (shippingAddressPayload) {
-        orderPayload.shippingAddress = shippingAddressPayload
-      }
+      await eventLog?.record(payload, {
+        type: 'confirm',
+        sveaOrderId: Number(sveaOrderId),
+        transaction: transaction.id,
+        status: sveaOrder.Status,
+        outcome: 'confirmed',
+        request: data,
+        response: { orderID, transactionID: transaction.id },
+      })
 
-      if (resolvedCustomerId) {
-        orderPayload.customer = resolvedCustomerId
+      return {
+        message: 'Order confirmed successfully',
+        orderID,
+        transactionID: transaction.id,
       }
+    } catch (error) {
+      payload.logger.error(error, 'Error confirming order with Svea')
 
-      if (resolvedCustomerEmail) {
-        orderPayload.customerEmail = resolvedCustomerEmail
-      }
+      await eventLog?.record(payload, {
+        type: 'confirm',
+        ...(sveaOrderId ? { sveaOrderId: Number(sveaOrderId) } : {}),
+        outcome: 'failed',
+        request: data,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      throw error instanceof SveaError
+        ? error
+        : new SveaError(
+            error instanceof Error
+              ? error.message
+              : 'Unknown error confirming order with Svea',
+            { cause: error },
+          )
+    }
+  }
 
-      // Create or update order
-      let order
+  const updateCheckout: SveaPaymentAdapter['updateCheckout'] = async ({
+    req,
+    transactionId,
+    sveaOrderId,
+    checkoutToken,
+    transactionsSlug = collections.transactions || 'transactions',
+    cartsSlug = collections.carts || 'carts',
+  }) => {
+    const payload = req.payload
 
-      if (existingOrderId) {
-        const existingOrder = await payload.findByID({
-          collection: ordersSlug as 'orders',
-          id: existingOrderId,
+    let transaction
+
+    if (transactionId) {
+      transaction = await payload
+        .findByID({
+          collection: transactionsSlug as 'transactions',
+          id: transactionId,
+          depth: 0,
+          showHiddenFields: true,
         })
+        .catch(() => undefined)
+    } else if (sveaOrderId) {
+      const results = await payload.find({
+        collection: transactionsSlug as 'transactions',
+        where: {
+          'svea.orderId': {
+            equals: Number(sveaOrderId),
+          },
+        },
+        limit: 1,
+        depth: 0,
+        showHiddenFields: true,
+      })
+      transaction = results.docs[0]
+    }
 
-        const existingTransactionIds = Array.isArray(existingOrder.transactions)
-          ? (existingOrder.transactions as (number | { id: number })[])
-              .map((tx) => (typeof tx === 'object' ? tx.id : tx))
-              .filter(Boolean)
-          : []
+    // Only the customer who started the checkout may change it. Others
+    // get the same answer as for a missing transaction.
+    const customerId = (transaction as { customer?: unknown } | undefined)
+      ?.customer
+    const isOwner =
+      Boolean(req.user) &&
+      customerId !== undefined &&
+      customerId !== null &&
+      String(req.user?.id) === String(customerId)
+    const tokenHash = (
+      transaction?.svea as { checkoutTokenHash?: unknown } | undefined
+    )?.checkoutTokenHash
+
+    if (
+      !transaction ||
+      (!isOwner && !verifySveaCheckoutToken(checkoutToken, tokenHash))
+    ) {
+      throw new SveaTransactionNotFoundError()
+    }
 
-        const mergedTransactionIds = Array.from(
-          new Set([...existingTransactionIds, transaction.id]),
-        )
+    if (transaction.status !== 'pending') {
+      throw new SveaOrderStateError(
+        `Transaction is not pending. Current status: ${transaction.status}`,
+      )
+    }
 
-        order = await payload.update({
-          id: existingOrderId,
-          collection: ordersSlug as 'orders',
-          data: {
-            ...orderPayload,
-            transactions: mergedTransactionIds,
-          },
-        })
+    const existingSveaData =
+      transaction.svea && typeof transaction.svea === 'object'
+        ? (transaction.svea as Record<string, unknown>)
+        : {}
+    const orderId = existingSveaData.orderId as number | undefined
 
-        payload.logger.info(
-          { orderId: order.id, transactionId: transaction.id },
-          'Updated existing order',
-        )
-      } else {
-        order = await payload.create({
-          collection: ordersSlug as 'orders',
-          data: orderPayload,
-        })
+    if (!orderId) {
+      throw new SveaValidationError('Svea order ID is required.')
+    }
 
-        payload.logger.info(
-          { orderId: order.id, transactionId: transaction.id },
-          'Created new order',
-        )
-      }
+    // Reload the cart with products and variants populated
+    const cartId =
+      transaction.cart && typeof transaction.cart === 'object'
+        ? (transaction.cart as { id: number | string }).id
+        : (transaction.cart as number | string | undefined)
 
-      // Mark cart as purchased
-      const purchasedAtTimestamp = new Date().toISOString()
-
-      try {
-        await payload.update({
-          id: cart.id as number,
-          collection: cartsSlug as 'carts',
-          data: {
-            purchasedAt: (cart.purchasedAt as string) || purchasedAtTimestamp,
-            status: 'purchased',
-            items: [],
-          },
-        })
-        payload.logger.info({ cartId: cart.id }, 'Cart marked as purchased')
-      } catch (cartError) {
-        payload.logger.warn(
-          { cartId: cart.id, error: cartError },
-          'Could not update cart status',
-        )
-      }
+    if (!cartId) {
+      throw new SveaCartNotFoundError()
+    }
 
-      // Update transaction
-      const existingSveaData =
-        (transaction.svea && typeof transaction.svea === 'object'
-          ? (transaction.svea as Record<string, unknown>)
-          : {}) || {}
+    const cart = await payload.findByID({
+      collection: cartsSlug as 'carts',
+      id: cartId,
+      depth: 2,
+    })
 
-      await payload.update({
-        id: transaction.id,
-        collection: transactionsSlug as 'transactions',
-        data: {
-          order: order.id,
-          status: 'succeeded',
-          ...(billingAddressPayload ? { billingAddress: billingAddressPayload } : {}),
-          ...(resolvedCustomerEmail ? { customerEmail: resolvedCustomerEmail } : {}),
-          svea: {
-            ...existingSveaData,
-            orderId: Number(sveaOrderId),
-            clientOrderNumber:
-              existingSveaData.clientOrderNumber || sveaOrder.ClientOrderNumber,
-            paymentType: sveaOrder.PaymentType || sveaOrder.Payment?.paymentType,
-          },
-        },
-      })
+    if (!cart.items || (cart.items as unknown[]).length === 0) {
+      throw new SveaValidationError('Cart is empty.')
+    }
 
-      payload.logger.info(
-        { orderId: order.id, transactionId: transaction.id, sveaOrderId },
-        'Order confirmed successfully',
-      )
+    const client = withSveaEventLog(
+      merchantClients.checkoutClient(
+        getSveaMerchantProfileName(transaction as Record<string, unknown>),
+      ),
+      eventLog,
+      payload,
+    )
+    const sveaOrder = await client.getOrder(orderId)
 
-      return {
-        message: 'Order confirmed successfully',
-        orderID: order.id,
-        transactionID: transaction.id,
-      }
-    } catch (error) {
-      payload.logger.error(error, 'Error confirming order with Svea')
-      throw new Error(
-        error instanceof Error
-          ? error.message
-          : 'Unknown error confirming order with Svea',
+    if (sveaOrder.Status !== 'Created') {
+      throw new SveaOrderStateError(
+        `Svea order can no longer be updated. Current status: ${sveaOrder.Status}`,
       )
     }
+
+    const currency = (transaction.currency ||
+      cart.currency ||
+      sveaOrder.Currency) as string
+
+    const orderRows = buildSveaOrderRows(
+      cart as Record<string, unknown>,
+      currency,
+      orderRowOptions,
+    )
+    const orderTotal = calculateSveaOrderTotal(orderRows) / 100
+    const normalizedCartItems = normalizeCartItems(
+      cart as { items?: unknown[] | null },
+    )
+
+    // Move the reservation to the new cart contents before Svea sees them
+    await reservations?.reserve(payload, {
+      transactionId: transaction.id,
+      sveaOrderId: orderId,
+      items: toSveaReservationItems(normalizedCartItems),
+    })
+
+    const updatedOrder = await client.updateOrder(orderId, {
+      cart: { items: orderRows },
+      merchantData: JSON.stringify({ cartId: cart.id }),
+      ...(shippingOptions
+        ? {
+            shippingInformation: buildSveaShippingInformation(
+              shippingOptions,
+              {
+                cart: cart as Record<string, unknown>,
+                currency: currency.toUpperCase(),
+                productRows: orderRows,
+              },
+            ),
+          }
+        : {}),
+    })
+
+    await payload.update({
+      id: transaction.id,
+      collection: transactionsSlug as 'transactions',
+      data: {
+        amount: orderTotal,
+        items: normalizedCartItems,
+      } as Record<string, unknown>,
+    })
+
+    payload.logger.info(
+      { orderId, transactionId: transaction.id, amount: orderTotal },
+      'Svea order updated',
+    )
+
+    return {
+      message: 'Svea order updated successfully',
+      orderId,
+      transactionId: transaction.id,
+      amount: orderTotal,
+      checkoutSnippet: updatedOrder.Gui?.Snippet,
+    }
   }
 
   // Define the transaction group field for Svea-specific data
@@ -800,18 +812,476 @@ export function sveaAdapter(
         type: 'text',
         label: 'Svea Payment Type',
       },
+      sveaShippingField({ name: 'shipping' }),
+      {
+        name: 'checkoutTokenHash',
+        type: 'text',
+        hidden: true,
+      },
+      {
+        name: 'merchantProfile',
+        type: 'text',
+        label: 'Merchant Profile',
+        admin: {
+          condition: (_, siblingData) => Boolean(siblingData?.merchantProfile),
+          readOnly: true,
+        },
+      },
+      {
+        name: 'recurring',
+        type: 'checkbox',
+        label: 'Recurring',
+        admin: {
+          readOnly: true,
+        },
+      },
+      {
+        name: 'company',
+        type: 'group',
+        label: 'Company',
+        admin: {
+          condition: (_, siblingData) =>
+            Boolean(
+              siblingData?.company?.name ||
+                siblingData?.company?.customerReference ||
+                siblingData?.company?.peppolId ||
+                siblingData?.company?.billingReferences?.length,
+            ),
+        },
+        fields: [
+          {
+            type: 'row',
+            fields: [
+              {
+                name: 'name',
+                type: 'text',
+                label: 'Company Name',
+                admin: {
+                  readOnly: true,
+                },
+              },
+              {
+                name: 'organizationNumber',
+                type: 'text',
+                label: 'Organization Number',
+                admin: {
+                  readOnly: true,
+                },
+              },
+            ],
+          },
+          {
+            type: 'row',
+            fields: [
+              {
+                name: 'customerReference',
+                type: 'text',
+                label: 'Customer Reference',
+                admin: {
+                  readOnly: true,
+                },
+              },
+              {
+                name: 'peppolId',
+                type: 'text',
+                label: 'Peppol ID',
+                admin: {
+                  readOnly: true,
+                },
+              },
+            ],
+          },
+          {
+            name: 'billingReferences',
+            type: 'array',
+            label: 'Billing References',
+            admin: {
+              readOnly: true,
+            },
+            fields: [
+              {
+                name: 'reference',
+                type: 'text',
+              },
+            ],
+          },
+        ],
+      },
+      {
+        // Set by the call currently finalizing the order
+        name: 'finalizeClaim',
+        type: 'text',
+        hidden: true,
+      },
+      {
+        name: 'finalizedAt',
+        type: 'date',
+        label: 'Finalized At',
+        admin: {
+          readOnly: true,
+          date: {
+            pickerAppearance: 'dayAndTime',
+          },
+        },
+      },
+      {
+        name: 'adminStatus',
+        type: 'select',
+        label: 'Svea Admin Status',
+        options: [
+          { label: 'Open', value: 'open' },
+          { label: 'Partially Delivered', value: 'partiallyDelivered' },
+          { label: 'Delivered', value: 'delivered' },
+          { label: 'Partially Credited', value: 'partiallyCredited' },
+          { label: 'Credited', value: 'credited' },
+          { label: 'Partially Cancelled', value: 'partiallyCancelled' },
+          { label: 'Cancelled', value: 'cancelled' },
+        ],
+        admin: {
+          readOnly: true,
+        },
+      },
+      {
+        name: 'deliveryId',
+        type: 'number',
+        label: 'Svea Delivery ID',
+        admin: {
+          readOnly: true,
+        },
+      },
+      {
+        name: 'deliveredAmount',
+        type: 'number',
+        label: 'Delivered Amount (minor units)',
+        admin: {
+          readOnly: true,
+        },
+      },
+      {
+        name: 'creditedAmount',
+        type: 'number',
+        label: 'Credited Amount (minor units)',
+        admin: {
+          readOnly: true,
+        },
+      },
+      {
+        name: 'cancelledAmount',
+        type: 'number',
+        label: 'Cancelled Amount (minor units)',
+        admin: {
+          readOnly: true,
+        },
+      },
+      {
+        name: 'amountMismatch',
+        type: 'group',
+        label: 'Amount Mismatch',
+        admin: {
+          condition: (_, siblingData) =>
+            Boolean(siblingData?.amountMismatch?.resolution),
+        },
+        fields: [
+          {
+            name: 'resolution',
+            type: 'select',
+            options: [
+              { label: 'Rejected', value: 'rejected' },
+              { label: 'Needs Review', value: 'review' },
+              { label: 'Accepted', value: 'accepted' },
+            ],
+            admin: {
+              readOnly: true,
+            },
+          },
+          {
+            name: 'sveaAmount',
+            type: 'number',
+            label: 'Svea Amount (minor units)',
+            admin: {
+              readOnly: true,
+            },
+          },
+          {
+            name: 'transactionAmount',
+            type: 'number',
+            label: 'Transaction Amount (minor units)',
+            admin: {
+              readOnly: true,
+            },
+          },
+          {
+            name: 'sveaCurrency',
+            type: 'text',
+            admin: {
+              readOnly: true,
+            },
+          },
+          {
+            name: 'transactionCurrency',
+            type: 'text',
+            admin: {
+              readOnly: true,
+            },
+          },
+          {
+            name: 'detectedAt',
+            type: 'date',
+            admin: {
+              readOnly: true,
+            },
+          },
+        ],
+      },
+      {
+        name: 'actions',
+        type: 'ui',
+        admin: {
+          components: {
+            Field: SVEA_ORDER_ACTIONS_COMPONENT,
+          },
+        },
+      },
     ],
   }
 
+  const adminActions = createSveaAdminActions({
+    adminClient,
+    transactionsSlug: collections.transactions || 'transactions',
+    eventLog,
+    merchants: merchantClients,
+  })
+  const { captureOrder, refundOrder, cancelOrder } = adminActions
+
+  const reconcileTransactions: SveaPaymentAdapter['reconcileTransactions'] = ({
+    payload,
+    ...reconciliationOptions
+  }) =>
+    reconcileSveaTransactions({
+      ...reconciliationOptions,
+      payload,
+      checkoutClient,
+      adminClient,
+      merchants: merchantClients,
+      onMismatch,
+      amountTolerance,
+      collections,
+      reservations,
+      eventLog,
+    })
+
+  const sweepPendingTransactions: SveaPaymentAdapter['sweepPendingTransactions'] =
+    ({ payload, ...sweepOptions }) =>
+      sweepSveaPendingTransactions({
+        ...sweepOptions,
+        payload,
+        checkoutClient,
+        merchants: merchantClients,
+        onMismatch,
+        amountTolerance,
+        collections,
+        reservations,
+        eventLog,
+      })
+
+  const chargeRecurringToken: SveaPaymentAdapter['chargeRecurringToken'] =
+    async ({ payload, merchantProfile, ...chargeArgs }) => {
+      // A stored token can only be charged through the profile that issued it
+      const storedProfile =
+        merchants?.length &&
+        !merchantProfile &&
+        !chargeArgs.token &&
+        chargeArgs.customer
+          ? await getSveaRecurringMerchantProfile(
+              payload,
+              chargeArgs.customer,
+              collections.customers || 'users',
+            )
+          : undefined
+      const profile =
+        merchantProfile ||
+        storedProfile ||
+        merchantClients.select({ currency: chargeArgs.currency })
+
+      return chargeSveaRecurringToken({
+        ...chargeArgs,
+        ...(merchants?.length ? { merchantProfile: profile } : {}),
+        payload,
+        checkoutClient: merchantClients.checkoutClient(profile),
+        orderRowOptions,
+        onMismatch,
+        amountTolerance,
+        collections,
+        reservations,
+        eventLog,
+      })
+    }
+
+  const endpoints = [
+    ...createSveaAdminEndpoints({
+      checkoutClient,
+      adminClient,
+      adminActions,
+      transactionsSlug: collections.transactions || 'transactions',
+      adminAccess,
+      eventLog,
+      merchants: merchantClients,
+    }),
+    ...(registerEndpoints
+      ? createSveaEndpoints({
+          merchantId,
+          secretKey,
+          checkoutApiUrl,
+          merchants,
+          http,
+          pushSecret,
+          pushAllowedIps,
+          pushTrustedProxies,
+          onMismatch,
+          amountTolerance,
+          eventLog: eventLogEnabled,
+          validation,
+          reservations: reservationsConfig,
+          orderRowOptions,
+          collections,
+          confirmOrder,
+          updateCheckout,
+        })
+      : []),
+  ]
+
   return {
     name: 'svea',
     label,
     initiatePayment,
     confirmOrder,
+    endpoints,
     group,
+    captureOrder,
+    refundOrder,
+    cancelOrder,
+    updateCheckout,
+    sweepPendingTransactions,
+    reconcileTransactions,
+    chargeRecurringToken,
   }
 }
 
+export { isSveaAdmin } from './access'
 export { createSveaAuthHeaders } from './auth'
+export { SVEA_API_URLS, SveaCheckoutClient } from './checkout-client'
+export { SVEA_ADMIN_API_URLS, SveaPaymentAdminClient } from './admin-client'
+export { createSveaCircuitBreaker } from './circuit-breaker'
+export { SVEA_DEFAULT_TIMEOUT_MS } from './request'
+export {
+  getSveaErrorResponse,
+  SveaAmountMismatchError,
+  SveaApiError,
+  SveaCartNotFoundError,
+  SveaError,
+  SveaOrderNotFinalError,
+  SveaOrderStateError,
+  SveaOutOfStockError,
+  SveaTransactionNotFoundError,
+  SveaUnavailableError,
+  SveaValidationError,
+} from './errors'
+export {
+  sveaOrderActionsField,
+  sveaRecurringMerchantProfileField,
+  sveaRecurringTokenField,
+  sveaShippingField,
+  SVEA_ORDER_ACTIONS_COMPONENT,
+} from './fields'
+export { chargeSveaRecurringToken } from './recurring'
+export {
+  buildSveaShippingInformation,
+  getSveaShippingDetails,
+  hasSveaShippingRecorded,
+  isSveaShippingRow,
+} from './shipping'
+export {
+  buildSveaPresetValues,
+  mergeSveaPresetValues,
+  resolveSveaIdentityFlags,
+  SVEA_PRESET_TYPE_NAMES,
+} from './preset-values'
+export {
+  buildSveaCompanyPresetValues,
+  getSveaCompanyDetails,
+} from './company'
+export {
+  getSveaRecurringMerchantProfile,
+  getSveaRecurringToken,
+  storeSveaRecurringToken,
+  SVEA_RECURRING_MERCHANT_PROFILE_FIELD,
+  SVEA_RECURRING_TOKEN_FIELD,
+} from './recurring-token'
+export {
+  createSveaMerchantClients,
+  getSveaMerchantProfileName,
+  selectSveaMerchantProfile,
+  SVEA_DEFAULT_MERCHANT_PROFILE,
+} from './merchant-profiles'
+export { reconcileSveaOrderAmount } from './reconciliation'
+export {
+  applySveaCartAdjustments,
+  buildSveaOrderRows,
+  calculateSveaOrderTotal,
+  calculateSveaRowAmount,
+  createTaxClassVatResolver,
+  getSveaOrderRows,
+  mapCartItemToSveaOrderRow,
+  resolveCartShippingMethod,
+  resolveCurrencyPrice,
+} from './order-rows'
+export { finalizeSveaOrder } from './finalize-order'
+export {
+  compareSveaOrderRows,
+  getSveaInventory,
+  rejectSveaValidation,
+  SVEA_VALIDATION_MESSAGES,
+  validateSveaCartRows,
+  validateSveaCheckout,
+  validateSveaStock,
+} from './validation'
+export {
+  createSveaEventLog,
+  redactSveaEventData,
+  SVEA_EVENTS_SLUG,
+  withSveaEventLog,
+} from './event-log'
+export { sveaEventLogPlugin, sveaEventsCollection } from './events-collection'
+export {
+  createSveaInventoryReservations,
+  describeSveaShortages,
+  SVEA_RESERVATIONS_SLUG,
+  toSveaReservationItems,
+} from './reservations'
+export {
+  createSveaSweepTask,
+  SVEA_SWEEP_TASK_SLUG,
+  sweepSveaPendingTransactions,
+} from './sweeper'
+export {
+  createSveaReconciliationTask,
+  reconcileSveaTransactions,
+  SVEA_RECONCILIATION_REPORTS_SLUG,
+  SVEA_RECONCILIATION_TASK_SLUG,
+} from './reconciliation-job'
+export {
+  sveaReconciliationPlugin,
+  sveaReconciliationReportsCollection,
+} from './reconciliation-reports-collection'
+export {
+  sveaReservationsCollection,
+  sveaReservationsPlugin,
+} from './reservations-collection'
+export {
+  buildSveaPushUri,
+  getSveaPushClientIp,
+  SVEA_PUSH_SECRET_PARAM,
+  verifySveaPushRequest,
+} from './push-verification'
 export * from './types'
 
@@ -0,0 +1,146 @@
+import { SVEA_ADMIN_API_URLS, SveaPaymentAdminClient } from './admin-client'
+import { SVEA_API_URLS, SveaCheckoutClient } from './checkout-client'
+import { createSveaCircuitBreaker } from './circuit-breaker'
+import type {
+  SveaHttpOptions,
+  SveaMerchantClients,
+  SveaMerchantProfile,
+} from './types'
+
+/** Profile name of the adapter's own `merchantId`/`secretKey` */
+export const SVEA_DEFAULT_MERCHANT_PROFILE = 'default'
+
+/**
+ * Reads the merchant profile a transaction was created with
+ */
+export function getSveaMerchantProfileName(
+  transaction?: Record<string, unknown> | null,
+): string | undefined {
+  const sveaData = transaction?.svea as
+    | { merchantProfile?: string | null }
+    | null
+    | undefined
+  return sveaData?.merchantProfile || undefined
+}
+
+/**
+ * Finds the first profile serving a country and currency. A market
+ * without a country, e.g. a recurring charge, is matched on currency only.
+ */
+export function selectSveaMerchantProfile(
+  profiles: SveaMerchantProfile[],
+  { countryCode, currency }: { countryCode?: string; currency?: string },
+): SveaMerchantProfile | undefined {
+  const serves = (values: string[] | undefined, value: string | undefined) =>
+    !values ||
+    !value ||
+    values.some((entry) => entry.toUpperCase() === value.toUpperCase())
+
+  return profiles.find(
+    (profile) =>
+      serves(profile.countries, countryCode) &&
+      serves(profile.currencies, currency),
+  )
+}
+
+/**
+ * Creates the signed clients for the default credentials and every
+ * merchant profile. Clients are created once per profile and share one
+ * circuit breaker per API.
+ *
+ * Transactions store the profile name, so a profile must keep its name
+ * for as long as its orders are confirmed, captured or refunded.
+ */
+export function createSveaMerchantClients({
+  merchantId,
+  secretKey,
+  checkoutApiUrl = SVEA_API_URLS.staging,
+  paymentAdminApiUrl = SVEA_ADMIN_API_URLS.staging,
+  merchants = [],
+  http = {},
+}: {
+  merchantId: string
+  secretKey: string
+  checkoutApiUrl?: string
+  paymentAdminApiUrl?: string
+  merchants?: SveaMerchantProfile[]
+  http?: SveaHttpOptions
+}): SveaMerchantClients {
+  const profiles = new Map<string, SveaMerchantProfile>([
+    [
+      SVEA_DEFAULT_MERCHANT_PROFILE,
+      { name: SVEA_DEFAULT_MERCHANT_PROFILE, merchantId, secretKey },
+    ],
+  ])
+
+  for (const profile of merchants) {
+    if (profile.name === SVEA_DEFAULT_MERCHANT_PROFILE) {
+      throw new Error(
+        `Svea merchant profile name "${SVEA_DEFAULT_MERCHANT_PROFILE}" is reserved.`,
+      )
+    }
+    if (profiles.has(profile.name)) {
+      throw new Error(`Duplicate Svea merchant profile "${profile.name}".`)
+    }
+    profiles.set(profile.name, profile)
+  }
+
+  const getProfile = (name?: string | null): SveaMerchantProfile => {
+    const profile = profiles.get(name || SVEA_DEFAULT_MERCHANT_PROFILE)
+    if (!profile) {
+      throw new Error(`Unknown Svea merchant profile "${name}".`)
+    }
+    return profile
+  }
+
+  const { timeoutMs, retry, circuitBreaker } = http
+  const breakerOptions =
+    circuitBreaker === true ? {} : circuitBreaker || undefined
+  const checkoutBreaker = breakerOptions
+    ? createSveaCircuitBreaker(breakerOptions)
+    : undefined
+  const adminBreaker = breakerOptions
+    ? createSveaCircuitBreaker(breakerOptions)
+    : undefined
+
+  const checkoutClients = new Map<string, SveaCheckoutClient>()
+  const adminClients = new Map<string, SveaPaymentAdminClient>()
+
+  return {
+    select: (market) =>
+      selectSveaMerchantProfile(merchants, market)?.name ??
+      SVEA_DEFAULT_MERCHANT_PROFILE,
+    checkoutClient: (name) => {
+      const profile = getProfile(name)
+      let client = checkoutClients.get(profile.name)
+      if (!client) {
+        client = new SveaCheckoutClient({
+          merchantId: profile.merchantId,
+          secretKey: profile.secretKey,
+          checkoutApiUrl: profile.checkoutApiUrl || checkoutApiUrl,
+          timeoutMs,
+          retry,
+          circuitBreaker: checkoutBreaker,
+        })
+        checkoutClients.set(profile.name, client)
+      }
+      return client
+    },
+    adminClient: (name) => {
+      const profile = getProfile(name)
+      let client = adminClients.get(profile.name)
+      if (!client) {
+        client = new SveaPaymentAdminClient({
+          merchantId: profile.merchantId,
+          secretKey: profile.secretKey,
+          paymentAdminApiUrl: profile.paymentAdminApiUrl || paymentAdminApiUrl,
+          timeoutMs,
+          retry,
+          circuitBreaker: adminBreaker,
+        })
+        adminClients.set(profile.name, client)
+      }
+      return client
+    },
+  }
+}
@@ -0,0 +1,356 @@
+import type {
+  SveaCartAdjustmentContext,
+  SveaCartAdjustmentResolvers,
+  SveaCartItem,
+  SveaChargeRow,
+  SveaDiscountRow,
+  SveaOrder,
+  SveaOrderRow,
+  SveaOrderRowContext,
+  SveaOrderRowResolvers,
+} from './types'
+
+/**
+ * Options for mapping cart items to Svea order rows
+ */
+export interface SveaOrderRowOptions
+  extends SveaOrderRowResolvers,
+    SveaCartAdjustmentResolvers {
+  taxClassField?: string
+  taxClasses?: Record<string, number>
+  defaultVatPercent?: number
+  /** Shipping is chosen and charged in the Svea checkout; add no shipping row */
+  sveaShipping?: boolean
+}
+
+/**
+ * Reads the ecommerce plugin's per-currency price field
+ * (`priceIn<CURRENCY>`) from the variant, falling back to the product
+ */
+export function resolveCurrencyPrice({
+  product,
+  variant,
+  currency,
+}: SveaOrderRowContext): number | undefined {
+  const priceField = `priceIn${currency.toUpperCase()}`
+
+  for (const doc of [variant, product]) {
+    if (!doc) continue
+    // Skip prices explicitly disabled in the admin
+    if (doc[`${priceField}Enabled`] === false) continue
+
+    const price = doc[priceField]
+    if (typeof price === 'number') return price
+  }
+
+  return undefined
+}
+
+/**
+ * Creates a VAT resolver reading a tax class field from the variant or
+ * product and mapping it to a VAT percent
+ */
+export function createTaxClassVatResolver(
+  options: {
+    taxClassField?: string
+    taxClasses?: Record<string, number>
+    defaultVatPercent?: number
+  } = {},
+): (context: SveaOrderRowContext) => number {
+  const {
+    taxClassField = 'taxClass',
+    taxClasses = {},
+    defaultVatPercent = 25,
+  } = options
+
+  return ({ product, variant }) => {
+    for (const doc of [variant, product]) {
+      if (!doc) continue
+
+      const rawTaxClass = doc[taxClassField]
+      // Tax classes may be a relationship to a tax class document
+      const taxClass =
+        rawTaxClass && typeof rawTaxClass === 'object'
+          ? ((rawTaxClass as Record<string, unknown>).vatPercent ??
+            (rawTaxClass as Record<string, unknown>).value ??
+            (rawTaxClass as Record<string, unknown>).slug)
+          : rawTaxClass
+
+      if (typeof taxClass === 'number') return taxClass
+      if (typeof taxClass === 'string' && taxClass in taxClasses) {
+        return taxClasses[taxClass] as number
+      }
+    }
+
+    return defaultVatPercent
+  }
+}
+
+/**
+ * Maps a cart item to Svea order row format
+ */
+export function mapCartItemToSveaOrderRow(
+  item: SveaCartItem,
+  index: number,
+  currency: string,
+  options: SveaOrderRowOptions = {},
+): SveaOrderRow | null {
+  if (!item.product) return null
+
+  const product =
+    typeof item.product === 'object'
+      ? (item.product as Record<string, unknown>)
+      : null
+  const variant =
+    item.variant && typeof item.variant === 'object'
+      ? (item.variant as Record<string, unknown>)
+      : null
+
+  if (!product) return null
+
+  const context: SveaOrderRowContext = {
+    item,
+    product,
+    variant,
+    currency: currency.toUpperCase(),
+    index,
+  }
+
+  const resolveDefaultVatPercent = createTaxClassVatResolver(options)
+
+  const price =
+    options.resolvePrice?.(context) ?? resolveCurrencyPrice(context) ?? 0
+  const vatPercent =
+    options.resolveVatPercent?.(context) ?? resolveDefaultVatPercent(context)
+  const productTitle =
+    options.resolveRowName?.(context) ||
+    (typeof product.title === 'string' ? product.title : undefined) ||
+    `Product ${index + 1}`
+  const articleNumber =
+    options.resolveArticleNumber?.(context) ??
+    ((variant?.sku ?? product.sku) as string | undefined)
+  const quantity = item.quantity || 1
+
+  if (!price || price <= 0) {
+    throw new Error(
+      `Invalid ${context.currency} price for product ${productTitle}: ${price}`,
+    )
+  }
+
+  // Convert to minor units (øre/cents)
+  const unitPrice = Math.round(price * 100)
+
+  // Sanity check for price
+  if (unitPrice > 10000000000) {
+    throw new Error(
+      `Price too high for product ${productTitle}: ${price}. Check if price is already in minor units.`,
+    )
+  }
+
+  if (vatPercent < 0 || vatPercent > 100) {
+    throw new Error(
+      `Invalid VAT percent for product ${productTitle}: ${vatPercent}`,
+    )
+  }
+
+  // Quantity in minor units (100 = 1 unit)
+  const quantityInMinorUnits = Math.round(quantity * 100)
+
+  return {
+    name: productTitle,
+    quantity: quantityInMinorUnits,
+    unitPrice,
+    // VAT percent in minor units (2500 = 25%)
+    vatPercent: Math.round(vatPercent * 100),
+    ...(articleNumber ? { articleNumber: String(articleNumber) } : {}),
+  }
+}
+
+/**
+ * Reads the order rows of a Svea order
+ * Handles both camelCase and PascalCase field names from Svea API
+ */
+export function getSveaOrderRows(order: SveaOrder): SveaOrderRow[] {
+  const cart = (order.Cart || {}) as unknown as Record<string, unknown>
+  const items = (cart.items || cart.Items || []) as Record<string, unknown>[]
+
+  return items.map((item) => ({
+    name: (item.name ?? item.Name ?? '') as string,
+    quantity: Number(item.quantity ?? item.Quantity ?? 0),
+    unitPrice: Number(item.unitPrice ?? item.UnitPrice ?? 0),
+    vatPercent: Number(item.vatPercent ?? item.VatPercent ?? 0),
+    discountPercent: Number(item.discountPercent ?? item.DiscountPercent ?? 0),
+    discountAmount: Number(item.discountAmount ?? item.DiscountAmount ?? 0),
+    articleNumber: (item.articleNumber ?? item.ArticleNumber) as
+      | string
+      | undefined,
+    ...((item.rowType ?? item.RowType)
+      ? { rowType: String(item.rowType ?? item.RowType) }
+      : {}),
+  }))
+}
+
+/**
+ * Calculates the amount of a single order row in minor units, the way
+ * Svea does: unit price × quantity, less the row's discount
+ */
+export function calculateSveaRowAmount(row: SveaOrderRow): number {
+  const gross = (row.unitPrice * row.quantity) / 100
+  const afterPercent = row.discountPercent
+    ? gross * (1 - row.discountPercent / 10000)
+    : gross
+  return Math.round(afterPercent - (row.discountAmount || 0))
+}
+
+/**
+ * Calculates the total of the given order rows in minor units
+ */
+export function calculateSveaOrderTotal(rows: SveaOrderRow[]): number {
+  return rows.reduce((sum, row) => sum + calculateSveaRowAmount(row), 0)
+}
+
+/**
+ * Default shipping resolver reading a populated `cart.shippingMethod`
+ */
+export function resolveCartShippingMethod({
+  cart,
+  currency,
+}: SveaCartAdjustmentContext): SveaChargeRow | undefined {
+  const shippingMethod = cart.shippingMethod
+  if (!shippingMethod || typeof shippingMethod !== 'object') return undefined
+
+  const method = shippingMethod as Record<string, unknown>
+  const price = method[`priceIn${currency}`] ?? method.price
+
+  if (typeof price !== 'number' || price <= 0) return undefined
+
+  return {
+    name:
+      (typeof method.title === 'string' && method.title) ||
+      (typeof method.name === 'string' && method.name) ||
+      'Shipping',
+    amount: price,
+    ...(typeof method.vatPercent === 'number'
+      ? { vatPercent: method.vatPercent }
+      : {}),
+  }
+}
+
+/**
+ * Builds a single-unit order row from a charge or discount amount
+ */
+function createAdjustmentRow(
+  row: SveaChargeRow | SveaDiscountRow,
+  amount: number,
+  defaultVatPercent: number,
+): SveaOrderRow {
+  return {
+    name: row.name,
+    quantity: 100,
+    unitPrice: Math.round(amount * 100),
+    vatPercent: Math.round((row.vatPercent ?? defaultVatPercent) * 100),
+    ...(row.articleNumber ? { articleNumber: row.articleNumber } : {}),
+  }
+}
+
+/**
+ * Adds shipping, discount and fee rows to the product rows.
+ *
+ * Percent discounts are applied as `discountPercent` on every product
+ * row; amount discounts, shipping and fees become separate rows.
+ */
+export function applySveaCartAdjustments(
+  productRows: SveaOrderRow[],
+  context: Omit<SveaCartAdjustmentContext, 'productRows'>,
+  options: SveaOrderRowOptions = {},
+): SveaOrderRow[] {
+  const { defaultVatPercent = 25 } = options
+  const adjustmentContext: SveaCartAdjustmentContext = {
+    ...context,
+    currency: context.currency.toUpperCase(),
+    productRows,
+  }
+
+  const discounts = options.resolveDiscounts?.(adjustmentContext) || []
+  const percentDiscount = discounts.reduce(
+    (sum, discount) => sum + (discount.percent || 0),
+    0,
+  )
+
+  if (percentDiscount < 0 || percentDiscount > 100) {
+    throw new Error(`Invalid discount percent: ${percentDiscount}`)
+  }
+
+  const rows: SveaOrderRow[] = productRows.map((row) =>
+    percentDiscount > 0
+      ? { ...row, discountPercent: Math.round(percentDiscount * 100) }
+      : row,
+  )
+
+  const shipping = options.sveaShipping
+    ? undefined
+    : (options.resolveShipping?.(adjustmentContext) ??
+      resolveCartShippingMethod(adjustmentContext))
+
+  if (shipping && shipping.amount > 0) {
+    rows.push(createAdjustmentRow(shipping, shipping.amount, defaultVatPercent))
+  }
+
+  for (const discount of discounts) {
+    if (discount.amount && discount.amount > 0) {
+      rows.push(
+        createAdjustmentRow(discount, -discount.amount, defaultVatPercent),
+      )
+    }
+  }
+
+  const fees =
+    typeof options.fees === 'function'
+      ? options.fees(adjustmentContext)
+      : options.fees
+
+  for (const fee of fees || []) {
+    if (fee.amount > 0) {
+      rows.push(createAdjustmentRow(fee, fee.amount, defaultVatPercent))
+    }
+  }
+
+  if (calculateSveaOrderTotal(rows) < 0) {
+    throw new Error('Discounts exceed the order total.')
+  }
+
+  return rows
+}
+
+/**
+ * Builds the full list of Svea order rows for a cart: validated product
+ * rows followed by shipping, discount and fee rows
+ */
+export function buildSveaOrderRows(
+  cart: { items?: unknown[] | null } & Record<string, unknown>,
+  currency: string,
+  options: SveaOrderRowOptions = {},
+): SveaOrderRow[] {
+  // Map cart items to Svea format
+  const productRows: SveaOrderRow[] = (cart.items || [])
+    .map((item: unknown, index: number) =>
+      mapCartItemToSveaOrderRow(item as SveaCartItem, index, currency, options),
+    )
+    .filter((row): row is SveaOrderRow => row !== null)
+
+  if (productRows.length === 0) {
+    throw new Error('No valid order items found.')
+  }
+
+  // Validate order rows
+  for (const row of productRows) {
+    if (!row.name || row.quantity <= 0 || row.unitPrice <= 0) {
+      throw new Error(
+        `Invalid order row: name, quantity, and unitPrice are required. Got: ${JSON.stringify(row)}`,
+      )
+    }
+  }
+
+  // Add shipping, discount and fee rows
+  return applySveaCartAdjustments(productRows, { cart, currency }, options)
+}
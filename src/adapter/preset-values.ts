@@ -0,0 +1,117 @@
+import type {
+  SveaAdapterConfig,
+  SveaIdentityFlags,
+  SveaPresetContext,
+  SveaPresetField,
+  SveaPresetFieldOptions,
+  SveaPresetValue,
+  SveaPresetValuesOptions,
+} from './types'
+
+/** Svea `typeName` of each preset field */
+export const SVEA_PRESET_TYPE_NAMES: Record<SveaPresetField, string> = {
+  emailAddress: 'EmailAddress',
+  phoneNumber: 'PhoneNumber',
+  postalCode: 'PostalCode',
+  nationalId: 'NationalId',
+  isCompany: 'IsCompany',
+}
+
+/**
+ * Reads the first non-empty string among the given keys of a customer
+ */
+function getCustomerString(
+  customer: Record<string, unknown> | undefined,
+  ...keys: string[]
+): string | undefined {
+  for (const key of keys) {
+    const value = customer?.[key]
+    if (typeof value === 'string' && value.trim()) return value
+  }
+  return undefined
+}
+
+/**
+ * Built-in resolvers, reading the addresses first and the customer second
+ */
+const DEFAULT_RESOLVERS: Record<
+  SveaPresetField,
+  (context: SveaPresetContext) => string | boolean | undefined
+> = {
+  emailAddress: ({ customerEmail, customer }) =>
+    customerEmail || getCustomerString(customer, 'email'),
+  phoneNumber: ({ billingAddress, shippingAddress, customer }) =>
+    billingAddress?.phone ||
+    shippingAddress?.phone ||
+    getCustomerString(customer, 'phone', 'phoneNumber'),
+  postalCode: ({ billingAddress, shippingAddress }) =>
+    billingAddress?.postalCode || shippingAddress?.postalCode,
+  nationalId: ({ customer }) => getCustomerString(customer, 'nationalId'),
+  isCompany: ({ billingAddress }) =>
+    billingAddress?.company ? true : undefined,
+}
+
+/**
+ * Builds the checkout's preset values. Only the email address is preset
+ * unless more fields are enabled; fields without a value are skipped.
+ */
+export async function buildSveaPresetValues(
+  context: SveaPresetContext,
+  options: SveaPresetValuesOptions = {},
+): Promise<SveaPresetValue[]> {
+  const fields: SveaPresetValuesOptions = { emailAddress: true, ...options }
+  const presetValues: SveaPresetValue[] = []
+
+  for (const field of Object.keys(SVEA_PRESET_TYPE_NAMES) as SveaPresetField[]) {
+    const fieldOptions = fields[field]
+    if (!fieldOptions) continue
+
+    const { resolve, readOnly = false }: SveaPresetFieldOptions =
+      fieldOptions === true ? {} : fieldOptions
+
+    const resolved = resolve ? await resolve(context) : undefined
+    const value =
+      resolved === undefined ? DEFAULT_RESOLVERS[field](context) : resolved
+
+    if (value === null || value === undefined) continue
+
+    const stringValue = String(value).trim()
+    if (!stringValue) continue
+
+    presetValues.push({
+      typeName: SVEA_PRESET_TYPE_NAMES[field],
+      value: stringValue,
+      isReadonly: readOnly,
+    })
+  }
+
+  return presetValues
+}
+
+/**
+ * Replaces preset values with the overrides of the same `typeName`
+ */
+export function mergeSveaPresetValues(
+  presetValues: SveaPresetValue[],
+  overrides: SveaPresetValue[],
+): SveaPresetValue[] {
+  const overridden = new Set(overrides.map((preset) => preset.typeName))
+  return [
+    ...presetValues.filter((preset) => !overridden.has(preset.typeName)),
+    ...overrides,
+  ]
+}
+
+/**
+ * Resolves the identity flags option for a checkout
+ */
+export async function resolveSveaIdentityFlags(
+  context: SveaPresetContext,
+  identityFlags: SveaAdapterConfig['identityFlags'],
+): Promise<SveaIdentityFlags | undefined> {
+  const flags =
+    typeof identityFlags === 'function'
+      ? await identityFlags(context)
+      : identityFlags
+  return flags && Object.keys(flags).length > 0 ? flags : undefined
+}
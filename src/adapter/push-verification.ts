@@ -0,0 +1,104 @@
+import crypto from 'crypto'
+
+import type {
+  SveaPushVerification,
+  SveaPushVerificationOptions,
+} from './types'
+
+/** Query parameter carrying the shared push secret */
+export const SVEA_PUSH_SECRET_PARAM = 'secret'
+
+/**
+ * Builds the `pushUri` sent to Svea, with the shared secret appended
+ * when one is configured
+ */
+export function buildSveaPushUri(baseUrl: string, pushSecret?: string): string {
+  const pushUri = `${baseUrl.replace(/\/$/, '')}/api/payments/svea/webhook`
+  if (!pushSecret) return pushUri
+
+  const params = new URLSearchParams({ [SVEA_PUSH_SECRET_PARAM]: pushSecret })
+  return `${pushUri}?${params.toString()}`
+}
+
+/**
+ * Reads the client IP of a push request from proxy headers. Each proxy
+ * appends the address it received the request from to `x-forwarded-for`,
+ * so with `trustedProxies` proxies in front of the app the entry that
+ * many places from the right is the client. Entries left of it are sent
+ * by the client and cannot be trusted.
+ */
+export function getSveaPushClientIp(
+  headers: Pick<Headers, 'get'>,
+  trustedProxies = 1,
+): string | undefined {
+  const forwardedFor = headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    const entries = forwardedFor
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+    // Fewer entries than proxies: the request bypassed one of them
+    return entries.length >= trustedProxies
+      ? entries[entries.length - trustedProxies]
+      : undefined
+  }
+
+  return headers.get('x-real-ip')?.trim() || undefined
+}
+
+/**
+ * Strips the IPv4-mapped IPv6 prefix so `::ffff:1.2.3.4` matches `1.2.3.4`
+ */
+function normalizeIp(ip: string): string {
+  return ip.trim().toLowerCase().replace(/^::ffff:/, '')
+}
+
+/**
+ * Compares two secrets in constant time
+ */
+function secretsMatch(expected: string, received: string): boolean {
+  const expectedHash = crypto.createHash('sha256').update(expected).digest()
+  const receivedHash = crypto.createHash('sha256').update(received).digest()
+  return crypto.timingSafeEqual(expectedHash, receivedHash)
+}
+
+/**
+ * Checks a push request against the configured IP allow-list and shared
+ * secret. Passing checks only mean the request may come from Svea; the
+ * order status must still be read from the Checkout API.
+ */
+export function verifySveaPushRequest({
+  url,
+  headers,
+  allowedIps,
+  trustedProxies,
+  pushSecret,
+}: SveaPushVerificationOptions): SveaPushVerification {
+  const clientIp = getSveaPushClientIp(headers, trustedProxies)
+
+  if (allowedIps && allowedIps.length > 0) {
+    const allowed = allowedIps.map(normalizeIp)
+    if (!clientIp || !allowed.includes(normalizeIp(clientIp))) {
+      return {
+        verified: false,
+        reason: clientIp
+          ? `IP ${clientIp} is not in the allow-list`
+          : 'Client IP could not be determined',
+        clientIp,
+      }
+    }
+  }
+
+  if (pushSecret) {
+    const receivedSecret = new URL(url).searchParams.get(SVEA_PUSH_SECRET_PARAM)
+    if (!receivedSecret || !secretsMatch(pushSecret, receivedSecret)) {
+      return {
+        verified: false,
+        reason: receivedSecret ? 'Invalid push secret' : 'Missing push secret',
+        clientIp,
+      }
+    }
+  }
+
+  return { verified: true, clientIp }
+}
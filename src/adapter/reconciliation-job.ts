@@ -0,0 +1,445 @@
+import type { Payload, TaskConfig } from 'payload'
+
+import {
+  getSveaAdminTransactionStatus,
+  summarizeSveaAdminOrder,
+} from './admin-actions'
+import type { SveaPaymentAdminClient } from './admin-client'
+import { SVEA_ADMIN_API_URLS } from './admin-client'
+import type { SveaCheckoutClient } from './checkout-client'
+import { SVEA_API_URLS } from './checkout-client'
+import { createSveaEventLog, withSveaEventLog } from './event-log'
+import { finalizeSveaOrder } from './finalize-order'
+import {
+  createSveaMerchantClients,
+  getSveaMerchantProfileName,
+} from './merchant-profiles'
+import {
+  createSveaAmountMismatch,
+  reconcileSveaOrderAmount,
+  recordSveaAmountMismatch,
+} from './reconciliation'
+import { createSveaInventoryReservations } from './reservations'
+import type {
+  SveaAdapterConfig,
+  SveaAmountMismatchPolicy,
+  SveaEventLog,
+  SveaInventoryReservations,
+  SveaMerchantClients,
+  SveaReconciliationFailure,
+  SveaReconciliationFix,
+  SveaReconciliationOptions,
+  SveaReconciliationResult,
+  SveaReconciliationTaskOptions,
+} from './types'
+
+/** Default slug of the reconciliation reports collection */
+export const SVEA_RECONCILIATION_REPORTS_SLUG = 'svea-reconciliation-reports'
+
+/** Default slug of the reconciliation jobs task */
+export const SVEA_RECONCILIATION_TASK_SLUG = 'sveaReconcileTransactions'
+
+/** Transactions fetched per page */
+const PAGE_SIZE = 50
+
+/** Stored admin fields compared with Payment Admin */
+const ADMIN_FIELDS = [
+  'adminStatus',
+  'deliveredAmount',
+  'creditedAmount',
+  'cancelledAmount',
+] as const
+
+/**
+ * Compares Svea transactions created in a time window with the Checkout
+ * and Payment Admin APIs and repairs what diverged:
+ *
+ * - `Final` orders without a Payload order are finalized
+ * - `Cancelled` orders with a pending transaction mark it `failed`
+ * - Delivered, credited and cancelled amounts are copied from Payment
+ *   Admin, updating the transaction status for cancelled and fully
+ *   credited orders
+ *
+ * Every fix is listed in the result and, unless `report` is false, in a
+ * report document.
+ */
+export async function reconcileSveaTransactions({
+  payload,
+  checkoutClient,
+  adminClient,
+  merchants,
+  from,
+  to,
+  windowHours = 7 * 24,
+  report = true,
+  onMismatch = 'review',
+  amountTolerance = 0,
+  collections = {},
+  reservations,
+  eventLog,
+}: SveaReconciliationOptions & {
+  payload: Payload
+  checkoutClient: SveaCheckoutClient
+  adminClient: SveaPaymentAdminClient
+  /** Clients per merchant profile, used for transactions storing one */
+  merchants?: SveaMerchantClients
+  onMismatch?: SveaAmountMismatchPolicy
+  amountTolerance?: number
+  collections?: SveaAdapterConfig['collections']
+  reservations?: SveaInventoryReservations
+  eventLog?: SveaEventLog
+}): Promise<SveaReconciliationResult> {
+  const transactionsSlug = collections.transactions || 'transactions'
+
+  const startedAt = new Date().toISOString()
+  const windowEnd = to ? new Date(to) : new Date()
+  const windowStart = from
+    ? new Date(from)
+    : new Date(windowEnd.getTime() - windowHours * 60 * 60 * 1000)
+
+  const fixes: SveaReconciliationFix[] = []
+  const failures: SveaReconciliationFailure[] = []
+  let checked = 0
+
+  const reconcileTransaction = async (transaction: Record<string, unknown>) => {
+    const transactionId = transaction.id as number | string
+    const sveaData = (transaction.svea || {}) as Record<string, unknown>
+    const sveaOrderId = sveaData.orderId as number | undefined
+    if (!sveaOrderId) return
+
+    const fix = (type: SveaReconciliationFix['type'], detail: string) => {
+      fixes.push({ type, transactionId, sveaOrderId, detail })
+      payload.logger.info(
+        { transactionId, sveaOrderId, type, detail },
+        'Reconciled Svea transaction',
+      )
+    }
+
+    const profile = getSveaMerchantProfileName(transaction)
+    const checkout = withSveaEventLog(
+      merchants?.checkoutClient(profile) ?? checkoutClient,
+      eventLog,
+      payload,
+    )
+    const admin = withSveaEventLog(
+      merchants?.adminClient(profile) ?? adminClient,
+      eventLog,
+      payload,
+    )
+
+    const sveaOrder = await checkout.getOrder(sveaOrderId)
+
+    if (sveaOrder.Status === 'Cancelled') {
+      if (transaction.status === 'pending') {
+        await payload.update({
+          id: transactionId,
+          collection: transactionsSlug as 'transactions',
+          data: { status: 'failed' } as Record<string, unknown>,
+        })
+        await reservations?.release(payload, transactionId)
+        fix('transaction-failed', 'Svea order is Cancelled')
+      }
+      return
+    }
+
+    if (sveaOrder.Status !== 'Final') return
+
+    if (!transaction.order) {
+      const reconciliation = reconcileSveaOrderAmount(
+        sveaOrder,
+        transaction,
+        amountTolerance,
+      )
+      const amountMismatch = reconciliation.matches
+        ? undefined
+        : createSveaAmountMismatch(reconciliation, onMismatch)
+
+      if (amountMismatch && onMismatch === 'reject') {
+        if (!sveaData.amountMismatch) {
+          await recordSveaAmountMismatch(
+            payload,
+            transaction as { id: number | string; svea?: unknown },
+            transactionsSlug,
+            amountMismatch,
+          )
+          fix(
+            'mismatch-flagged',
+            `Svea total ${reconciliation.sveaAmount} ${reconciliation.sveaCurrency}, transaction ${reconciliation.transactionAmount} ${reconciliation.transactionCurrency}`,
+          )
+        }
+        return
+      }
+
+      const { orderID, created } = await finalizeSveaOrder({
+        payload,
+        transactionId,
+        sveaOrder,
+        amountMismatch,
+        ordersSlug: collections.orders,
+        transactionsSlug,
+        cartsSlug: collections.carts,
+        customersSlug: collections.customers,
+        reservations,
+      })
+      fix(
+        'order-created',
+        created
+          ? `Created order ${orderID} (transaction was ${String(transaction.status)})`
+          : `Linked existing order ${orderID}`,
+      )
+    }
+
+    // Re-read: finalizing above rewrites the svea group
+    const current = (await payload.findByID({
+      collection: transactionsSlug as 'transactions',
+      id: transactionId,
+      depth: 0,
+    })) as Record<string, unknown>
+    const currentSveaData = (current.svea || {}) as Record<string, unknown>
+
+    const summary = summarizeSveaAdminOrder(await admin.getOrder(sveaOrderId))
+    const changed = ADMIN_FIELDS.filter((field) => {
+      const stored = currentSveaData[field]
+      // Unset amounts count as zero
+      return field === 'adminStatus'
+        ? stored !== summary.adminStatus
+        : Number(stored || 0) !== summary[field]
+    })
+
+    if (changed.length === 0) return
+
+    const status = getSveaAdminTransactionStatus(summary.adminStatus)
+
+    await payload.update({
+      id: transactionId,
+      collection: transactionsSlug as 'transactions',
+      data: {
+        ...(status ? { status } : {}),
+        svea: {
+          ...currentSveaData,
+          ...summary,
+        },
+      } as Record<string, unknown>,
+    })
+
+    fix(
+      'admin-state-updated',
+      changed
+        .map(
+          (field) =>
+            `${field}: ${String(currentSveaData[field] ?? '-')} → ${String(summary[field])}`,
+        )
+        .join(', '),
+    )
+  }
+
+  for (let page = 1; ; page++) {
+    const results = await payload.find({
+      collection: transactionsSlug as 'transactions',
+      where: {
+        and: [
+          { paymentMethod: { equals: 'svea' } },
+          { createdAt: { greater_than_equal: windowStart.toISOString() } },
+          { createdAt: { less_than: windowEnd.toISOString() } },
+        ],
+      },
+      sort: 'createdAt',
+      limit: PAGE_SIZE,
+      page,
+      depth: 0,
+    })
+
+    for (const transaction of results.docs as Record<string, unknown>[]) {
+      checked++
+      try {
+        await reconcileTransaction(transaction)
+      } catch (error) {
+        const sveaData = (transaction.svea || {}) as { orderId?: number }
+        const message = error instanceof Error ? error.message : String(error)
+        failures.push({
+          transactionId: transaction.id as number | string,
+          ...(sveaData.orderId ? { sveaOrderId: sveaData.orderId } : {}),
+          error: message,
+        })
+        payload.logger.error(
+          { transactionId: transaction.id, error: message },
+          'Could not reconcile Svea transaction',
+        )
+      }
+    }
+
+    if (!results.hasNextPage) break
+  }
+
+  const result: SveaReconciliationResult = {
+    windowStart: windowStart.toISOString(),
+    windowEnd: windowEnd.toISOString(),
+    checked,
+    fixes,
+    failures,
+  }
+
+  if (report) {
+    try {
+      const reportDoc = await payload.create({
+        collection: (collections.reconciliationReports ||
+          SVEA_RECONCILIATION_REPORTS_SLUG) as 'transactions',
+        data: {
+          startedAt,
+          finishedAt: new Date().toISOString(),
+          windowStart: result.windowStart,
+          windowEnd: result.windowEnd,
+          checked,
+          fixCount: fixes.length,
+          failureCount: failures.length,
+          fixes: fixes.map((entry) => ({
+            type: entry.type,
+            transaction: entry.transactionId,
+            sveaOrderId: entry.sveaOrderId,
+            detail: entry.detail,
+          })),
+          failures: failures.map((entry) => ({
+            transaction: entry.transactionId,
+            sveaOrderId: entry.sveaOrderId,
+            error: entry.error,
+          })),
+        } as Record<string, unknown>,
+      })
+      result.reportId = reportDoc.id
+    } catch (error) {
+      payload.logger.warn(
+        { error: error instanceof Error ? error.message : error },
+        'Could not store Svea reconciliation report',
+      )
+    }
+  }
+
+  payload.logger.info(
+    {
+      windowStart: result.windowStart,
+      windowEnd: result.windowEnd,
+      checked,
+      fixes: fixes.length,
+      failures: failures.length,
+      reportId: result.reportId,
+    },
+    'Reconciled Svea transactions',
+  )
+
+  return result
+}
+
+/**
+ * Creates a Payload jobs task running `reconcileSveaTransactions`
+ *
+ * @example
+ * ```ts
+ * export default buildConfig({
+ *   jobs: {
+ *     tasks: [
+ *       createSveaReconciliationTask({
+ *         merchantId: process.env.SVEA_MERCHANT_ID!,
+ *         secretKey: process.env.SVEA_SECRET_KEY!,
+ *         schedule: [{ cron: '0 3 * * *', queue: 'default' }],
+ *       }),
+ *     ],
+ *   },
+ * })
+ * ```
+ */
+export function createSveaReconciliationTask(
+  options: SveaReconciliationTaskOptions,
+): TaskConfig<{
+  input: SveaReconciliationOptions
+  output: Omit<SveaReconciliationResult, 'fixes' | 'failures'> & {
+    fixes: number
+    failures: number
+  }
+}> {
+  const {
+    slug = SVEA_RECONCILIATION_TASK_SLUG,
+    schedule,
+    merchantId,
+    secretKey,
+    checkoutApiUrl = process.env.SVEA_CHECKOUT_API_URL || SVEA_API_URLS.staging,
+    paymentAdminApiUrl = process.env.SVEA_PAYMENT_ADMIN_API_URL ||
+      SVEA_ADMIN_API_URLS.staging,
+    merchants: merchantProfiles,
+    http,
+    collections = {},
+    reservations: reservationsConfig = false,
+    eventLog: eventLogEnabled = false,
+    ...reconciliationOptions
+  } = options
+
+  const merchants = createSveaMerchantClients({
+    merchantId,
+    secretKey,
+    checkoutApiUrl,
+    paymentAdminApiUrl,
+    merchants: merchantProfiles,
+    http,
+  })
+
+  const reservations = reservationsConfig
+    ? createSveaInventoryReservations({
+        ...(reservationsConfig === true ? {} : reservationsConfig),
+        slug: collections.reservations,
+        productsSlug: collections.products,
+        variantsSlug: collections.variants,
+      })
+    : undefined
+
+  const eventLog = eventLogEnabled
+    ? createSveaEventLog({
+        slug: collections.events,
+        transactionsSlug: collections.transactions,
+      })
+    : undefined
+
+  return {
+    slug,
+    label: 'Reconcile Svea transactions',
+    ...(schedule ? { schedule } : {}),
+    inputSchema: [
+      { name: 'from', type: 'date' },
+      { name: 'to', type: 'date' },
+      { name: 'windowHours', type: 'number' },
+      { name: 'report', type: 'checkbox' },
+    ],
+    outputSchema: [
+      { name: 'windowStart', type: 'date' },
+      { name: 'windowEnd', type: 'date' },
+      { name: 'checked', type: 'number' },
+      { name: 'fixes', type: 'number' },
+      { name: 'failures', type: 'number' },
+      { name: 'reportId', type: 'text' },
+    ],
+    handler: async ({ input, req }) => {
+      const { fixes, failures, ...result } = await reconcileSveaTransactions({
+        ...reconciliationOptions,
+        // Job input overrides the task defaults; unset fields are null
+        ...Object.fromEntries(
+          Object.entries(input || {}).filter(
+            ([, value]) => value !== null && value !== undefined,
+          ),
+        ),
+        payload: req.payload,
+        checkoutClient: merchants.checkoutClient(),
+        adminClient: merchants.adminClient(),
+        merchants,
+        collections,
+        reservations,
+        eventLog,
+      })
+
+      return {
+        output: {
+          ...result,
+          fixes: fixes.length,
+          failures: failures.length,
+        },
+      }
+    },
+  }
+}
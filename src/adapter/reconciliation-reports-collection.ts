@@ -0,0 +1,143 @@
+import type { CollectionConfig, Plugin } from 'payload'
+
+import { isSveaAdmin } from './access'
+import { SVEA_RECONCILIATION_REPORTS_SLUG } from './reconciliation-job'
+import type { SveaReconciliationReportsCollectionOptions } from './types'
+
+/**
+ * Collection storing the outcome of each reconciliation run
+ *
+ * Reports are written through the local API only and list every fix and
+ * every transaction that could not be checked.
+ */
+export function sveaReconciliationReportsCollection(
+  options: SveaReconciliationReportsCollectionOptions = {},
+): CollectionConfig {
+  const {
+    slug = SVEA_RECONCILIATION_REPORTS_SLUG,
+    transactionsSlug = 'transactions',
+    readAccess = isSveaAdmin,
+  } = options
+
+  return {
+    slug,
+    labels: {
+      singular: 'Svea reconciliation report',
+      plural: 'Svea reconciliation reports',
+    },
+    admin: {
+      group: 'Ecommerce',
+      useAsTitle: 'startedAt',
+      defaultColumns: [
+        'startedAt',
+        'windowStart',
+        'windowEnd',
+        'checked',
+        'fixCount',
+        'failureCount',
+      ],
+    },
+    access: {
+      read: readAccess,
+      create: () => false,
+      update: () => false,
+      delete: readAccess,
+    },
+    disableDuplicate: true,
+    timestamps: true,
+    fields: [
+      {
+        type: 'row',
+        fields: [
+          { name: 'startedAt', type: 'date', required: true, index: true },
+          { name: 'finishedAt', type: 'date' },
+        ],
+      },
+      {
+        type: 'row',
+        fields: [
+          { name: 'windowStart', type: 'date', required: true },
+          { name: 'windowEnd', type: 'date', required: true },
+        ],
+      },
+      {
+        type: 'row',
+        fields: [
+          { name: 'checked', type: 'number', label: 'Transactions checked' },
+          { name: 'fixCount', type: 'number', label: 'Fixes' },
+          { name: 'failureCount', type: 'number', label: 'Failures' },
+        ],
+      },
+      {
+        name: 'fixes',
+        type: 'array',
+        fields: [
+          {
+            type: 'row',
+            fields: [
+              {
+                name: 'type',
+                type: 'select',
+                required: true,
+                options: [
+                  { label: 'Order created', value: 'order-created' },
+                  { label: 'Transaction failed', value: 'transaction-failed' },
+                  { label: 'Admin state updated', value: 'admin-state-updated' },
+                  { label: 'Mismatch flagged', value: 'mismatch-flagged' },
+                ],
+              },
+              {
+                name: 'transaction',
+                type: 'relationship',
+                relationTo: transactionsSlug as 'transactions',
+              },
+              { name: 'sveaOrderId', type: 'number', label: 'Svea Order ID' },
+            ],
+          },
+          { name: 'detail', type: 'text' },
+        ],
+      },
+      {
+        name: 'failures',
+        type: 'array',
+        fields: [
+          {
+            type: 'row',
+            fields: [
+              {
+                name: 'transaction',
+                type: 'relationship',
+                relationTo: transactionsSlug as 'transactions',
+              },
+              { name: 'sveaOrderId', type: 'number', label: 'Svea Order ID' },
+            ],
+          },
+          { name: 'error', type: 'textarea' },
+        ],
+      },
+    ],
+  }
+}
+
+/**
+ * Payload plugin adding the `svea-reconciliation-reports` collection
+ *
+ * @example
+ * ```ts
+ * export default buildConfig({
+ *   plugins: [sveaReconciliationPlugin()],
+ *   jobs: { tasks: [createSveaReconciliationTask({ ... })] },
+ * })
+ * ```
+ */
+export function sveaReconciliationPlugin(
+  options: SveaReconciliationReportsCollectionOptions = {},
+): Plugin {
+  return (config) => ({
+    ...config,
+    collections: [
+      ...(config.collections || []),
+      sveaReconciliationReportsCollection(options),
+    ],
+  })
+}
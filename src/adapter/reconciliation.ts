@@ -0,0 +1,100 @@
+import type { Payload } from 'payload'
+
+import { calculateSveaOrderTotal, getSveaOrderRows } from './order-rows'
+import {
+  getSveaShippingDetails,
+  hasSveaShippingRecorded,
+  isSveaShippingRow,
+} from './shipping'
+import type {
+  SveaAmountMismatch,
+  SveaAmountMismatchPolicy,
+  SveaAmountReconciliation,
+  SveaOrder,
+} from './types'
+
+/**
+ * Compares the Svea order total and currency with the transaction.
+ * Transaction amounts are in major units; Svea amounts in minor units.
+ *
+ * Shipping chosen in the checkout is not part of the transaction amount
+ * until the order is finalized, so its fee is added to the expected
+ * amount of transactions without stored shipping.
+ */
+export function reconcileSveaOrderAmount(
+  sveaOrder: SveaOrder,
+  transaction: Record<string, unknown>,
+  amountTolerance = 0,
+): SveaAmountReconciliation {
+  const rows = getSveaOrderRows(sveaOrder)
+  const shipping = getSveaShippingDetails(sveaOrder)
+  const sveaAmount =
+    calculateSveaOrderTotal(rows) +
+    // A fee without a shipping row is charged on top of the rows
+    (shipping && !rows.some(isSveaShippingRow) ? shipping.fee : 0)
+
+  const transactionAmount =
+    Math.round(Number(transaction.amount || 0) * 100) +
+    (shipping && !hasSveaShippingRecorded(transaction) ? shipping.fee : 0)
+  const sveaCurrency = String(sveaOrder.Currency || '').toUpperCase()
+  const transactionCurrency = String(transaction.currency || '').toUpperCase()
+
+  const currencyMatches =
+    !sveaCurrency || !transactionCurrency || sveaCurrency === transactionCurrency
+
+  return {
+    matches:
+      currencyMatches &&
+      Math.abs(sveaAmount - transactionAmount) <= amountTolerance,
+    sveaAmount,
+    transactionAmount,
+    sveaCurrency,
+    transactionCurrency,
+  }
+}
+
+/**
+ * Builds the mismatch record stored on the transaction for a policy
+ */
+export function createSveaAmountMismatch(
+  reconciliation: SveaAmountReconciliation,
+  policy: SveaAmountMismatchPolicy,
+): SveaAmountMismatch {
+  const { matches: _matches, ...amounts } = reconciliation
+  return {
+    ...amounts,
+    resolution:
+      policy === 'reject'
+        ? 'rejected'
+        : policy === 'review'
+          ? 'review'
+          : 'accepted',
+    detectedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Writes the mismatch record to the transaction's `svea` group
+ */
+export async function recordSveaAmountMismatch(
+  payload: Payload,
+  transaction: { id: number | string; svea?: unknown },
+  transactionsSlug: string,
+  mismatch: SveaAmountMismatch,
+) {
+  const existingSveaData =
+    transaction.svea && typeof transaction.svea === 'object'
+      ? (transaction.svea as Record<string, unknown>)
+      : {}
+
+  await payload.update({
+    id: transaction.id,
+    collection: transactionsSlug as 'transactions',
+    data: {
+      svea: {
+        ...existingSveaData,
+        amountMismatch: mismatch,
+      },
+    } as Record<string, unknown>,
+  })
+}
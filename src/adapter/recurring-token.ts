@@ -0,0 +1,132 @@
+import type { Payload } from 'payload'
+
+/** Field on the customers collection holding the Svea recurring token */
+export const SVEA_RECURRING_TOKEN_FIELD = 'sveaRecurringToken'
+
+/**
+ * Field on the customers collection holding the merchant profile whose
+ * checkout issued the recurring token
+ */
+export const SVEA_RECURRING_MERCHANT_PROFILE_FIELD =
+  'sveaRecurringMerchantProfile'
+
+/**
+ * Whether a collection has a top-level field, so a write does not depend
+ * on how the database adapter treats unknown keys
+ */
+function hasField(payload: Payload, slug: string, name: string): boolean {
+  return Boolean(
+    payload.collections[slug as 'users']?.config.flattenedFields.some(
+      (field) => 'name' in field && field.name === name,
+    ),
+  )
+}
+
+/**
+ * Stores a recurring token on the customer of a finalized order
+ *
+ * Runs after the order is committed, so failures are logged and never
+ * undo the order. Orders without a customer keep their token only in
+ * Svea, since guests have nowhere to store it. The merchant profile is
+ * stored next to it when the collection has the profile field.
+ */
+export async function storeSveaRecurringToken({
+  payload,
+  customerId,
+  token,
+  merchantProfile,
+  customersSlug = 'users',
+  transactionId,
+}: {
+  payload: Payload
+  customerId?: number | string
+  token: string
+  /** Profile whose checkout issued the token */
+  merchantProfile?: string
+  customersSlug?: string
+  transactionId: number | string
+}): Promise<void> {
+  if (!customerId) {
+    payload.logger.warn(
+      { transactionId },
+      'Svea recurring token not stored: order has no customer',
+    )
+    return
+  }
+
+  const storesProfile = hasField(
+    payload,
+    customersSlug,
+    SVEA_RECURRING_MERCHANT_PROFILE_FIELD,
+  )
+
+  try {
+    await payload.update({
+      id: customerId,
+      collection: customersSlug as 'users',
+      data: {
+        [SVEA_RECURRING_TOKEN_FIELD]: token,
+        ...(storesProfile
+          ? { [SVEA_RECURRING_MERCHANT_PROFILE_FIELD]: merchantProfile ?? null }
+          : {}),
+      } as Record<string, unknown>,
+    })
+    payload.logger.info(
+      { customerId, transactionId },
+      'Stored Svea recurring token',
+    )
+  } catch (error) {
+    payload.logger.warn(
+      { customerId, transactionId, error },
+      'Could not store Svea recurring token',
+    )
+  }
+}
+
+async function readSveaRecurringField(
+  payload: Payload,
+  customerId: number | string,
+  customersSlug: string,
+  field: string,
+): Promise<string | undefined> {
+  const customer = (await payload.findByID({
+    collection: customersSlug as 'users',
+    id: customerId,
+    depth: 0,
+  })) as unknown as Record<string, unknown>
+
+  const value = customer[field]
+  return typeof value === 'string' && value ? value : undefined
+}
+
+/**
+ * Reads the recurring token stored on a customer
+ */
+export async function getSveaRecurringToken(
+  payload: Payload,
+  customerId: number | string,
+  customersSlug = 'users',
+): Promise<string | undefined> {
+  return readSveaRecurringField(
+    payload,
+    customerId,
+    customersSlug,
+    SVEA_RECURRING_TOKEN_FIELD,
+  )
+}
+
+/**
+ * Reads the merchant profile that issued a customer's recurring token
+ */
+export async function getSveaRecurringMerchantProfile(
+  payload: Payload,
+  customerId: number | string,
+  customersSlug = 'users',
+): Promise<string | undefined> {
+  return readSveaRecurringField(
+    payload,
+    customerId,
+    customersSlug,
+    SVEA_RECURRING_MERCHANT_PROFILE_FIELD,
+  )
+}
@@ -0,0 +1,289 @@
+import type { Payload } from 'payload'
+
+import { SveaCheckoutClient } from './checkout-client'
+import { SveaAmountMismatchError, SveaValidationError } from './errors'
+import { withSveaEventLog } from './event-log'
+import { finalizeSveaOrder, normalizeCartItems } from './finalize-order'
+import { buildSveaOrderRows, calculateSveaOrderTotal } from './order-rows'
+import type { SveaOrderRowOptions } from './order-rows'
+import {
+  createSveaAmountMismatch,
+  reconcileSveaOrderAmount,
+  recordSveaAmountMismatch,
+} from './reconciliation'
+import { getSveaRecurringToken } from './recurring-token'
+import { toSveaReservationItems } from './reservations'
+import type {
+  SveaAdapterConfig,
+  SveaAmountMismatchPolicy,
+  SveaCartItem,
+  SveaEventLog,
+  SveaInventoryReservations,
+  SveaRecurringChargeArgs,
+  SveaRecurringChargeResult,
+} from './types'
+import { generateClientOrderNumber } from '../utils'
+
+/**
+ * Populates product and variant IDs so order rows can be built
+ */
+async function populateSveaItems(
+  payload: Payload,
+  items: SveaCartItem[],
+  productsSlug: string,
+  variantsSlug: string,
+): Promise<SveaCartItem[]> {
+  return Promise.all(
+    items.map(async (item) => ({
+      ...item,
+      product:
+        item.product && typeof item.product !== 'object'
+          ? ((await payload.findByID({
+              collection: productsSlug as 'products',
+              id: item.product,
+              depth: 0,
+            })) as unknown as Record<string, unknown>)
+          : item.product,
+      variant:
+        item.variant && typeof item.variant !== 'object'
+          ? ((await payload.findByID({
+              collection: variantsSlug as 'variants',
+              id: item.variant,
+              depth: 0,
+            })) as unknown as Record<string, unknown>)
+          : item.variant,
+    })),
+  )
+}
+
+/**
+ * Charges a stored recurring token for a new order, e.g. a subscription
+ * renewal
+ *
+ * A pending transaction is created first and marked `failed` if Svea
+ * refuses the charge. Once Svea reports the order `Final` it is finalized
+ * like a checkout, creating the Payload order; otherwise the transaction
+ * stays pending for the sweeper. An amount mismatch rejected by
+ * `onMismatch: 'reject'` also marks it `failed`.
+ */
+export async function chargeSveaRecurringToken({
+  payload,
+  checkoutClient,
+  customer,
+  token: explicitToken,
+  items,
+  currency,
+  customerEmail,
+  clientOrderNumber,
+  merchantProfile,
+  orderRowOptions,
+  onMismatch = 'review',
+  amountTolerance = 0,
+  collections = {},
+  reservations,
+  eventLog,
+}: SveaRecurringChargeArgs & {
+  payload: Payload
+  checkoutClient: SveaCheckoutClient
+  orderRowOptions?: SveaOrderRowOptions
+  onMismatch?: SveaAmountMismatchPolicy
+  amountTolerance?: number
+  collections?: SveaAdapterConfig['collections']
+  reservations?: SveaInventoryReservations
+  eventLog?: SveaEventLog
+}): Promise<SveaRecurringChargeResult> {
+  const transactionsSlug = collections.transactions || 'transactions'
+  const customersSlug = collections.customers || 'users'
+  const client = withSveaEventLog(checkoutClient, eventLog, payload)
+
+  if (!currency) {
+    throw new SveaValidationError('Currency is required.')
+  }
+
+  if (!items || items.length === 0) {
+    throw new SveaValidationError('Items are required.')
+  }
+
+  const token =
+    explicitToken ||
+    (customer
+      ? await getSveaRecurringToken(payload, customer, customersSlug)
+      : undefined)
+
+  if (!token) {
+    throw new SveaValidationError(
+      customer
+        ? `No Svea recurring token stored for customer ${customer}.`
+        : 'A customer or recurring token is required.',
+    )
+  }
+
+  let resolvedCustomerEmail = customerEmail
+  if (!resolvedCustomerEmail && customer) {
+    const customerDoc = (await payload.findByID({
+      collection: customersSlug as 'users',
+      id: customer,
+      depth: 0,
+    })) as unknown as { email?: unknown }
+    if (typeof customerDoc.email === 'string') {
+      resolvedCustomerEmail = customerDoc.email
+    }
+  }
+
+  const normalizedCurrency = currency.toUpperCase()
+  const populatedItems = await populateSveaItems(
+    payload,
+    items,
+    collections.products || 'products',
+    collections.variants || 'variants',
+  )
+  const orderRows = buildSveaOrderRows(
+    { items: populatedItems, currency: normalizedCurrency },
+    normalizedCurrency,
+    orderRowOptions,
+  )
+  const orderTotal = calculateSveaOrderTotal(orderRows) / 100
+  const normalizedItems = normalizeCartItems({ items: populatedItems })
+  const resolvedClientOrderNumber =
+    clientOrderNumber ||
+    generateClientOrderNumber(customer ? `R${customer}` : 'R')
+
+  const transaction = await payload.create({
+    collection: transactionsSlug as 'transactions',
+    data: {
+      paymentMethod: 'svea',
+      status: 'pending',
+      amount: orderTotal,
+      currency: normalizedCurrency,
+      items: normalizedItems,
+      ...(customer ? { customer } : {}),
+      ...(resolvedCustomerEmail
+        ? { customerEmail: resolvedCustomerEmail }
+        : {}),
+      svea: {
+        clientOrderNumber: resolvedClientOrderNumber,
+        recurring: true,
+        ...(merchantProfile ? { merchantProfile } : {}),
+      },
+    } as Record<string, unknown>,
+  })
+
+  const markFailed = async () => {
+    await payload.update({
+      id: transaction.id,
+      collection: transactionsSlug as 'transactions',
+      data: { status: 'failed' } as Record<string, unknown>,
+    })
+    await reservations?.release(payload, transaction.id)
+  }
+
+  let sveaOrderId: number
+  try {
+    // Throws when the stock is gone, before anything is charged
+    await reservations?.reserve(payload, {
+      transactionId: transaction.id,
+      items: toSveaReservationItems(normalizedItems),
+    })
+
+    const created = await client.createTokenOrder(token, {
+      currency: normalizedCurrency,
+      clientOrderNumber: resolvedClientOrderNumber,
+      cart: { items: orderRows },
+      merchantData: JSON.stringify({ transactionId: transaction.id }),
+    })
+    sveaOrderId = created.OrderId
+  } catch (error) {
+    await markFailed()
+    payload.logger.error(
+      { transactionId: transaction.id, error },
+      'Could not charge Svea recurring token',
+    )
+    throw error
+  }
+
+  await payload.update({
+    id: transaction.id,
+    collection: transactionsSlug as 'transactions',
+    data: {
+      svea: {
+        orderId: sveaOrderId,
+        clientOrderNumber: resolvedClientOrderNumber,
+        recurring: true,
+        ...(merchantProfile ? { merchantProfile } : {}),
+      },
+    } as Record<string, unknown>,
+  })
+
+  const sveaOrder = await client.getOrderByToken(token, sveaOrderId)
+
+  payload.logger.info(
+    { transactionId: transaction.id, sveaOrderId, status: sveaOrder.Status },
+    'Charged Svea recurring token',
+  )
+
+  if (sveaOrder.Status === 'Cancelled') {
+    await markFailed()
+    return {
+      transactionID: transaction.id,
+      sveaOrderId,
+      status: sveaOrder.Status,
+    }
+  }
+
+  if (sveaOrder.Status !== 'Final') {
+    return {
+      transactionID: transaction.id,
+      sveaOrderId,
+      status: sveaOrder.Status,
+    }
+  }
+
+  const reconciliation = reconcileSveaOrderAmount(
+    sveaOrder,
+    transaction,
+    amountTolerance,
+  )
+  const amountMismatch = reconciliation.matches
+    ? undefined
+    : createSveaAmountMismatch(reconciliation, onMismatch)
+
+  if (amountMismatch && onMismatch === 'reject') {
+    await recordSveaAmountMismatch(
+      payload,
+      {
+        id: transaction.id,
+        svea: {
+          orderId: sveaOrderId,
+          clientOrderNumber: resolvedClientOrderNumber,
+          recurring: true,
+          ...(merchantProfile ? { merchantProfile } : {}),
+        },
+      },
+      transactionsSlug,
+      amountMismatch,
+    )
+    // No order follows, so nothing may stay reserved for it
+    await markFailed()
+    throw new SveaAmountMismatchError()
+  }
+
+  const { orderID } = await finalizeSveaOrder({
+    payload,
+    transactionId: transaction.id,
+    sveaOrder,
+    amountMismatch,
+    customerEmail: resolvedCustomerEmail,
+    ordersSlug: collections.orders,
+    transactionsSlug,
+    cartsSlug: collections.carts,
+    customersSlug,
+    reservations,
+  })
+
+  return {
+    transactionID: transaction.id,
+    sveaOrderId,
+    status: sveaOrder.Status,
+    orderID,
+  }
+}
@@ -0,0 +1,359 @@
+import { createSveaAuthHeaders } from './auth'
+import { SveaApiError, SveaUnavailableError } from './errors'
+import type {
+  SveaApiCall,
+  SveaApiCallListener,
+  SveaCircuitBreaker,
+  SveaFetch,
+  SveaRetryOptions,
+} from './types'
+
+/** Default milliseconds before an attempt is aborted */
+export const SVEA_DEFAULT_TIMEOUT_MS = 15_000
+
+/**
+ * Connection settings shared by the Svea API clients
+ */
+export interface SveaRequestConfig {
+  merchantId: string
+  secretKey: string
+  baseUrl: string
+  fetch?: SveaFetch
+  onApiCall?: SveaApiCallListener
+  timeoutMs?: number
+  retry?: false | SveaRetryOptions
+  circuitBreaker?: SveaCircuitBreaker
+}
+
+/**
+ * A single signed request against a Svea API
+ */
+export interface SveaRequestOptions {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH'
+  path: string
+  body?: unknown
+  /** Prefix for error messages, e.g. `Failed to create Svea order` */
+  errorPrefix: string
+  /** Treat a 2xx response without a body as an error */
+  requireBody?: boolean
+}
+
+/**
+ * Result code and error message fields Svea may include in a 2xx response body
+ */
+interface SveaResultFields {
+  ResultCode?: number
+  resultCode?: number
+  ErrorMessage?: string
+  errorMessage?: string
+}
+
+/**
+ * Reads the most descriptive error message from a failed Svea response.
+ * Svea puts the message in the `errormessage` header, falling back to
+ * the JSON or plain text body.
+ */
+function readSveaErrorMessage(response: Response, errorText: string): string {
+  let errorJson: Record<string, unknown> | null = null
+
+  if (errorText) {
+    try {
+      errorJson = JSON.parse(errorText)
+    } catch {
+      // Not JSON
+    }
+  }
+
+  return (
+    response.headers.get('errormessage') ||
+    (errorJson?.message as string) ||
+    (errorJson?.error as string) ||
+    (errorJson?.Message as string) ||
+    errorText ||
+    response.statusText ||
+    'Unknown error'
+  )
+}
+
+/**
+ * Throws when a 2xx response body carries a non-success Svea ResultCode
+ */
+function assertSveaResultCode(
+  body: unknown,
+  errorPrefix: string,
+  status: number,
+) {
+  if (!body || typeof body !== 'object') return
+
+  const result = body as SveaResultFields
+  const resultCode =
+    typeof result.ResultCode === 'number'
+      ? result.ResultCode
+      : typeof result.resultCode === 'number'
+        ? result.resultCode
+        : undefined
+
+  if (
+    typeof resultCode === 'number' &&
+    resultCode !== 0 &&
+    resultCode !== 200 &&
+    resultCode !== 201
+  ) {
+    const errorMessage =
+      typeof result.ErrorMessage === 'string'
+        ? result.ErrorMessage
+        : typeof result.errorMessage === 'string'
+          ? result.errorMessage
+          : undefined
+
+    throw new SveaApiError(
+      `${errorPrefix}: ${resultCode} - ${errorMessage || 'Validation failed'}`,
+      { status, resultCode, errorMessage },
+    )
+  }
+}
+
+/**
+ * Thrown when an attempt exceeds the configured timeout
+ */
+class SveaTimeoutError extends Error {}
+
+/**
+ * Sends one attempt and reads its body, aborting both after `timeoutMs`.
+ * Custom `fetch` implementations ignoring the signal still time out.
+ */
+async function fetchWithTimeout(
+  fetchFn: SveaFetch,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<{ response: Response; text: string }> {
+  const send = async (signal?: AbortSignal) => {
+    const response = await fetchFn(url, { ...init, signal })
+    let text = ''
+    try {
+      text = await response.text()
+    } catch (error) {
+      // A failed response body only matters for successful responses
+      if (response.ok) throw error
+    }
+    return { response, text }
+  }
+
+  if (!timeoutMs) return send()
+
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new SveaTimeoutError(
+        `Svea did not respond within ${timeoutMs} ms`,
+      )
+      controller.abort(error)
+      reject(error)
+    }, timeoutMs)
+  })
+
+  try {
+    return await Promise.race([send(controller.signal), timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Delay before retry `retry` (1-based), doubled per retry with jitter
+ */
+function getRetryDelay(
+  retry: number,
+  { baseDelayMs = 200, maxDelayMs = 2000 }: SveaRetryOptions,
+): number {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1))
+  return Math.round(delay / 2 + (Math.random() * delay) / 2)
+}
+
+/**
+ * Sends a signed request to a Svea API and returns the parsed JSON body,
+ * or `null` when Svea responds without a body (e.g. 202/204).
+ *
+ * All Svea errors go through this function. Error responses throw a
+ * `SveaApiError` with the message `<prefix>: <status> - <message>`;
+ * network errors, timeouts and an open circuit throw a
+ * `SveaUnavailableError`.
+ *
+ * Each attempt is signed anew, so retries carry a current `Timestamp`.
+ * GET requests are retried after network errors, timeouts, 429 and 5xx
+ * responses; every attempt is reported to `onApiCall`.
+ */
+export async function sveaRequest<T>(
+  config: SveaRequestConfig,
+  options: SveaRequestOptions & { requireBody: true },
+): Promise<T>
+export async function sveaRequest<T>(
+  config: SveaRequestConfig,
+  options: SveaRequestOptions,
+): Promise<T | null>
+export async function sveaRequest<T>(
+  config: SveaRequestConfig,
+  options: SveaRequestOptions,
+): Promise<T | null> {
+  const {
+    merchantId,
+    secretKey,
+    baseUrl,
+    fetch: fetchFn = fetch,
+    onApiCall,
+    timeoutMs = SVEA_DEFAULT_TIMEOUT_MS,
+    retry = {},
+    circuitBreaker,
+  } = config
+  const { method, path, body, errorPrefix, requireBody } = options
+  const url = `${baseUrl.replace(/\/$/, '')}${path}`
+  const requestBody = body === undefined ? '' : JSON.stringify(body)
+  const attempts =
+    method === 'GET' && retry ? Math.max(1, retry.attempts ?? 3) : 1
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now()
+
+    const reportCall = async (
+      call: Omit<SveaApiCall, 'method' | 'url' | 'requestBody' | 'durationMs'>,
+    ) => {
+      if (!onApiCall) return
+      try {
+        await onApiCall({
+          method,
+          url,
+          requestBody: body,
+          durationMs: Date.now() - startedAt,
+          ...call,
+        })
+      } catch {
+        // Listeners must never break the request
+      }
+    }
+
+    const waitForRetry = async () => {
+      if (!retry || attempt >= attempts) return false
+      await new Promise((resolve) =>
+        setTimeout(resolve, getRetryDelay(attempt, retry)),
+      )
+      return true
+    }
+
+    if (circuitBreaker && !circuitBreaker.tryAcquire()) {
+      const retryAt = circuitBreaker.retryAt
+      const message = [
+        'Svea is unavailable after repeated failures - failing fast',
+        retryAt && `until ${retryAt.toISOString()}`,
+      ]
+        .filter(Boolean)
+        .join(' ')
+      throw new SveaUnavailableError(`${errorPrefix}: ${message}`, {
+        reason: 'circuitOpen',
+        retryAt,
+      })
+    }
+
+    const { token, timestamp } = createSveaAuthHeaders(
+      merchantId,
+      secretKey,
+      requestBody,
+    )
+
+    let result: { response: Response; text: string }
+    try {
+      result = await fetchWithTimeout(
+        fetchFn,
+        url,
+        {
+          method,
+          headers: {
+            ...(requestBody ? { 'Content-Type': 'application/json' } : {}),
+            Authorization: `Svea ${token}`,
+            Timestamp: timestamp,
+          },
+          ...(requestBody ? { body: requestBody } : {}),
+        },
+        timeoutMs,
+      )
+    } catch (error) {
+      await reportCall({
+        error: error instanceof Error ? error.message : String(error),
+      })
+      circuitBreaker?.recordFailure()
+      if (await waitForRetry()) continue
+      throw new SveaUnavailableError(
+        `${errorPrefix}: ${error instanceof Error ? error.message : String(error)}`,
+        {
+          reason: error instanceof SveaTimeoutError ? 'timeout' : 'network',
+          cause: error,
+        },
+      )
+    }
+
+    const { response, text: responseText } = result
+
+    if (!response.ok) {
+      const errorMessage = readSveaErrorMessage(response, responseText)
+      await reportCall({ status: response.status, error: errorMessage })
+      // A 429 shows Svea is up, so only 5xx count towards the circuit
+      if (response.status >= 500) {
+        circuitBreaker?.recordFailure()
+      } else {
+        circuitBreaker?.recordSuccess()
+      }
+      if (
+        (response.status >= 500 || response.status === 429) &&
+        (await waitForRetry())
+      ) {
+        continue
+      }
+      throw new SveaApiError(
+        `${errorPrefix}: ${response.status} - ${errorMessage}`,
+        { status: response.status, errorMessage },
+      )
+    }
+
+    circuitBreaker?.recordSuccess()
+
+    if (!responseText) {
+      await reportCall({ status: response.status })
+      if (requireBody) {
+        throw new SveaApiError(`${errorPrefix}: Empty response from Svea`, {
+          status: response.status,
+        })
+      }
+      return null
+    }
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(responseText)
+    } catch {
+      await reportCall({
+        status: response.status,
+        error: 'Invalid JSON response',
+      })
+      throw new SveaApiError(
+        `${errorPrefix}: ${response.status} - Invalid JSON response`,
+        { status: response.status },
+      )
+    }
+
+    try {
+      assertSveaResultCode(parsed, errorPrefix, response.status)
+    } catch (error) {
+      await reportCall({
+        status: response.status,
+        responseBody: parsed,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      throw error
+    }
+
+    await reportCall({ status: response.status, responseBody: parsed })
+
+    return parsed as T
+  }
+}
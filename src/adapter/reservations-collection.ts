@@ -0,0 +1,125 @@
+import type { CollectionConfig, Plugin } from 'payload'
+
+import { isSveaAdmin } from './access'
+import { SVEA_RESERVATIONS_SLUG } from './reservations'
+import type { SveaReservationsCollectionOptions } from './types'
+
+/**
+ * Collection storing inventory held by open Svea checkouts
+ *
+ * Reservations are written through the local API only; the admin list
+ * shows which transaction holds which stock and until when.
+ */
+export function sveaReservationsCollection(
+  options: SveaReservationsCollectionOptions = {},
+): CollectionConfig {
+  const {
+    slug = SVEA_RESERVATIONS_SLUG,
+    transactionsSlug = 'transactions',
+    readAccess = isSveaAdmin,
+  } = options
+
+  return {
+    slug,
+    labels: {
+      singular: 'Svea reservation',
+      plural: 'Svea reservations',
+    },
+    admin: {
+      group: 'Ecommerce',
+      useAsTitle: 'status',
+      defaultColumns: ['transaction', 'sveaOrderId', 'status', 'expiresAt'],
+    },
+    access: {
+      read: readAccess,
+      create: () => false,
+      update: () => false,
+      delete: readAccess,
+    },
+    disableDuplicate: true,
+    timestamps: true,
+    fields: [
+      {
+        name: 'transaction',
+        type: 'relationship',
+        relationTo: transactionsSlug as 'transactions',
+        required: true,
+        index: true,
+      },
+      {
+        name: 'sveaOrderId',
+        type: 'number',
+        label: 'Svea Order ID',
+        index: true,
+      },
+      {
+        type: 'row',
+        fields: [
+          {
+            name: 'status',
+            type: 'select',
+            required: true,
+            index: true,
+            defaultValue: 'active',
+            options: [
+              { label: 'Active', value: 'active' },
+              { label: 'Committed', value: 'committed' },
+              { label: 'Released', value: 'released' },
+              { label: 'Expired', value: 'expired' },
+            ],
+          },
+          {
+            name: 'expiresAt',
+            type: 'date',
+            required: true,
+            index: true,
+            admin: {
+              date: {
+                pickerAppearance: 'dayAndTime',
+              },
+            },
+          },
+        ],
+      },
+      {
+        name: 'items',
+        type: 'array',
+        fields: [
+          {
+            type: 'row',
+            fields: [
+              { name: 'product', type: 'text', required: true },
+              { name: 'variant', type: 'text' },
+              { name: 'quantity', type: 'number', required: true, min: 1 },
+            ],
+          },
+        ],
+      },
+    ],
+  }
+}
+
+/**
+ * Payload plugin adding the `svea-reservations` collection
+ *
+ * @example
+ * ```ts
+ * export default buildConfig({
+ *   plugins: [
+ *     ecommercePlugin({ ... sveaAdapter({ ..., reservations: true }) ... }),
+ *     sveaReservationsPlugin(),
+ *   ],
+ * })
+ * ```
+ */
+export function sveaReservationsPlugin(
+  options: SveaReservationsCollectionOptions = {},
+): Plugin {
+  return (config) => ({
+    ...config,
+    collections: [
+      ...(config.collections || []),
+      sveaReservationsCollection(options),
+    ],
+  })
+}
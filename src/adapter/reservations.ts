@@ -0,0 +1,391 @@
+import type { Payload, PayloadRequest } from 'payload'
+
+import { SveaOutOfStockError } from './errors'
+import type {
+  SveaInventoryReservations,
+  SveaReservationItem,
+  SveaReservationOptions,
+  SveaReservationShortage,
+  SveaReservationStatus,
+} from './types'
+import { getSveaInventory } from './validation'
+
+/** Default slug of the inventory reservations collection */
+export const SVEA_RESERVATIONS_SLUG = 'svea-reservations'
+
+/**
+ * Reservation document as stored in the collection
+ */
+interface ReservationDoc {
+  id: number | string
+  status: SveaReservationStatus
+  expiresAt: string
+  items?: Array<{
+    product: string
+    variant?: string | null
+    quantity: number
+  }> | null
+}
+
+/**
+ * Key of the document holding the stock for an item; variants hold
+ * their own stock
+ */
+function getStockKey(item: {
+  product: number | string
+  variant?: number | string | null
+}): string {
+  return item.variant
+    ? `variant:${String(item.variant)}`
+    : `product:${String(item.product)}`
+}
+
+/**
+ * Builds a nested `$inc` update for a dotted field path
+ */
+function buildInventoryIncrement(
+  inventoryField: string,
+  amount: number,
+): Record<string, unknown> {
+  return inventoryField
+    .split('.')
+    .reduceRight<unknown>((value, key) => ({ [key]: value }), {
+      $inc: amount,
+    }) as Record<string, unknown>
+}
+
+/**
+ * Converts normalized cart items to reservation items, skipping items
+ * without a product
+ */
+export function toSveaReservationItems(
+  items: Array<{
+    product?: number | string | null
+    variant?: number | string | null
+    quantity?: number
+  }>,
+): SveaReservationItem[] {
+  return items
+    .filter((item) => item.product !== undefined && item.product !== null)
+    .map((item) => ({
+      product: item.product as number | string,
+      ...(item.variant ? { variant: item.variant } : {}),
+      quantity: item.quantity || 1,
+    }))
+}
+
+/**
+ * Describes shortages for logs and error messages
+ */
+export function describeSveaShortages(
+  shortages: SveaReservationShortage[],
+): string {
+  return shortages
+    .map(
+      (shortage) =>
+        `${shortage.variant ? `variant ${shortage.variant}` : `product ${shortage.product}`} (${shortage.requested} requested, ${shortage.available} available)`,
+    )
+    .join(', ')
+}
+
+/**
+ * Creates the inventory reservation store
+ *
+ * Stock is held in a reservation document per transaction. Available
+ * stock is the inventory field less every other active, unexpired
+ * reservation; the inventory field itself only changes when a
+ * reservation is committed. Checks and writes are not atomic, so two
+ * checkouts starting at the same instant can still both reserve the
+ * last unit.
+ */
+export function createSveaInventoryReservations(
+  options: SveaReservationOptions & {
+    slug?: string
+    productsSlug?: string
+    variantsSlug?: string
+  } = {},
+): SveaInventoryReservations {
+  const {
+    slug = SVEA_RESERVATIONS_SLUG,
+    productsSlug = 'products',
+    variantsSlug = 'variants',
+    ttlMinutes = 30,
+    inventoryField = 'inventory',
+  } = options
+
+  const getExpiresAt = () =>
+    new Date(Date.now() + ttlMinutes * 60 * 1000).toISOString()
+
+  const findReservation = async (
+    payload: Payload,
+    transactionId: number | string,
+    req?: PayloadRequest,
+  ): Promise<ReservationDoc | undefined> => {
+    const results = await payload.find({
+      collection: slug as 'transactions',
+      where: {
+        transaction: {
+          equals: transactionId,
+        },
+      },
+      limit: 1,
+      depth: 0,
+      req,
+    })
+    return results.docs[0] as unknown as ReservationDoc | undefined
+  }
+
+  const findShortages: SveaInventoryReservations['findShortages'] = async (
+    payload,
+    items,
+    excludeTransactionId,
+  ) => {
+    const requested = new Map<string, SveaReservationShortage>()
+    for (const item of items) {
+      const key = getStockKey(item)
+      const entry = requested.get(key)
+      requested.set(key, {
+        product: item.product,
+        ...(item.variant ? { variant: item.variant } : {}),
+        requested: (entry?.requested || 0) + item.quantity,
+        available: 0,
+      })
+    }
+
+    if (requested.size === 0) return []
+
+    // Stock held by other checkouts
+    const active = await payload.find({
+      collection: slug as 'transactions',
+      where: {
+        and: [
+          { status: { equals: 'active' } },
+          { expiresAt: { greater_than: new Date().toISOString() } },
+          ...(excludeTransactionId !== undefined
+            ? [{ transaction: { not_equals: excludeTransactionId } }]
+            : []),
+        ],
+      },
+      pagination: false,
+      depth: 0,
+    })
+
+    const held = new Map<string, number>()
+    for (const doc of active.docs as unknown as ReservationDoc[]) {
+      for (const item of doc.items || []) {
+        const key = getStockKey(item)
+        held.set(key, (held.get(key) || 0) + item.quantity)
+      }
+    }
+
+    const shortages: SveaReservationShortage[] = []
+    for (const [key, entry] of requested) {
+      const doc = await payload
+        .findByID({
+          collection: (entry.variant ? variantsSlug : productsSlug) as 'products',
+          id: entry.variant ?? entry.product,
+          depth: 0,
+        })
+        .catch(() => null)
+
+      if (!doc) {
+        shortages.push(entry)
+        continue
+      }
+
+      const inventory = getSveaInventory(
+        doc as Record<string, unknown>,
+        inventoryField,
+      )
+      // Untracked stock is never short
+      if (inventory === undefined) continue
+
+      const available = Math.max(0, inventory - (held.get(key) || 0))
+      if (available < entry.requested) {
+        shortages.push({ ...entry, available })
+      }
+    }
+
+    return shortages
+  }
+
+  const reserve: SveaInventoryReservations['reserve'] = async (
+    payload,
+    { transactionId, sveaOrderId, items },
+  ) => {
+    const existing = await findReservation(payload, transactionId)
+    if (existing?.status === 'committed') return
+
+    const shortages = await findShortages(payload, items, transactionId)
+    if (shortages.length > 0) {
+      payload.logger.warn(
+        { transactionId, shortages },
+        'Not enough inventory to reserve',
+      )
+      throw new SveaOutOfStockError(
+        `Not enough inventory for ${describeSveaShortages(shortages)}.`,
+        { shortages },
+      )
+    }
+
+    const data = {
+      transaction: transactionId,
+      ...(sveaOrderId ? { sveaOrderId } : {}),
+      status: 'active',
+      expiresAt: getExpiresAt(),
+      items: items.map((item) => ({
+        product: String(item.product),
+        variant: item.variant ? String(item.variant) : null,
+        quantity: item.quantity,
+      })),
+    }
+
+    if (existing) {
+      await payload.update({
+        id: existing.id,
+        collection: slug as 'transactions',
+        data: data as Record<string, unknown>,
+      })
+    } else {
+      await payload.create({
+        collection: slug as 'transactions',
+        data: data as Record<string, unknown>,
+      })
+    }
+
+    payload.logger.info(
+      { transactionId, sveaOrderId, items: items.length },
+      'Reserved inventory for Svea checkout',
+    )
+  }
+
+  const extend: SveaInventoryReservations['extend'] = async (
+    payload,
+    transactionId,
+  ) => {
+    const existing = await findReservation(payload, transactionId)
+    if (!existing || existing.status === 'committed') return []
+
+    const lapsed =
+      existing.status !== 'active' ||
+      new Date(existing.expiresAt).getTime() <= Date.now()
+
+    if (lapsed) {
+      const shortages = await findShortages(
+        payload,
+        toSveaReservationItems(existing.items || []),
+        transactionId,
+      )
+      if (shortages.length > 0) return shortages
+    }
+
+    await payload.update({
+      id: existing.id,
+      collection: slug as 'transactions',
+      data: {
+        status: 'active',
+        expiresAt: getExpiresAt(),
+      } as Record<string, unknown>,
+    })
+
+    return []
+  }
+
+  const commit: SveaInventoryReservations['commit'] = async (
+    payload,
+    transactionId,
+    req,
+  ) => {
+    const existing = await findReservation(payload, transactionId, req)
+    if (!existing || existing.status === 'committed') return
+
+    for (const item of existing.items || []) {
+      const collection = (item.variant ? variantsSlug : productsSlug) as 'products'
+      const id = item.variant || item.product
+
+      const doc = await payload
+        .findByID({ collection, id, depth: 0, req })
+        .catch(() => null)
+      // Deleted products and untracked stock have nothing to deduct
+      if (
+        !doc ||
+        getSveaInventory(doc as Record<string, unknown>, inventoryField) ===
+          undefined
+      ) {
+        continue
+      }
+
+      await payload.db.updateOne({
+        collection,
+        id,
+        data: buildInventoryIncrement(inventoryField, -item.quantity),
+        req,
+      })
+    }
+
+    await payload.update({
+      id: existing.id,
+      collection: slug as 'transactions',
+      data: { status: 'committed' } as Record<string, unknown>,
+      req,
+    })
+
+    payload.logger.info(
+      { transactionId, items: existing.items?.length || 0 },
+      'Committed inventory reservation',
+    )
+  }
+
+  const release: SveaInventoryReservations['release'] = async (
+    payload,
+    transactionId,
+    status = 'released',
+  ) => {
+    const existing = await findReservation(payload, transactionId)
+    if (!existing || existing.status !== 'active') return
+
+    await payload.update({
+      id: existing.id,
+      collection: slug as 'transactions',
+      data: { status } as Record<string, unknown>,
+    })
+
+    payload.logger.info(
+      { transactionId, status },
+      'Released inventory reservation',
+    )
+  }
+
+  const releaseExpired: SveaInventoryReservations['releaseExpired'] = async (
+    payload,
+  ) => {
+    const result = await payload.update({
+      collection: slug as 'transactions',
+      where: {
+        and: [
+          { status: { equals: 'active' } },
+          { expiresAt: { less_than_equal: new Date().toISOString() } },
+        ],
+      },
+      data: { status: 'expired' } as Record<string, unknown>,
+    })
+
+    if (result.docs.length > 0) {
+      payload.logger.info(
+        { count: result.docs.length },
+        'Expired inventory reservations',
+      )
+    }
+
+    return result.docs.length
+  }
+
+  return {
+    findShortages,
+    reserve,
+    extend,
+    commit,
+    release,
+    releaseExpired,
+  }
+}
@@ -0,0 +1,99 @@
+import { calculateSveaOrderTotal, getSveaOrderRows } from './order-rows'
+import type {
+  SveaCartAdjustmentContext,
+  SveaOrder,
+  SveaOrderRow,
+  SveaShippingDetails,
+  SveaShippingInformation,
+  SveaShippingOptions,
+} from './types'
+
+/**
+ * Whether an order row is the shipping fee Svea added for the chosen
+ * shipping option
+ */
+export function isSveaShippingRow(row: SveaOrderRow): boolean {
+  return row.rowType?.toLowerCase() === 'shippingfee'
+}
+
+/**
+ * Whether a transaction already stores its shipping, and with it an
+ * amount that includes the fee
+ */
+export function hasSveaShippingRecorded(
+  transaction: Record<string, unknown>,
+): boolean {
+  const sveaData = (transaction.svea || {}) as {
+    shipping?: { fee?: unknown } | null
+  }
+  return typeof sveaData.shipping?.fee === 'number'
+}
+
+/**
+ * Builds the `shippingInformation` enabling embedded shipping for a cart
+ */
+export function buildSveaShippingInformation(
+  options: SveaShippingOptions,
+  context: SveaCartAdjustmentContext,
+): SveaShippingInformation {
+  const { enforceFallback, weight, tags, fallbackOptions } = options
+
+  const resolvedWeight = typeof weight === 'function' ? weight(context) : weight
+  const resolvedTags = typeof tags === 'function' ? tags(context) : tags
+
+  return {
+    enableShipping: true,
+    ...(enforceFallback !== undefined ? { enforceFallback } : {}),
+    ...(typeof resolvedWeight === 'number'
+      ? { weight: Math.round(resolvedWeight) }
+      : {}),
+    ...(resolvedTags && Object.keys(resolvedTags).length > 0
+      ? { tags: resolvedTags }
+      : {}),
+    ...(fallbackOptions?.length ? { fallbackOptions } : {}),
+  }
+}
+
+/**
+ * Reads the shipping the customer chose in the checkout. The fee is the
+ * total of Svea's shipping rows, or the option's price when the order has
+ * none. Returns `undefined` for orders without embedded shipping.
+ */
+export function getSveaShippingDetails(
+  order: SveaOrder,
+): SveaShippingDetails | undefined {
+  const shipping = (order.Shipping ||
+    (order as unknown as Record<string, unknown>).shipping) as
+    | Record<string, unknown>
+    | undefined
+  const shippingRows = getSveaOrderRows(order).filter(isSveaShippingRow)
+
+  if (!shipping && shippingRows.length === 0) return undefined
+
+  const location = (shipping?.location ?? shipping?.Location) as
+    | Record<string, unknown>
+    | undefined
+  const text = (value: unknown) =>
+    value === undefined || value === null || value === ''
+      ? undefined
+      : String(value)
+
+  const fee =
+    shippingRows.length > 0
+      ? calculateSveaOrderTotal(shippingRows)
+      : Number(shipping?.price ?? shipping?.Price ?? 0)
+
+  const details: SveaShippingDetails = {
+    carrier: text(shipping?.carrier ?? shipping?.Carrier),
+    name: text(shipping?.name ?? shipping?.Name ?? shippingRows[0]?.name),
+    optionId: text(shipping?.id ?? shipping?.Id),
+    postalCode: text(shipping?.postalCode ?? shipping?.PostalCode),
+    pickupPointId: text(location?.id ?? location?.Id),
+    pickupPointName: text(location?.name ?? location?.Name),
+    fee: Number.isFinite(fee) ? fee : 0,
+  }
+
+  return Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== undefined),
+  ) as unknown as SveaShippingDetails
+}
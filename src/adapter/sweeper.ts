@@ -0,0 +1,333 @@
+import type { Payload, TaskConfig } from 'payload'
+
+import type { SveaCheckoutClient } from './checkout-client'
+import { SVEA_API_URLS } from './checkout-client'
+import { SveaApiError } from './errors'
+import { createSveaEventLog, withSveaEventLog } from './event-log'
+import { finalizeSveaOrder } from './finalize-order'
+import {
+  createSveaMerchantClients,
+  getSveaMerchantProfileName,
+} from './merchant-profiles'
+import {
+  createSveaAmountMismatch,
+  reconcileSveaOrderAmount,
+  recordSveaAmountMismatch,
+} from './reconciliation'
+import { createSveaInventoryReservations } from './reservations'
+import type {
+  SveaAdapterConfig,
+  SveaAmountMismatchPolicy,
+  SveaEventLog,
+  SveaInventoryReservations,
+  SveaMerchantClients,
+  SveaOrder,
+  SveaSweepEntry,
+  SveaSweepOptions,
+  SveaSweepResult,
+  SveaSweepTaskOptions,
+} from './types'
+
+/** Default slug of the sweeper's jobs task */
+export const SVEA_SWEEP_TASK_SLUG = 'sveaSweepPendingTransactions'
+
+/**
+ * Whether a Svea API error means the order does not exist (any more)
+ */
+function isSveaOrderNotFound(error: unknown): boolean {
+  return error instanceof SveaApiError && error.status === 404
+}
+
+/**
+ * Finds stale pending Svea transactions and settles them with the state
+ * of their Svea order:
+ *
+ * - `Final` orders are finalized like a push notification would
+ * - `Cancelled` orders mark the transaction `failed`
+ * - Orders still `Created` after `expireAfterMinutes`, or gone from
+ *   Svea, mark the transaction `expired`
+ *
+ * Inventory reserved for failed and expired transactions is released.
+ * Carts need no release: a checkout never locks its cart, and only
+ * finalizing marks it purchased. Transactions held for an amount
+ * mismatch are skipped until resolved by hand. A failing transaction is
+ * reported and the sweep moves on.
+ */
+export async function sweepSveaPendingTransactions({
+  payload,
+  checkoutClient,
+  merchants,
+  olderThanMinutes = 60,
+  expireAfterMinutes = 48 * 60,
+  limit = 100,
+  onMismatch = 'review',
+  amountTolerance = 0,
+  collections = {},
+  reservations,
+  eventLog,
+}: SveaSweepOptions & {
+  payload: Payload
+  checkoutClient: SveaCheckoutClient
+  /** Clients per merchant profile, used for transactions storing one */
+  merchants?: SveaMerchantClients
+  onMismatch?: SveaAmountMismatchPolicy
+  amountTolerance?: number
+  collections?: SveaAdapterConfig['collections']
+  reservations?: SveaInventoryReservations
+  eventLog?: SveaEventLog
+}): Promise<SveaSweepResult> {
+  const transactionsSlug = collections.transactions || 'transactions'
+  const now = Date.now()
+
+  const stale = await payload.find({
+    collection: transactionsSlug as 'transactions',
+    where: {
+      and: [
+        { paymentMethod: { equals: 'svea' } },
+        { status: { equals: 'pending' } },
+        // Rejected mismatches wait for review instead of being re-fetched
+        // on every run, crowding out newer transactions
+        { 'svea.amountMismatch.resolution': { exists: false } },
+        {
+          createdAt: {
+            less_than: new Date(
+              now - olderThanMinutes * 60 * 1000,
+            ).toISOString(),
+          },
+        },
+      ],
+    },
+    sort: 'createdAt',
+    limit,
+    depth: 0,
+  })
+
+  const setStatus = async (
+    transactionId: number | string,
+    status: 'failed' | 'expired',
+  ) => {
+    await payload.update({
+      id: transactionId,
+      collection: transactionsSlug as 'transactions',
+      data: { status } as Record<string, unknown>,
+    })
+    await reservations?.release(
+      payload,
+      transactionId,
+      status === 'expired' ? 'expired' : 'released',
+    )
+  }
+
+  const entries: SveaSweepEntry[] = []
+
+  for (const transaction of stale.docs as Record<string, unknown>[]) {
+    const transactionId = transaction.id as number | string
+    const sveaData = (transaction.svea || {}) as { orderId?: number }
+    const entry: SveaSweepEntry = {
+      transactionId,
+      ...(sveaData.orderId ? { sveaOrderId: sveaData.orderId } : {}),
+      outcome: 'pending',
+    }
+    entries.push(entry)
+
+    try {
+      // initiatePayment failed after creating the transaction
+      if (!sveaData.orderId) {
+        await setStatus(transactionId, 'expired')
+        entry.outcome = 'expired'
+        continue
+      }
+
+      const client = withSveaEventLog(
+        merchants?.checkoutClient(getSveaMerchantProfileName(transaction)) ??
+          checkoutClient,
+        eventLog,
+        payload,
+      )
+
+      let sveaOrder: SveaOrder
+      try {
+        sveaOrder = await client.getOrder(sveaData.orderId)
+      } catch (error) {
+        if (!isSveaOrderNotFound(error)) throw error
+        await setStatus(transactionId, 'expired')
+        entry.outcome = 'expired'
+        continue
+      }
+
+      entry.sveaStatus = sveaOrder.Status
+
+      if (sveaOrder.Status === 'Final') {
+        const reconciliation = reconcileSveaOrderAmount(
+          sveaOrder,
+          transaction,
+          amountTolerance,
+        )
+        const amountMismatch = reconciliation.matches
+          ? undefined
+          : createSveaAmountMismatch(reconciliation, onMismatch)
+
+        if (amountMismatch && onMismatch === 'reject') {
+          await recordSveaAmountMismatch(
+            payload,
+            transaction as { id: number | string; svea?: unknown },
+            transactionsSlug,
+            amountMismatch,
+          )
+          entry.outcome = 'review'
+          continue
+        }
+
+        const { orderID } = await finalizeSveaOrder({
+          payload,
+          transactionId,
+          sveaOrder,
+          amountMismatch,
+          ordersSlug: collections.orders,
+          transactionsSlug,
+          cartsSlug: collections.carts,
+          customersSlug: collections.customers,
+          reservations,
+        })
+        entry.outcome = 'finalized'
+        entry.orderID = orderID
+      } else if (sveaOrder.Status === 'Cancelled') {
+        await setStatus(transactionId, 'failed')
+        entry.outcome = 'failed'
+      } else {
+        const createdAt = new Date(transaction.createdAt as string).getTime()
+        if (now - createdAt >= expireAfterMinutes * 60 * 1000) {
+          await setStatus(transactionId, 'expired')
+          entry.outcome = 'expired'
+        }
+      }
+    } catch (error) {
+      entry.outcome = 'error'
+      entry.error = error instanceof Error ? error.message : String(error)
+      payload.logger.error(
+        { transactionId, sveaOrderId: sveaData.orderId, error: entry.error },
+        'Could not sweep pending Svea transaction',
+      )
+    }
+  }
+
+  await reservations?.releaseExpired(payload)
+
+  const count = (outcome: SveaSweepEntry['outcome']) =>
+    entries.filter((entry) => entry.outcome === outcome).length
+
+  const result: SveaSweepResult = {
+    checked: entries.length,
+    finalized: count('finalized'),
+    failed: count('failed'),
+    expired: count('expired'),
+    pending: count('pending'),
+    review: count('review'),
+    errors: count('error'),
+    entries,
+  }
+
+  const { entries: _entries, ...summary } = result
+  payload.logger.info(summary, 'Swept pending Svea transactions')
+
+  return result
+}
+
+/**
+ * Creates a Payload jobs task running `sweepSveaPendingTransactions`
+ *
+ * @example
+ * ```ts
+ * export default buildConfig({
+ *   jobs: {
+ *     tasks: [
+ *       createSveaSweepTask({
+ *         merchantId: process.env.SVEA_MERCHANT_ID!,
+ *         secretKey: process.env.SVEA_SECRET_KEY!,
+ *         schedule: [{ cron: '0 * * * *', queue: 'default' }],
+ *       }),
+ *     ],
+ *   },
+ * })
+ * ```
+ */
+export function createSveaSweepTask(
+  options: SveaSweepTaskOptions,
+): TaskConfig<{ input: SveaSweepOptions; output: SveaSweepResult }> {
+  const {
+    slug = SVEA_SWEEP_TASK_SLUG,
+    schedule,
+    merchantId,
+    secretKey,
+    checkoutApiUrl = process.env.SVEA_CHECKOUT_API_URL || SVEA_API_URLS.staging,
+    merchants: merchantProfiles,
+    http,
+    collections = {},
+    reservations: reservationsConfig = false,
+    eventLog: eventLogEnabled = false,
+    ...sweepOptions
+  } = options
+
+  const merchants = createSveaMerchantClients({
+    merchantId,
+    secretKey,
+    checkoutApiUrl,
+    merchants: merchantProfiles,
+    http,
+  })
+
+  const reservations = reservationsConfig
+    ? createSveaInventoryReservations({
+        ...(reservationsConfig === true ? {} : reservationsConfig),
+        slug: collections.reservations,
+        productsSlug: collections.products,
+        variantsSlug: collections.variants,
+      })
+    : undefined
+
+  const eventLog = eventLogEnabled
+    ? createSveaEventLog({
+        slug: collections.events,
+        transactionsSlug: collections.transactions,
+      })
+    : undefined
+
+  return {
+    slug,
+    label: 'Sweep pending Svea transactions',
+    ...(schedule ? { schedule } : {}),
+    inputSchema: [
+      { name: 'olderThanMinutes', type: 'number' },
+      { name: 'expireAfterMinutes', type: 'number' },
+      { name: 'limit', type: 'number' },
+    ],
+    outputSchema: [
+      { name: 'checked', type: 'number' },
+      { name: 'finalized', type: 'number' },
+      { name: 'failed', type: 'number' },
+      { name: 'expired', type: 'number' },
+      { name: 'pending', type: 'number' },
+      { name: 'review', type: 'number' },
+      { name: 'errors', type: 'number' },
+      { name: 'entries', type: 'json' },
+    ],
+    handler: async ({ input, req }) => {
+      const output = await sweepSveaPendingTransactions({
+        ...sweepOptions,
+        // Job input overrides the task defaults; unset fields are null
+        ...Object.fromEntries(
+          Object.entries(input || {}).filter(
+            ([, value]) => value !== null && value !== undefined,
+          ),
+        ),
+        payload: req.payload,
+        checkoutClient: merchants.checkoutClient(),
+        merchants,
+        collections,
+        reservations,
+        eventLog,
+      })
+      return { output }
+    },
+  }
+}
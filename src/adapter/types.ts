@@ -1,3 +1,9 @@
+import type { PaymentAdapter } from '@payloadcms/plugin-ecommerce/types'
+import type { Payload, PayloadRequest, TaskConfig } from 'payload'
+
+import type { SveaPaymentAdminClient } from './admin-client'
+import type { SveaCheckoutClient } from './checkout-client'
+
 /**
  * Svea Address object (supports both camelCase and PascalCase from Svea API)
  */
@@ -47,6 +53,10 @@ export interface SveaOrderRow {
   discountAmount?: number
   /** Optional product ID */
   productId?: string
+  /** Optional article number (SKU) */
+  articleNumber?: string
+  /** Set by Svea on rows it adds, e.g. `ShippingFee` for embedded shipping */
+  rowType?: string
 }
 
 /**
@@ -104,6 +114,63 @@ export interface SveaShippingInformation {
   shippingFee?: number
   freeShippingIfItemsInCart?: boolean
   shippingMethod?: string
+  /** Let the customer choose carrier and pickup point in the checkout */
+  enableShipping?: boolean
+  /** Only offer the fallback options */
+  enforceFallback?: boolean
+  /** Order weight in grams */
+  weight?: number
+  /** Tags matched by the shipping rules configured at Svea */
+  tags?: Record<string, string>
+  /** Options offered when the shipping provider cannot be reached */
+  fallbackOptions?: SveaShippingFallbackOption[]
+}
+
+/**
+ * Shipping option offered when the shipping provider cannot be reached
+ */
+export interface SveaShippingFallbackOption {
+  id: string
+  carrier: string
+  name: string
+  /** Price including VAT in minor units */
+  price: number
+}
+
+/**
+ * Shipping chosen by the customer in the checkout
+ * (supports both camelCase and PascalCase from Svea API)
+ */
+export interface SveaShippingSelection {
+  id?: string
+  carrier?: string
+  name?: string
+  price?: number
+  postalCode?: string
+  location?: { id?: string; name?: string }
+  // PascalCase variants from Svea API
+  Id?: string
+  Carrier?: string
+  Name?: string
+  Price?: number
+  PostalCode?: string
+  Location?: { Id?: string; Name?: string }
+}
+
+/**
+ * Shipping details stored on the transaction and order
+ */
+export interface SveaShippingDetails {
+  carrier?: string
+  /** Name of the chosen shipping option */
+  name?: string
+  /** ID of the chosen shipping option */
+  optionId?: string
+  postalCode?: string
+  pickupPointId?: string
+  pickupPointName?: string
+  /** Shipping fee including VAT in minor units */
+  fee: number
 }
 
 /**
@@ -136,7 +203,7 @@ export interface SveaGui {
 }
 
 /**
- * Svea Customer object
+ * Svea Customer object (supports both camelCase and PascalCase from Svea API)
  */
 export interface SveaCustomer {
   emailAddress?: string
@@ -144,6 +211,26 @@ export interface SveaCustomer {
   nationalId?: string
   isCompany?: boolean
   companyName?: string
+  // PascalCase variants from Svea API
+  EmailAddress?: string
+  PhoneNumber?: string
+  NationalId?: string
+  IsCompany?: boolean
+  CompanyName?: string
+}
+
+/**
+ * Company and invoice reference details of a business purchase
+ */
+export interface SveaCompanyDetails {
+  name?: string
+  /** Organization number, sent by Svea as the customer's national ID */
+  organizationNumber?: string
+  /** "Your reference" entered by the buyer */
+  customerReference?: string
+  /** Peppol ID for e-invoicing */
+  peppolId?: string
+  billingReferences?: Array<{ reference: string }>
 }
 
 /**
@@ -180,6 +267,8 @@ export interface SveaOrder {
   PeppolId?: string
   MerchantData?: string
   ShippingInformation?: SveaShippingInformation
+  /** Shipping chosen in the checkout when embedded shipping is enabled */
+  Shipping?: SveaShippingSelection
   Recurring?: boolean | null
   RecurringToken?: string | null
   BillingReferences?: Array<{
@@ -197,20 +286,1227 @@ export interface GetSveaOrderResponse extends SveaOrder {}
  */
 export interface CreateSveaOrderResponse extends SveaOrder {}
 
+/**
+ * Request body for PUT /api/orders/{orderId}
+ */
+export interface UpdateSveaOrderRequest {
+  cart: SveaCart
+  merchantData?: string
+  shippingInformation?: SveaShippingInformation
+}
+
+/**
+ * Response from PUT /api/orders/{orderId}
+ */
+export interface UpdateSveaOrderResponse extends SveaOrder {}
+
+/**
+ * Request body for POST /api/tokens/{token}/orders
+ */
+export interface CreateSveaTokenOrderRequest {
+  currency: string
+  clientOrderNumber: string
+  cart: SveaCart
+  partnerKey?: string
+  merchantData?: string
+}
+
+/**
+ * Response from POST /api/tokens/{token}/orders
+ */
+export interface CreateSveaTokenOrderResponse {
+  OrderId: number
+  Status?: string
+}
+
+/**
+ * `fetch` implementation used for outbound Svea API calls
+ */
+export type SveaFetch = typeof fetch
+
+/**
+ * An outbound Svea API call, reported to `onApiCall` listeners.
+ * Auth headers are never included.
+ */
+export interface SveaApiCall {
+  method: string
+  url: string
+  requestBody?: unknown
+  /** HTTP status, missing when the request failed before a response */
+  status?: number
+  responseBody?: unknown
+  error?: string
+  durationMs: number
+}
+
+/**
+ * Listener called after every Svea API call
+ */
+export type SveaApiCallListener = (call: SveaApiCall) => void | Promise<void>
+
+/**
+ * Retry policy for GET requests to Svea
+ */
+export interface SveaRetryOptions {
+  /**
+   * Attempts per call, including the first
+   * @default 3
+   */
+  attempts?: number
+  /**
+   * Delay before the first retry in milliseconds, doubled for every
+   * further retry
+   * @default 200
+   */
+  baseDelayMs?: number
+  /**
+   * Longest delay between two attempts in milliseconds
+   * @default 2000
+   */
+  maxDelayMs?: number
+}
+
+/**
+ * Options for `createSveaCircuitBreaker`
+ */
+export interface SveaCircuitBreakerOptions {
+  /**
+   * Consecutive failed calls (network errors, timeouts, 5xx) that open
+   * the circuit
+   * @default 5
+   */
+  failureThreshold?: number
+  /**
+   * Milliseconds the circuit stays open before a single trial call is let
+   * through
+   * @default 30000
+   */
+  resetTimeoutMs?: number
+}
+
+/**
+ * `closed` lets calls through, `open` fails them fast and `halfOpen`
+ * lets one trial call decide between the two
+ */
+export type SveaCircuitState = 'closed' | 'open' | 'halfOpen'
+
+/**
+ * Tracks failed Svea calls and fails further calls fast while Svea is
+ * unavailable. Share one instance between the clients of an API.
+ */
+export interface SveaCircuitBreaker {
+  readonly state: SveaCircuitState
+  /** When an open circuit lets the next trial call through */
+  readonly retryAt: Date | undefined
+  /** Whether a call may be sent now; claims the trial call when half-open */
+  tryAcquire: () => boolean
+  /** Records a call Svea answered, closing the circuit */
+  recordSuccess: () => void
+  /** Records a network error, timeout or 5xx response */
+  recordFailure: () => void
+  /** Closes the circuit and forgets earlier failures */
+  reset: () => void
+}
+
+/**
+ * Timeouts, retries and circuit breaking for outbound Svea calls
+ */
+export interface SveaHttpOptions {
+  /**
+   * Milliseconds before an attempt is aborted, covering the response body.
+   * `0` waits indefinitely.
+   * @default 15000
+   */
+  timeoutMs?: number
+  /**
+   * Retry GET requests after network errors, timeouts, 429 and 5xx
+   * responses. Other methods are never retried, as Svea may have acted
+   * on a request that failed on its way back.
+   * @default { attempts: 3 }
+   */
+  retry?: false | SveaRetryOptions
+  /**
+   * Fail calls fast after repeated failures instead of waiting for each
+   * to time out. One circuit is kept for the Checkout API and one for the
+   * Payment Admin API.
+   * @default false
+   */
+  circuitBreaker?: boolean | SveaCircuitBreakerOptions
+}
+
+/**
+ * Options shared by the Svea error classes
+ */
+export interface SveaErrorOptions {
+  /** Message safe to show to customers; defaults per error class */
+  customerMessage?: string
+  /** Error that caused this one */
+  cause?: unknown
+}
+
+/**
+ * Configuration for the Svea Checkout API client
+ */
+export interface SveaCheckoutClientConfig {
+  /** Svea Merchant ID */
+  merchantId: string
+  /** Svea Secret Key */
+  secretKey: string
+  /** Svea Checkout API URL (defaults to staging) */
+  checkoutApiUrl?: string
+  /** Custom fetch implementation (defaults to global fetch) */
+  fetch?: SveaFetch
+  /** Called after every API call, e.g. to write an event log */
+  onApiCall?: SveaApiCallListener
+  /**
+   * Milliseconds before an attempt is aborted
+   * @default 15000
+   */
+  timeoutMs?: number
+  /**
+   * Retry policy for GET requests; `false` disables retries
+   * @default { attempts: 3 }
+   */
+  retry?: false | SveaRetryOptions
+  /** Circuit breaker shared with the API's other clients */
+  circuitBreaker?: SveaCircuitBreaker
+}
+
+/**
+ * Order row as returned by the Svea Payment Admin API
+ */
+export interface SveaAdminOrderRow {
+  OrderRowId: number
+  ArticleNumber?: string
+  Name: string
+  /** Quantity in minor units (e.g., 100 = 1 unit) */
+  Quantity: number
+  /** Unit price in minor units */
+  UnitPrice: number
+  /** Discount percent in minor units */
+  DiscountPercent?: number
+  /** VAT percent in minor units */
+  VatPercent: number
+  IsCancelled?: boolean
+  Actions?: string[]
+}
+
+/**
+ * Credit made against a delivery in the Svea Payment Admin API
+ */
+export interface SveaAdminCredit {
+  Amount: number
+  OrderRows?: SveaAdminOrderRow[]
+  Actions?: string[]
+}
+
+/**
+ * Delivery (capture) of a Svea order in the Payment Admin API
+ */
+export interface SveaAdminDelivery {
+  Id: number
+  CreationDate?: string
+  InvoiceId?: number | null
+  /** Delivered amount in minor units */
+  DeliveryAmount: number
+  /** Credited amount in minor units */
+  CreditedAmount: number
+  Credits?: SveaAdminCredit[]
+  OrderRows?: SveaAdminOrderRow[]
+  Actions?: string[]
+  Status?: string
+}
+
+/**
+ * Response from GET /api/v1/orders/{orderId} in the Payment Admin API
+ */
+export interface SveaAdminOrder {
+  Id: number
+  Currency: string
+  MerchantOrderId?: string
+  OrderStatus: string
+  PaymentType?: string
+  /** Total order amount in minor units */
+  OrderAmount: number
+  /** Cancelled amount in minor units */
+  CancelledAmount?: number
+  Deliveries?: SveaAdminDelivery[]
+  OrderRows?: SveaAdminOrderRow[]
+  Actions?: string[]
+}
+
+/**
+ * Response from POST /api/v1/orders/{orderId}/deliveries
+ */
+export interface DeliverSveaOrderResponse {
+  DeliveryId?: number
+}
+
+/**
+ * Response from POST /api/v1/orders/{orderId}/deliveries/{deliveryId}/credits
+ */
+export interface CreditSveaOrderResponse {
+  CreditId?: number
+}
+
+/**
+ * Configuration for the Svea Payment Admin API client
+ */
+export interface SveaPaymentAdminClientConfig {
+  /** Svea Merchant ID */
+  merchantId: string
+  /** Svea Secret Key */
+  secretKey: string
+  /** Svea Payment Admin API URL (defaults to staging) */
+  paymentAdminApiUrl?: string
+  /** Custom fetch implementation (defaults to global fetch) */
+  fetch?: SveaFetch
+  /** Called after every API call, e.g. to write an event log */
+  onApiCall?: SveaApiCallListener
+  /**
+   * Milliseconds before an attempt is aborted
+   * @default 15000
+   */
+  timeoutMs?: number
+  /**
+   * Retry policy for GET requests; `false` disables retries
+   * @default { attempts: 3 }
+   */
+  retry?: false | SveaRetryOptions
+  /** Circuit breaker shared with the API's other clients */
+  circuitBreaker?: SveaCircuitBreaker
+}
+
+/**
+ * Svea merchant account used for checkouts in some markets
+ */
+export interface SveaMerchantProfile {
+  /** Key stored on transactions, e.g. `'se'`. Must stay stable. */
+  name: string
+  merchantId: string
+  secretKey: string
+  /** ISO 3166-1 alpha-2 country codes served. Omit to match any country. */
+  countries?: string[]
+  /** ISO 4217 currency codes served. Omit to match any currency. */
+  currencies?: string[]
+  /** Defaults to the adapter's `checkoutApiUrl` */
+  checkoutApiUrl?: string
+  /** Defaults to the adapter's `paymentAdminApiUrl` */
+  paymentAdminApiUrl?: string
+}
+
+/**
+ * Signed API clients per merchant profile
+ */
+export interface SveaMerchantClients {
+  /** Name of the profile serving a checkout's country and currency */
+  select: (market: { countryCode?: string; currency?: string }) => string
+  /** Checkout API client of a profile; the default profile when omitted */
+  checkoutClient: (profile?: string | null) => SveaCheckoutClient
+  /** Payment Admin API client of a profile; the default profile when omitted */
+  adminClient: (profile?: string | null) => SveaPaymentAdminClient
+}
+
+/**
+ * Payment Admin state of a Svea order, as stored on the transaction
+ */
+export type SveaAdminStatus =
+  | 'open'
+  | 'partiallyDelivered'
+  | 'delivered'
+  | 'partiallyCredited'
+  | 'credited'
+  | 'partiallyCancelled'
+  | 'cancelled'
+
+/**
+ * Common arguments for capture, refund and cancel helpers
+ */
+export interface SveaAdminActionArgs {
+  payload: Payload
+  /** ID of the Svea transaction created by `initiatePayment` */
+  transactionId: number | string
+  /** Transactions collection slug (defaults to the adapter config) */
+  transactionsSlug?: string
+}
+
+/**
+ * Arguments for `captureOrder`
+ */
+export interface SveaCaptureOrderArgs extends SveaAdminActionArgs {
+  /** Payment Admin order row IDs to deliver. Omit to deliver all rows. */
+  orderRowIds?: number[]
+}
+
+/**
+ * Arguments for `refundOrder`
+ */
+export interface SveaRefundOrderArgs extends SveaAdminActionArgs {
+  /** Delivery to credit (defaults to the latest delivery) */
+  deliveryId?: number
+  /** Payment Admin order row IDs to credit */
+  orderRowIds?: number[]
+  /** Amount in minor units to credit. Defaults to the remaining delivered amount. */
+  amount?: number
+}
+
+/**
+ * Arguments for `cancelOrder`
+ */
+export interface SveaCancelOrderArgs extends SveaAdminActionArgs {
+  /** Amount in minor units to cancel. Omit to cancel the whole order. */
+  amount?: number
+}
+
+/**
+ * Result of a capture, refund or cancel helper
+ */
+export interface SveaAdminActionResult {
+  message: string
+  transactionID: number | string
+  adminStatus: SveaAdminStatus
+  /** Delivered amount in minor units */
+  deliveredAmount: number
+  /** Credited amount in minor units */
+  creditedAmount: number
+  /** Cancelled amount in minor units */
+  cancelledAmount: number
+}
+
+/**
+ * Payment Admin helpers exposed on the Svea adapter
+ */
+export interface SveaAdminActions {
+  /** Delivers (captures) the order linked to a transaction */
+  captureOrder: (args: SveaCaptureOrderArgs) => Promise<SveaAdminActionResult>
+  /** Credits (refunds) rows or an amount of a delivered order */
+  refundOrder: (args: SveaRefundOrderArgs) => Promise<SveaAdminActionResult>
+  /** Cancels the order, or an amount of it, before delivery */
+  cancelOrder: (args: SveaCancelOrderArgs) => Promise<SveaAdminActionResult>
+}
+
+/**
+ * Arguments for `updateCheckout`
+ */
+export interface SveaUpdateCheckoutArgs {
+  req: PayloadRequest
+  /** Transaction created by `initiatePayment` */
+  transactionId?: number | string
+  /** Svea order ID, used when no transaction ID is given */
+  sveaOrderId?: number | string
+  /**
+   * Token returned by `initiatePayment`. Required unless `req.user` is the
+   * customer of the transaction.
+   */
+  checkoutToken?: string
+  /** Transactions collection slug (defaults to the adapter config) */
+  transactionsSlug?: string
+  /** Carts collection slug (defaults to the adapter config) */
+  cartsSlug?: string
+}
+
+/**
+ * Result of `updateCheckout`
+ */
+export interface SveaUpdateCheckoutResult {
+  message: string
+  orderId: number
+  transactionId: number | string
+  /** New transaction amount in major units */
+  amount: number
+  checkoutSnippet?: string
+}
+
+/**
+ * Payment adapter returned by `sveaAdapter`
+ */
+export type SveaPaymentAdapter = PaymentAdapter &
+  SveaAdminActions & {
+    /**
+     * Sends the current cart of a pending transaction to its Svea order
+     * while the order is still `Created`
+     */
+    updateCheckout: (
+      args: SveaUpdateCheckoutArgs,
+    ) => Promise<SveaUpdateCheckoutResult>
+    /**
+     * Resolves stale pending transactions against their Svea orders
+     */
+    sweepPendingTransactions: (
+      args: { payload: Payload } & SveaSweepOptions,
+    ) => Promise<SveaSweepResult>
+    /**
+     * Compares transactions in a time window with Svea and repairs
+     * divergences
+     */
+    reconcileTransactions: (
+      args: { payload: Payload } & SveaReconciliationOptions,
+    ) => Promise<SveaReconciliationResult>
+    /**
+     * Charges a stored recurring token for a new order without a checkout
+     */
+    chargeRecurringToken: (
+      args: { payload: Payload } & SveaRecurringChargeArgs,
+    ) => Promise<SveaRecurringChargeResult>
+  }
+
+/**
+ * Cart item as found in `cart.items` of the ecommerce plugin
+ */
+export interface SveaCartItem {
+  product?: number | string | Record<string, unknown> | null
+  variant?: number | string | Record<string, unknown> | null
+  quantity: number
+  id?: string | null
+}
+
+/**
+ * Context passed to the order row resolvers for each cart item
+ */
+export interface SveaOrderRowContext {
+  item: SveaCartItem
+  /** Populated product document */
+  product: Record<string, unknown>
+  /** Populated variant document, if the item has one */
+  variant: Record<string, unknown> | null
+  /** Upper-case ISO 4217 currency code of the payment */
+  currency: string
+  /** Position of the item in the cart */
+  index: number
+}
+
+/**
+ * Hooks for resolving Svea order row values from cart items.
+ * Returning `undefined` falls back to the built-in resolver.
+ */
+export interface SveaOrderRowResolvers {
+  /** Unit price in major units (e.g., 199.90) */
+  resolvePrice?: (context: SveaOrderRowContext) => number | null | undefined
+  /** VAT percent (e.g., 25 for 25%) */
+  resolveVatPercent?: (
+    context: SveaOrderRowContext,
+  ) => number | null | undefined
+  /** Row name shown in the Svea checkout */
+  resolveRowName?: (context: SveaOrderRowContext) => string | null | undefined
+  /** Article number (SKU) sent with the row */
+  resolveArticleNumber?: (
+    context: SveaOrderRowContext,
+  ) => string | null | undefined
+}
+
+/**
+ * Context passed to the shipping, discount and fee resolvers
+ */
+export interface SveaCartAdjustmentContext {
+  /** Cart passed to `initiatePayment` */
+  cart: Record<string, unknown>
+  /** Upper-case ISO 4217 currency code of the payment */
+  currency: string
+  /** Product rows mapped from the cart items */
+  productRows: SveaOrderRow[]
+}
+
+/**
+ * Shipping cost or fixed fee added as its own order row
+ */
+export interface SveaChargeRow {
+  name: string
+  /** Amount including VAT in major units (e.g., 49.00) */
+  amount: number
+  /** VAT percent (e.g., 25). Defaults to `defaultVatPercent`. */
+  vatPercent?: number
+  articleNumber?: string
+}
+
+/**
+ * Discount sent to Svea, either as a negative row (`amount`) or as a
+ * `discountPercent` on every product row (`percent`)
+ */
+export interface SveaDiscountRow {
+  name: string
+  /** Discount including VAT in major units, sent as a negative row */
+  amount?: number
+  /** Percent discount (e.g., 10 for 10%) applied to each product row */
+  percent?: number
+  /** VAT percent for amount discounts. Defaults to `defaultVatPercent`. */
+  vatPercent?: number
+  articleNumber?: string
+}
+
+/**
+ * Hooks for adding shipping, discount and fee rows to the Svea order
+ */
+export interface SveaCartAdjustmentResolvers {
+  /**
+   * Shipping row for the cart. Defaults to reading a populated
+   * `cart.shippingMethod` with a `priceIn<CURRENCY>` or `price` field.
+   */
+  resolveShipping?: (
+    context: SveaCartAdjustmentContext,
+  ) => SveaChargeRow | null | undefined
+  /** Discount lines for the cart (coupons, promotions) */
+  resolveDiscounts?: (
+    context: SveaCartAdjustmentContext,
+  ) => SveaDiscountRow[] | null | undefined
+  /** Fixed fees (e.g., invoice fee) added to every order */
+  fees?:
+    | SveaChargeRow[]
+    | ((
+        context: SveaCartAdjustmentContext,
+      ) => SveaChargeRow[] | null | undefined)
+}
+
+/**
+ * What to do when the Svea order total does not match the transaction
+ * - `reject`: flag the transaction and do not create an order
+ * - `review`: flag the transaction for review and create the order
+ * - `accept`: record the mismatch and create the order
+ */
+export type SveaAmountMismatchPolicy = 'reject' | 'review' | 'accept'
+
+/**
+ * Result of comparing a Svea order with the Payload transaction
+ */
+export interface SveaAmountReconciliation {
+  matches: boolean
+  /** Svea order total in minor units */
+  sveaAmount: number
+  /** Transaction amount in minor units */
+  transactionAmount: number
+  sveaCurrency: string
+  transactionCurrency: string
+}
+
+/**
+ * Mismatch data stored in the transaction's `svea.amountMismatch` group
+ */
+export interface SveaAmountMismatch
+  extends Omit<SveaAmountReconciliation, 'matches'> {
+  resolution: 'rejected' | 'review' | 'accepted'
+  detectedAt: string
+}
+
+/**
+ * Why the validation callback rejected a purchase
+ */
+export type SveaValidationFailureReason =
+  | 'transaction-not-found'
+  | 'transaction-not-pending'
+  | 'cart-not-found'
+  | 'cart-changed'
+  | 'currency-mismatch'
+  | 'out-of-stock'
+  | 'unavailable'
+  | 'custom'
+  | 'error'
+
+/**
+ * Outcome of validating a checkout before Svea completes the purchase
+ */
+export interface SveaValidationResult {
+  valid: boolean
+  reason?: SveaValidationFailureReason
+  /** Message shown to the customer in the checkout */
+  message?: string
+  /** Internal details for logs and the event log */
+  detail?: string
+}
+
+/**
+ * Options for the checks run by the validation callback
+ */
+export interface SveaValidationOptions {
+  /**
+   * Rebuild the order rows from the current cart and compare them with
+   * the Svea order
+   * @default true
+   */
+  checkCart?: boolean
+  /**
+   * Check that every product and variant is published and in stock
+   * @default true
+   */
+  checkStock?: boolean
+  /**
+   * Field path on products/variants holding the stock count, e.g.
+   * `inventory` or `stock.available`. Items without a numeric value are
+   * not stock-checked.
+   * @default 'inventory'
+   */
+  inventoryField?: string
+  /**
+   * Answer when the validation itself fails, e.g. the Svea API or the
+   * database is unreachable. `'closed'` rejects the purchase, `'open'`
+   * lets it through.
+   * @default 'closed'
+   */
+  onError?: 'open' | 'closed'
+  /** Customer-facing messages, per failure reason */
+  messages?: Partial<Record<SveaValidationFailureReason, string>>
+}
+
+/**
+ * Kind of entry in the `svea-events` collection
+ */
+export type SveaEventType = 'push' | 'validation' | 'confirm' | 'api'
+
+/**
+ * Data stored for a single Svea event
+ */
+export interface SveaEventInput {
+  type: SveaEventType
+  sveaOrderId?: number
+  /** Transaction ID; looked up by `sveaOrderId` when omitted */
+  transaction?: number | string
+  /** Svea order status at the time of the event */
+  status?: string
+  /** What the adapter did, e.g. `accepted`, `ignored`, `failed` */
+  outcome?: string
+  method?: string
+  url?: string
+  httpStatus?: number
+  durationMs?: number
+  request?: unknown
+  response?: unknown
+  error?: string
+}
+
+/**
+ * Writes Svea events to the `svea-events` collection
+ */
+export interface SveaEventLog {
+  /** Stores an event; never throws */
+  record: (payload: Payload, event: SveaEventInput) => Promise<void>
+  /** Creates an API call listener storing calls as `api` events */
+  apiCallListener: (payload: Payload) => SveaApiCallListener
+}
+
+/**
+ * Options for the `svea-events` collection
+ */
+export interface SveaEventsCollectionOptions {
+  /** @default 'svea-events' */
+  slug?: string
+  /** @default 'transactions' */
+  transactionsSlug?: string
+  /**
+   * Read access for the admin list. Defaults to `isSveaAdmin`. Events are
+   * only written through the local API.
+   */
+  readAccess?: (args: { req: PayloadRequest }) => boolean | Promise<boolean>
+}
+
+/**
+ * State of an inventory reservation
+ */
+export type SveaReservationStatus =
+  | 'active'
+  | 'committed'
+  | 'released'
+  | 'expired'
+
+/**
+ * Stock held for one cart line
+ */
+export interface SveaReservationItem {
+  product: number | string
+  variant?: number | string
+  quantity: number
+}
+
+/**
+ * Options for inventory reservations
+ */
+export interface SveaReservationOptions {
+  /**
+   * Minutes a reservation holds stock without a validation callback
+   * @default 30
+   */
+  ttlMinutes?: number
+  /**
+   * Dotted path of the stock count on products and variants
+   * @default 'inventory'
+   */
+  inventoryField?: string
+}
+
+/**
+ * Stock that is not available for new reservations
+ */
+export interface SveaReservationShortage {
+  product: number | string
+  variant?: number | string
+  requested: number
+  available: number
+}
+
+/**
+ * Reserves stock between checkout start and order finalization
+ */
+export interface SveaInventoryReservations {
+  /** Items lacking stock once active reservations are subtracted */
+  findShortages: (
+    payload: Payload,
+    items: SveaReservationItem[],
+    excludeTransactionId?: number | string,
+  ) => Promise<SveaReservationShortage[]>
+  /**
+   * Creates or replaces the transaction's reservation. Throws when an
+   * item lacks stock.
+   */
+  reserve: (
+    payload: Payload,
+    args: {
+      transactionId: number | string
+      sveaOrderId?: number
+      items: SveaReservationItem[]
+    },
+  ) => Promise<void>
+  /**
+   * Pushes the expiry forward, re-reserving a lapsed reservation when
+   * stock allows. Returns the shortages when it could not.
+   */
+  extend: (
+    payload: Payload,
+    transactionId: number | string,
+  ) => Promise<SveaReservationShortage[]>
+  /** Deducts the reserved stock; runs once per transaction */
+  commit: (
+    payload: Payload,
+    transactionId: number | string,
+    req?: PayloadRequest,
+  ) => Promise<void>
+  /** Gives the reserved stock back */
+  release: (
+    payload: Payload,
+    transactionId: number | string,
+    status?: Extract<SveaReservationStatus, 'released' | 'expired'>,
+  ) => Promise<void>
+  /** Marks lapsed reservations as expired; returns how many */
+  releaseExpired: (payload: Payload) => Promise<number>
+}
+
+/**
+ * Options for the inventory reservations collection
+ */
+export interface SveaReservationsCollectionOptions {
+  /** @default 'svea-reservations' */
+  slug?: string
+  /** @default 'transactions' */
+  transactionsSlug?: string
+  /** Read access for the admin list. Defaults to `isSveaAdmin`. */
+  readAccess?: (args: { req: PayloadRequest }) => boolean | Promise<boolean>
+}
+
+/**
+ * What the sweeper did with a pending transaction
+ */
+export type SveaSweepOutcome =
+  | 'finalized'
+  | 'failed'
+  | 'expired'
+  | 'pending'
+  | 'review'
+  | 'error'
+
+/**
+ * Options for sweeping stale pending transactions
+ */
+export interface SveaSweepOptions {
+  /**
+   * Only transactions created at least this long ago are checked
+   * @default 60
+   */
+  olderThanMinutes?: number
+  /**
+   * Transactions whose Svea order is still `Created` after this long
+   * are marked `expired`
+   * @default 2880 (48 hours)
+   */
+  expireAfterMinutes?: number
+  /**
+   * Maximum number of transactions checked per run
+   * @default 100
+   */
+  limit?: number
+}
+
+/**
+ * A transaction handled by the sweeper
+ */
+export interface SveaSweepEntry {
+  transactionId: number | string
+  sveaOrderId?: number
+  sveaStatus?: string
+  outcome: SveaSweepOutcome
+  orderID?: number | string
+  error?: string
+}
+
+/**
+ * Summary of a sweeper run
+ */
+export interface SveaSweepResult {
+  checked: number
+  finalized: number
+  failed: number
+  expired: number
+  pending: number
+  review: number
+  errors: number
+  entries: SveaSweepEntry[]
+}
+
+/**
+ * Options for the sweeper's Payload jobs task
+ */
+export interface SveaSweepTaskOptions
+  extends SveaSweepOptions,
+    Pick<
+      SveaAdapterConfig,
+      | 'merchantId'
+      | 'secretKey'
+      | 'checkoutApiUrl'
+      | 'merchants'
+      | 'http'
+      | 'collections'
+      | 'onMismatch'
+      | 'amountTolerance'
+      | 'reservations'
+      | 'eventLog'
+    > {
+  /** @default 'sveaSweepPendingTransactions' */
+  slug?: string
+  /** Cron schedules, e.g. `[{ cron: '0 * * * *', queue: 'default' }]` */
+  schedule?: TaskConfig['schedule']
+}
+
+/**
+ * Kind of repair made by the reconciliation job
+ */
+export type SveaReconciliationFixType =
+  /** A `Final` Svea order had no Payload order */
+  | 'order-created'
+  /** A `Cancelled` Svea order had a pending transaction */
+  | 'transaction-failed'
+  /** Delivered, credited or cancelled amounts changed in Payment Admin */
+  | 'admin-state-updated'
+  /** The Svea total differs and `onMismatch` is `'reject'` */
+  | 'mismatch-flagged'
+
+/**
+ * A repair made by the reconciliation job
+ */
+export interface SveaReconciliationFix {
+  type: SveaReconciliationFixType
+  transactionId: number | string
+  sveaOrderId?: number
+  detail: string
+}
+
+/**
+ * A transaction the reconciliation job could not check
+ */
+export interface SveaReconciliationFailure {
+  transactionId: number | string
+  sveaOrderId?: number
+  error: string
+}
+
+/**
+ * Options for a reconciliation run
+ */
+export interface SveaReconciliationOptions {
+  /**
+   * Start of the window, by transaction creation time. Defaults to
+   * `windowHours` before `to`.
+   */
+  from?: string
+  /** End of the window. Defaults to now. */
+  to?: string
+  /**
+   * Length of the window when `from` is not given
+   * @default 168 (7 days)
+   */
+  windowHours?: number
+  /**
+   * Store a report document in the reconciliation reports collection
+   * @default true
+   */
+  report?: boolean
+}
+
+/**
+ * Summary of a reconciliation run
+ */
+export interface SveaReconciliationResult {
+  windowStart: string
+  windowEnd: string
+  checked: number
+  fixes: SveaReconciliationFix[]
+  failures: SveaReconciliationFailure[]
+  /** ID of the stored report document */
+  reportId?: number | string
+}
+
+/**
+ * Options for the reconciliation job's Payload jobs task
+ */
+export interface SveaReconciliationTaskOptions
+  extends SveaReconciliationOptions,
+    Pick<
+      SveaAdapterConfig,
+      | 'merchantId'
+      | 'secretKey'
+      | 'checkoutApiUrl'
+      | 'paymentAdminApiUrl'
+      | 'merchants'
+      | 'http'
+      | 'collections'
+      | 'onMismatch'
+      | 'amountTolerance'
+      | 'reservations'
+      | 'eventLog'
+    > {
+  /** @default 'sveaReconcileTransactions' */
+  slug?: string
+  /** Cron schedules, e.g. `[{ cron: '0 3 * * *', queue: 'default' }]` */
+  schedule?: TaskConfig['schedule']
+}
+
+/**
+ * Options for the reconciliation reports collection
+ */
+export interface SveaReconciliationReportsCollectionOptions {
+  /** @default 'svea-reconciliation-reports' */
+  slug?: string
+  /** @default 'transactions' */
+  transactionsSlug?: string
+  /** Read access for the admin list. Defaults to `isSveaAdmin`. */
+  readAccess?: (args: { req: PayloadRequest }) => boolean | Promise<boolean>
+}
+
+/**
+ * Arguments for charging a stored recurring token
+ */
+export interface SveaRecurringChargeArgs {
+  /** Customer whose stored token is charged and who owns the new order */
+  customer?: number | string
+  /** Token to charge instead of the customer's stored one */
+  token?: string
+  /** Items to charge; product and variant IDs are populated automatically */
+  items: SveaCartItem[]
+  /** ISO 4217 currency code */
+  currency: string
+  /** Defaults to the customer's email */
+  customerEmail?: string
+  /** Defaults to a generated `ORDER-…` number */
+  clientOrderNumber?: string
+  /**
+   * Merchant profile the token was issued to. Defaults to the profile
+   * stored with the customer's token, then to the profile serving the
+   * currency.
+   */
+  merchantProfile?: string
+}
+
+/**
+ * Result of charging a recurring token
+ */
+export interface SveaRecurringChargeResult {
+  transactionID: number | string
+  sveaOrderId: number
+  /** Svea order status after the charge */
+  status: string
+  /** Payload order, created once Svea reports the order `Final` */
+  orderID?: number | string
+}
+
+/**
+ * Arguments for `finalizeSveaOrder`
+ */
+export interface SveaFinalizeOrderArgs {
+  payload: Payload
+  /** User confirming the order, used as customer fallback */
+  user?: PayloadRequest['user']
+  transactionId: number | string
+  /** The Svea order, already verified to be `Final` */
+  sveaOrder: SveaOrder
+  /** Mismatch record to store with the finalized transaction */
+  amountMismatch?: SveaAmountMismatch
+  /** Customer email fallback when the transaction has none */
+  customerEmail?: string
+  ordersSlug?: string
+  transactionsSlug?: string
+  cartsSlug?: string
+  /** Collection receiving the order's recurring token, if it has one */
+  customersSlug?: string
+  /** Commits the transaction's inventory reservation with the order */
+  reservations?: SveaInventoryReservations
+}
+
+/**
+ * Result of `finalizeSveaOrder`
+ */
+export interface SveaFinalizeOrderResult {
+  orderID: number | string
+  transactionID: number | string
+  /** False when the order already existed */
+  created: boolean
+}
+
+/**
+ * Options for checking that a push request comes from Svea
+ */
+export interface SveaPushVerificationOptions {
+  /** Full request URL including the query string */
+  url: string
+  headers: Pick<Headers, 'get'>
+  /** Client IPs allowed to send push notifications */
+  allowedIps?: string[]
+  /**
+   * Number of proxies in front of the app appending to `x-forwarded-for`
+   * @default 1
+   */
+  trustedProxies?: number
+  /** Shared secret expected in the `pushUri` query */
+  pushSecret?: string
+}
+
+/**
+ * Result of checking a push request
+ */
+export interface SveaPushVerification {
+  verified: boolean
+  /** Why the request failed verification */
+  reason?: string
+  clientIp?: string
+}
+
 /**
  * Configuration for the Svea adapter
  */
-export interface SveaAdapterConfig {
+export interface SveaAdapterConfig
+  extends SveaOrderRowResolvers,
+    SveaCartAdjustmentResolvers {
   /** Svea Merchant ID */
   merchantId: string
   /** Svea Secret Key */
   secretKey: string
   /** Svea Checkout API URL (defaults to staging) */
   checkoutApiUrl?: string
+  /** Svea Payment Admin API URL (defaults to staging) */
+  paymentAdminApiUrl?: string
+  /**
+   * Additional merchant accounts, e.g. one per market. Checkouts use the
+   * first profile matching the billing country and currency, and fall
+   * back to `merchantId`/`secretKey` as the `default` profile.
+   */
+  merchants?: SveaMerchantProfile[]
+  /** Timeouts, retries and circuit breaking for calls to Svea */
+  http?: SveaHttpOptions
   /** Frontend base URL for callbacks */
   frontendBaseUrl?: string
+  /**
+   * Shared secret appended to the `pushUri` query. Pass the same value
+   * to `createSveaWebhookHandler` to reject pushes without it.
+   */
+  pushSecret?: string
+  /** Client IPs allowed to send push notifications to the `/webhook` endpoint */
+  pushAllowedIps?: string[]
+  /**
+   * Number of proxies in front of the app appending to `x-forwarded-for`,
+   * used to find the client IP checked against `pushAllowedIps`
+   * @default 1
+   */
+  pushTrustedProxies?: number
+  /**
+   * Register the webhook, validation callback, confirm and update-order
+   * routes as Payload endpoints under `/api/payments/svea`
+   * @default true
+   */
+  registerEndpoints?: boolean
   /** Label for the payment method */
   label?: string
+  /**
+   * Field on products/variants holding the tax class
+   * @default 'taxClass'
+   */
+  taxClassField?: string
+  /**
+   * VAT percent per tax class value, e.g. `{ standard: 25, food: 15 }`.
+   * Numeric tax class values are used as the VAT percent directly.
+   */
+  taxClasses?: Record<string, number>
+  /**
+   * VAT percent used when no tax class matches
+   * @default 25
+   */
+  defaultVatPercent?: number
+  /**
+   * Policy when the Svea order total or currency differs from the transaction
+   * @default 'review'
+   */
+  onMismatch?: SveaAmountMismatchPolicy
+  /**
+   * Allowed difference in minor units before amounts count as mismatched
+   * @default 0
+   */
+  amountTolerance?: number
+  /** Checks run by the validation callback before Svea completes a purchase */
+  validation?: SveaValidationOptions
+  /**
+   * Reserve stock from checkout start until the order is finalized,
+   * cancelled or the reservation expires. Add the collection with
+   * `sveaReservationsPlugin`.
+   * @default false
+   */
+  reservations?: boolean | SveaReservationOptions
+  /**
+   * Let customers choose carrier and pickup point in the Svea checkout
+   * (nShift). The cart's own shipping row is then left out; Svea adds the
+   * chosen shipping fee.
+   * @default false
+   */
+  shipping?: boolean | SveaShippingOptions
+  /**
+   * Values prefilled in the checkout from the customer and addresses.
+   * Only the email address is preset by default.
+   */
+  presetValues?: SveaPresetValuesOptions
+  /** Identity flags sent with every checkout, or a function choosing them */
+  identityFlags?:
+    | SveaIdentityFlags
+    | ((
+        context: SveaPresetContext,
+      ) =>
+        | SveaIdentityFlags
+        | undefined
+        | Promise<SveaIdentityFlags | undefined>)
+  /**
+   * Preset the checkout for company customers
+   * @default false
+   */
+  business?: boolean | SveaBusinessCheckoutOptions
+  /**
+   * Create recurring-enabled checkouts. The token Svea returns is stored
+   * on the customer in the `sveaRecurringToken` field; add it with
+   * `sveaRecurringTokenField`.
+   * @default false
+   */
+  recurring?: boolean
+  /**
+   * Access check for the admin capture/refund/cancel endpoints.
+   * Defaults to `isSveaAdmin`: users of the admin user collection with
+   * an `admin` role.
+   */
+  adminAccess?: (args: { req: PayloadRequest }) => boolean | Promise<boolean>
+  /**
+   * Store confirmations and outbound API calls in the `svea-events`
+   * collection. Add the collection with `sveaEventLogPlugin`.
+   * @default false
+   */
+  eventLog?: boolean
   /** Collection slugs configuration */
   collections?: {
     transactions?: string
@@ -219,9 +1515,104 @@ export interface SveaAdapterConfig {
     customers?: string
     products?: string
     variants?: string
+    events?: string
+    reservations?: string
+    reconciliationReports?: string
   }
 }
 
+/**
+ * Options for embedded Svea shipping
+ */
+export interface SveaShippingOptions {
+  /** Only offer `fallbackOptions` */
+  enforceFallback?: boolean
+  /** Order weight in grams, or a function computing it from the cart */
+  weight?:
+    | number
+    | ((context: SveaCartAdjustmentContext) => number | null | undefined)
+  /** Tags matched by the shipping rules configured at Svea */
+  tags?:
+    | Record<string, string>
+    | ((
+        context: SveaCartAdjustmentContext,
+      ) => Record<string, string> | null | undefined)
+  /** Options offered when the shipping provider cannot be reached */
+  fallbackOptions?: SveaShippingFallbackOption[]
+}
+
+/**
+ * Checkout fields that can be prefilled
+ */
+export type SveaPresetField =
+  | 'emailAddress'
+  | 'phoneNumber'
+  | 'postalCode'
+  | 'nationalId'
+  | 'isCompany'
+
+/**
+ * Data available when resolving preset values and identity flags
+ */
+export interface SveaPresetContext {
+  req: PayloadRequest
+  /** The logged-in user, if any */
+  customer?: Record<string, unknown>
+  customerEmail?: string
+  billingAddress?: PayloadAddress
+  shippingAddress?: PayloadAddress
+}
+
+/**
+ * How one checkout field is prefilled
+ */
+export interface SveaPresetFieldOptions {
+  /**
+   * Value to preset. Returning `undefined` falls back to the built-in
+   * resolver; `null` leaves the field empty.
+   */
+  resolve?: (
+    context: SveaPresetContext,
+  ) =>
+    | string
+    | boolean
+    | null
+    | undefined
+    | Promise<string | boolean | null | undefined>
+  /**
+   * Lock the field in the checkout
+   * @default false
+   */
+  readOnly?: boolean
+}
+
+/**
+ * Preset value options per checkout field. `true` uses the built-in
+ * resolver, `false` never presets the field.
+ */
+export type SveaPresetValuesOptions = Partial<
+  Record<SveaPresetField, boolean | SveaPresetFieldOptions>
+>
+
+/**
+ * Options for business (B2B) checkouts
+ */
+export interface SveaBusinessCheckoutOptions {
+  /**
+   * Lock the checkout to company customers
+   * @default false
+   */
+  companyOnly?: boolean
+  /**
+   * Organization number to preset. Defaults to an `organizationNumber`
+   * field on the logged-in customer.
+   */
+  resolveOrganizationNumber?: (args: {
+    req: PayloadRequest
+    billingAddress?: PayloadAddress
+  }) => string | null | undefined | Promise<string | null | undefined>
+}
+
 /**
  * Payload address structure
  */
@@ -0,0 +1,301 @@
+import {
+  buildSveaOrderRows,
+  calculateSveaOrderTotal,
+  getSveaOrderRows,
+} from './order-rows'
+import type { SveaOrderRowOptions } from './order-rows'
+import { isSveaShippingRow } from './shipping'
+import type {
+  SveaCartItem,
+  SveaOrder,
+  SveaOrderRow,
+  SveaValidationFailureReason,
+  SveaValidationOptions,
+  SveaValidationResult,
+} from './types'
+
+/**
+ * Default customer-facing messages for rejected purchases
+ */
+export const SVEA_VALIDATION_MESSAGES: Record<
+  SveaValidationFailureReason,
+  string
+> = {
+  'transaction-not-found':
+    'We could not find this checkout. Please start again.',
+  'transaction-not-pending':
+    'This order has already been completed or cancelled.',
+  'cart-not-found': 'Your cart could not be found. Please start again.',
+  'cart-changed':
+    'Your cart has changed since checkout started. Please review your order and try again.',
+  'currency-mismatch':
+    'The order currency does not match your cart. Please start again.',
+  'out-of-stock': 'One or more items in your cart are no longer in stock.',
+  unavailable: 'One or more items in your cart are no longer available.',
+  custom: 'Order validation failed',
+  error: 'We could not verify your order right now. Please try again.',
+}
+
+/**
+ * Reads a stock count from a product or variant by dotted field path,
+ * e.g. `inventory` or `stock.available`
+ */
+export function getSveaInventory(
+  doc: Record<string, unknown>,
+  inventoryField = 'inventory',
+): number | undefined {
+  const value = inventoryField
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        current && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      doc,
+    )
+  return typeof value === 'number' ? value : undefined
+}
+
+/**
+ * Builds a rejected validation result with the customer-facing message
+ */
+export function rejectSveaValidation(
+  reason: SveaValidationFailureReason,
+  detail?: string,
+  messages: SveaValidationOptions['messages'] = {},
+): SveaValidationResult {
+  return {
+    valid: false,
+    reason,
+    message: messages[reason] || SVEA_VALIDATION_MESSAGES[reason],
+    ...(detail ? { detail } : {}),
+  }
+}
+
+/**
+ * Key identifying an order row by everything that affects its amount
+ */
+function getRowKey(row: SveaOrderRow): string {
+  return [
+    row.articleNumber || '',
+    row.quantity,
+    row.unitPrice,
+    row.vatPercent,
+    row.discountPercent || 0,
+    row.discountAmount || 0,
+  ].join('|')
+}
+
+/**
+ * Compares the rows rebuilt from the current cart with the rows of the
+ * Svea order. Names are not compared since Svea may shorten them.
+ */
+export function compareSveaOrderRows(
+  expected: SveaOrderRow[],
+  actual: SveaOrderRow[],
+): boolean {
+  if (expected.length !== actual.length) return false
+
+  const expectedKeys = expected.map(getRowKey).sort()
+  const actualKeys = actual.map(getRowKey).sort()
+
+  return expectedKeys.every((key, index) => key === actualKeys[index])
+}
+
+/**
+ * Checks that the cart still produces the rows and currency of the Svea
+ * order. Shipping rows added by Svea are ignored. Without a Svea order
+ * the rebuilt total is compared with the transaction amount instead.
+ */
+export function validateSveaCartRows({
+  cart,
+  sveaOrder,
+  transaction,
+  orderRowOptions,
+}: {
+  cart: { items?: unknown[] | null } & Record<string, unknown>
+  sveaOrder?: SveaOrder
+  transaction: Record<string, unknown>
+  orderRowOptions?: SveaOrderRowOptions
+}): SveaValidationResult {
+  const transactionCurrency = String(transaction.currency || '').toUpperCase()
+  const cartCurrency = String(cart.currency || '').toUpperCase()
+  const sveaCurrency = String(sveaOrder?.Currency || '').toUpperCase()
+  const currency = transactionCurrency || cartCurrency || sveaCurrency
+
+  const currencies = [transactionCurrency, cartCurrency, sveaCurrency].filter(
+    Boolean,
+  )
+  if (currencies.some((value) => value !== currency)) {
+    return rejectSveaValidation(
+      'currency-mismatch',
+      `Currencies differ: transaction ${transactionCurrency || '-'}, cart ${cartCurrency || '-'}, Svea ${sveaCurrency || '-'}`,
+    )
+  }
+
+  let expectedRows: SveaOrderRow[]
+  try {
+    expectedRows = buildSveaOrderRows(cart, currency, orderRowOptions)
+  } catch (error) {
+    return rejectSveaValidation(
+      'cart-changed',
+      error instanceof Error ? error.message : 'Could not build order rows',
+    )
+  }
+
+  if (sveaOrder) {
+    const sveaRows = getSveaOrderRows(sveaOrder).filter(
+      (row) => !isSveaShippingRow(row),
+    )
+    if (!compareSveaOrderRows(expectedRows, sveaRows)) {
+      return rejectSveaValidation(
+        'cart-changed',
+        'Cart rows differ from the Svea order rows',
+      )
+    }
+    return { valid: true }
+  }
+
+  const expectedAmount = calculateSveaOrderTotal(expectedRows)
+  const transactionAmount = Math.round(Number(transaction.amount || 0) * 100)
+  if (expectedAmount !== transactionAmount) {
+    return rejectSveaValidation(
+      'cart-changed',
+      `Cart total ${expectedAmount} differs from transaction amount ${transactionAmount}`,
+    )
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Checks that every cart item's product and variant still exists, is
+ * published and has enough stock. Expects a cart populated to depth 2.
+ */
+export function validateSveaStock({
+  cart,
+  inventoryField = 'inventory',
+}: {
+  cart: { items?: unknown[] | null }
+  inventoryField?: string
+}): SveaValidationResult {
+  const requested = new Map<
+    string,
+    { doc: Record<string, unknown>; quantity: number }
+  >()
+
+  for (const item of (cart.items || []) as SveaCartItem[]) {
+    const product =
+      item.product && typeof item.product === 'object'
+        ? (item.product as Record<string, unknown>)
+        : null
+    const variant =
+      item.variant && typeof item.variant === 'object'
+        ? (item.variant as Record<string, unknown>)
+        : null
+
+    // Unpopulated relationships point to deleted or inaccessible documents
+    if (!product || (item.variant && !variant)) {
+      return rejectSveaValidation(
+        'unavailable',
+        `Product ${String(product?.id ?? item.product ?? '?')} no longer exists`,
+      )
+    }
+
+    for (const doc of [product, variant]) {
+      if (doc?._status === 'draft') {
+        return rejectSveaValidation(
+          'unavailable',
+          `Document ${String(doc.id)} is not published`,
+        )
+      }
+    }
+
+    // Variants hold their own stock
+    const stockDoc = variant || product
+    const key = `${variant ? 'variant' : 'product'}:${String(stockDoc.id)}`
+    const entry = requested.get(key)
+    requested.set(key, {
+      doc: stockDoc,
+      quantity: (entry?.quantity || 0) + (item.quantity || 1),
+    })
+  }
+
+  for (const [key, { doc, quantity }] of requested) {
+    const inventory = getSveaInventory(doc, inventoryField)
+    if (inventory !== undefined && inventory < quantity) {
+      return rejectSveaValidation(
+        'out-of-stock',
+        `${key} has ${inventory} in stock, ${quantity} requested`,
+      )
+    }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Runs the built-in checks for a validation callback: the transaction is
+ * still pending, the cart matches the Svea order and every item is
+ * available
+ */
+export function validateSveaCheckout({
+  transaction,
+  cart,
+  sveaOrder,
+  orderRowOptions,
+  options = {},
+}: {
+  transaction: Record<string, unknown>
+  /** Cart populated to depth 2, or `null` when it no longer exists */
+  cart: ({ items?: unknown[] | null } & Record<string, unknown>) | null
+  sveaOrder?: SveaOrder
+  orderRowOptions?: SveaOrderRowOptions
+  options?: SveaValidationOptions
+}): SveaValidationResult {
+  const { checkCart = true, checkStock = true, inventoryField, messages } =
+    options
+
+  const withMessage = (result: SveaValidationResult): SveaValidationResult =>
+    result.valid || !result.reason
+      ? result
+      : rejectSveaValidation(result.reason, result.detail, messages)
+
+  if (transaction.status !== 'pending' || transaction.order) {
+    return withMessage(
+      rejectSveaValidation(
+        'transaction-not-pending',
+        `Transaction status is ${String(transaction.status)}`,
+      ),
+    )
+  }
+
+  if (!checkCart && !checkStock) return { valid: true }
+
+  if (!cart) {
+    return withMessage(rejectSveaValidation('cart-not-found'))
+  }
+
+  if (cart.purchasedAt || !cart.items || cart.items.length === 0) {
+    return withMessage(
+      rejectSveaValidation('cart-changed', 'Cart is empty or purchased'),
+    )
+  }
+
+  if (checkStock) {
+    const stock = validateSveaStock({ cart, inventoryField })
+    if (!stock.valid) return withMessage(stock)
+  }
+
+  if (checkCart) {
+    const rows = validateSveaCartRows({
+      cart,
+      sveaOrder,
+      transaction,
+      orderRowOptions,
+    })
+    if (!rows.valid) return withMessage(rows)
+  }
+
+  return { valid: true }
+}
@@ -0,0 +1,322 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import {
+  Button,
+  ConfirmationModal,
+  toast,
+  useConfig,
+  useDocumentInfo,
+  useModal,
+} from '@payloadcms/ui'
+import { useRouter } from 'next/navigation'
+
+const MODAL_SLUG = 'svea-order-action'
+
+type SveaAction = 'capture' | 'refund' | 'cancel'
+
+interface SveaAdminRow {
+  OrderRowId: number
+  Name: string
+  Quantity: number
+  UnitPrice: number
+  IsCancelled?: boolean
+}
+
+interface SveaStatusResponse {
+  transactionId: number | string
+  transactionStatus?: string
+  sveaOrderId: number
+  checkoutStatus: string
+  currency?: string
+  paymentType?: string
+  admin: {
+    adminStatus: string
+    orderStatus: string
+    orderAmount: number
+    deliveredAmount: number
+    creditedAmount: number
+    cancelledAmount: number
+    actions: string[]
+    rows: SveaAdminRow[]
+    deliveries: {
+      id: number
+      deliveryAmount: number
+      creditedAmount: number
+      actions: string[]
+      rows: SveaAdminRow[]
+    }[]
+  } | null
+  error?: string
+}
+
+interface PendingAction {
+  action: SveaAction
+  heading: string
+  body: string
+  data: Record<string, unknown>
+}
+
+export interface SveaOrderActionsProps {
+  /**
+   * Which document the field is rendered on. On orders, the Svea
+   * transaction is looked up from the order ID.
+   * @default 'transaction'
+   */
+  source?: 'transaction' | 'order'
+}
+
+/**
+ * Formats an amount in minor units for display
+ */
+function formatAmount(amount: number, currency?: string) {
+  const value = (amount / 100).toFixed(2)
+  return currency ? `${value} ${currency}` : value
+}
+
+/**
+ * Admin field showing live Svea order status with Deliver, Credit and
+ * Cancel actions
+ *
+ * Added automatically to the transaction's `svea` group. For orders, add
+ * `sveaOrderActionsField()` to the orders collection.
+ */
+export const SveaOrderActions: React.FC<SveaOrderActionsProps> = ({
+  source = 'transaction',
+}) => {
+  const { id } = useDocumentInfo()
+  const { config } = useConfig()
+  const { openModal } = useModal()
+  const router = useRouter()
+
+  const [status, setStatus] = useState<SveaStatusResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [selectedRowIds, setSelectedRowIds] = useState<number[]>([])
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(
+    null,
+  )
+
+  const baseUrl = `${config.serverURL || ''}${config.routes.api}/payments/svea/admin`
+  const idParam = source === 'order' ? 'orderId' : 'transactionId'
+
+  const loadStatus = useCallback(async () => {
+    if (!id) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(
+        `${baseUrl}/status?${idParam}=${encodeURIComponent(String(id))}`,
+        { credentials: 'include' },
+      )
+      const json = (await response.json()) as SveaStatusResponse
+
+      if (!response.ok) {
+        throw new Error(json.error || `Request failed: ${response.status}`)
+      }
+
+      setStatus(json)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load Svea status')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [baseUrl, id, idParam])
+
+  useEffect(() => {
+    void loadStatus()
+  }, [loadStatus])
+
+  const requestAction = useCallback(
+    (action: PendingAction) => {
+      setPendingAction(action)
+      openModal(MODAL_SLUG)
+    },
+    [openModal],
+  )
+
+  const runAction = useCallback(async () => {
+    if (!pendingAction || !status) return
+
+    try {
+      const response = await fetch(`${baseUrl}/${pendingAction.action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          transactionId: status.transactionId,
+          ...pendingAction.data,
+        }),
+      })
+      const json = await response.json()
+
+      if (!response.ok) {
+        throw new Error(json.error || `Request failed: ${response.status}`)
+      }
+
+      toast.success(json.message || 'Svea order updated')
+      setSelectedRowIds([])
+      await loadStatus()
+      router.refresh()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Svea action failed')
+    } finally {
+      setPendingAction(null)
+    }
+  }, [baseUrl, loadStatus, pendingAction, router, status])
+
+  const toggleRow = (rowId: number) => {
+    setSelectedRowIds((current) =>
+      current.includes(rowId)
+        ? current.filter((idValue) => idValue !== rowId)
+        : [...current, rowId],
+    )
+  }
+
+  if (!id) return null
+
+  if (error) {
+    return (
+      <div style={{ marginBottom: '1rem' }}>
+        <p style={{ color: 'var(--theme-error-500)' }}>{error}</p>
+        <Button buttonStyle="secondary" onClick={() => void loadStatus()}>
+          Retry
+        </Button>
+      </div>
+    )
+  }
+
+  if (!status) {
+    return <p>{isLoading ? 'Loading Svea status...' : null}</p>
+  }
+
+  const admin = status.admin
+  const latestDelivery = admin?.deliveries[admin.deliveries.length - 1]
+  const canDeliver = Boolean(admin?.actions.includes('CanDeliverOrder'))
+  const canCancel = Boolean(admin?.actions.includes('CanCancelOrder'))
+  const canCredit = Boolean(
+    latestDelivery &&
+      latestDelivery.deliveryAmount > latestDelivery.creditedAmount,
+  )
+  const creditableRows = latestDelivery?.rows || []
+
+  return (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <h4 style={{ marginBottom: '0.5rem' }}>Svea order {status.sveaOrderId}</h4>
+      <ul style={{ listStyle: 'none', padding: 0, margin: '0 0 1rem' }}>
+        <li>Checkout status: {status.checkoutStatus}</li>
+        {status.paymentType && <li>Payment type: {status.paymentType}</li>}
+        {admin && (
+          <>
+            <li>Admin status: {admin.orderStatus}</li>
+            <li>
+              Order amount: {formatAmount(admin.orderAmount, status.currency)}
+            </li>
+            <li>
+              Delivered: {formatAmount(admin.deliveredAmount, status.currency)}
+            </li>
+            <li>
+              Credited: {formatAmount(admin.creditedAmount, status.currency)}
+            </li>
+            <li>
+              Cancelled: {formatAmount(admin.cancelledAmount, status.currency)}
+            </li>
+          </>
+        )}
+      </ul>
+
+      {!admin && (
+        <p>Delivery, credit and cancel are available once the order is Final.</p>
+      )}
+
+      {admin && creditableRows.length > 0 && (
+        <fieldset style={{ marginBottom: '1rem' }}>
+          <legend>Delivered rows</legend>
+          {creditableRows.map((row) => (
+            <label key={row.OrderRowId} style={{ display: 'block' }}>
+              <input
+                type="checkbox"
+                checked={selectedRowIds.includes(row.OrderRowId)}
+                disabled={row.IsCancelled}
+                onChange={() => toggleRow(row.OrderRowId)}
+              />{' '}
+              {row.Name} × {row.Quantity / 100} (
+              {formatAmount(row.UnitPrice, status.currency)})
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      {admin && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+          <Button
+            buttonStyle="primary"
+            disabled={!canDeliver}
+            onClick={() =>
+              requestAction({
+                action: 'capture',
+                heading: 'Deliver order',
+                body: 'Deliver (capture) all remaining rows of this Svea order?',
+                data: {},
+              })
+            }
+          >
+            Deliver
+          </Button>
+          <Button
+            buttonStyle="secondary"
+            disabled={!canCredit}
+            onClick={() =>
+              requestAction({
+                action: 'refund',
+                heading: 'Credit order',
+                body: 'Credit the full remaining amount of the latest delivery?',
+                data: {},
+              })
+            }
+          >
+            Credit full amount
+          </Button>
+          <Button
+            buttonStyle="secondary"
+            disabled={!canCredit || selectedRowIds.length === 0}
+            onClick={() =>
+              requestAction({
+                action: 'refund',
+                heading: 'Credit rows',
+                body: `Credit ${selectedRowIds.length} selected row(s)?`,
+                data: { orderRowIds: selectedRowIds },
+              })
+            }
+          >
+            Credit selected rows
+          </Button>
+          <Button
+            buttonStyle="error"
+            disabled={!canCancel}
+            onClick={() =>
+              requestAction({
+                action: 'cancel',
+                heading: 'Cancel order',
+                body: 'Cancel this Svea order? This cannot be undone.',
+                data: {},
+              })
+            }
+          >
+            Cancel order
+          </Button>
+        </div>
+      )}
+
+      <ConfirmationModal
+        modalSlug={MODAL_SLUG}
+        heading={pendingAction?.heading || 'Confirm'}
+        body={pendingAction?.body || ''}
+        onCancel={() => setPendingAction(null)}
+        onConfirm={runAction}
+      />
+    </div>
+  )
+}
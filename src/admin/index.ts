@@ -0,0 +1,10 @@
+'use client'
+
+/**
+ * Payload Admin Components for Svea Payment Adapter
+ *
+ * @packageDocumentation
+ */
+
+export { SveaOrderActions } from './SveaOrderActions'
+export type { SveaOrderActionsProps } from './SveaOrderActions'
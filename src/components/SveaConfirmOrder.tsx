@@ -20,7 +20,7 @@ interface ConfirmOrderResult {
 export interface SveaConfirmOrderProps {
   /**
    * Custom API endpoint for confirming orders
-   * @default '/api/payments/svea/confirm-order'
+   * @default '/api/payments/svea/confirm'
    */
   confirmOrderEndpoint?: string
   /**
@@ -131,7 +131,7 @@ async function confirmOrderApi(
  * ```
  */
 export const SveaConfirmOrder: React.FC<SveaConfirmOrderProps> = ({
-  confirmOrderEndpoint = '/api/payments/svea/confirm-order',
+  confirmOrderEndpoint = '/api/payments/svea/confirm',
   storageKey = 'svea:lastOrder',
   onSuccess,
   onError,
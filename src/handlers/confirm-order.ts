@@ -1,7 +1,18 @@
-import type { NextRequest } from 'next/server'
-import { NextResponse } from 'next/server'
-import type { GetPayloadFn, SveaHandlerConfig } from './types'
+import { sveaJson, toFetchHandler } from './http'
+import type {
+  GetPayloadFn,
+  SveaCoreHandler,
+  SveaHandlerConfig,
+  SveaHandlerRequest,
+  SveaHandlerResponse,
+} from './types'
 import { sveaAdapter } from '../adapter'
+import { getSveaErrorResponse } from '../adapter/errors'
+import type {
+  SveaAmountMismatchPolicy,
+  SveaHttpOptions,
+  SveaMerchantProfile,
+} from '../adapter/types'
 
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
@@ -17,39 +28,60 @@ const DEFAULT_COLLECTIONS = {
 }
 
 /**
- * Creates a confirm order handler for finalizing Svea payments
- *
- * This endpoint is called by the frontend after the customer completes
- * payment in the Svea checkout to finalize the order in Payload.
- *
- * @example
- * ```ts
- * // app/api/payments/svea/confirm-order/route.ts
- * import { createSveaConfirmOrderHandler } from '@sanderjevnaker/payload-svea-adapter/handlers'
- * import { getPayload } from 'payload'
- * import config from '@payload-config'
- *
- * const handler = createSveaConfirmOrderHandler({
- *   getPayload: () => getPayload({ config }),
- *   merchantId: process.env.SVEA_MERCHANT_ID!,
- *   secretKey: process.env.SVEA_SECRET_KEY!,
- * })
- *
- * export const POST = handler.POST
- * export const OPTIONS = handler.OPTIONS
- * ```
+ * Creates the framework-neutral core of the confirm order handler
  */
-export function createSveaConfirmOrderHandler(options: {
+export function createSveaConfirmOrderCore(options: {
   getPayload: GetPayloadFn
   merchantId: string
   secretKey: string
   checkoutApiUrl?: string
+  /**
+   * Merchant profiles of the adapter. Orders are fetched with the
+   * credentials of the profile stored on the transaction.
+   */
+  merchants?: SveaMerchantProfile[]
+  /** Timeouts, retries and circuit breaking for calls to Svea */
+  http?: SveaHttpOptions
   frontendBaseUrl?: string
   collections?: SveaHandlerConfig['collections']
-}) {
+  /**
+   * Policy when the Svea order total differs from the transaction
+   * @default 'review'
+   */
+  onMismatch?: SveaAmountMismatchPolicy
+  /**
+   * Allowed difference in minor units
+   * @default 0
+   */
+  amountTolerance?: number
+  /**
+   * Store confirmations and Svea API calls in the `svea-events` collection
+   * @default false
+   */
+  eventLog?: boolean
+}): SveaCoreHandler {
   const collections = { ...DEFAULT_COLLECTIONS, ...options.collections }
 
-  async function handleConfirmOrder(req: NextRequest) {
+  // Created once, so clients and their circuit breaker outlive a request
+  const adapter = sveaAdapter({
+    merchantId: options.merchantId,
+    secretKey: options.secretKey,
+    checkoutApiUrl: options.checkoutApiUrl,
+    merchants: options.merchants,
+    http: options.http,
+    frontendBaseUrl: options.frontendBaseUrl,
+    label: 'Svea',
+    collections,
+    onMismatch: options.onMismatch,
+    amountTolerance: options.amountTolerance,
+    eventLog: options.eventLog,
+  })
+
+  async function handleConfirmOrder(
+    request: SveaHandlerRequest,
+  ): Promise<SveaHandlerResponse> {
+    const headers = new Headers(request.headers)
+
     console.log(
       '[Svea Confirm Order] Request received at:',
       new Date().toISOString(),
@@ -62,7 +94,7 @@ export function createSveaConfirmOrderHandler(options: {
       // Try to authenticate the user
       let user = null
       try {
-        const authResult = await payload.auth({ headers: req.headers })
+        const authResult = await payload.auth({ headers })
         if (authResult.user) {
           user = authResult.user
           console.log(
@@ -78,10 +110,10 @@ export function createSveaConfirmOrderHandler(options: {
       // Parse request body
       let data: Record<string, unknown> = {}
       try {
-        data = await req.json()
+        data = JSON.parse(request.body)
       } catch {
         console.error('[Svea Confirm Order] Could not parse body')
-        return NextResponse.json(
+        return sveaJson(
           { error: 'Invalid request body' },
           { status: 400 },
         )
@@ -92,16 +124,6 @@ export function createSveaConfirmOrderHandler(options: {
         JSON.stringify(data, null, 2),
       )
 
-      // Create adapter instance
-      const adapter = sveaAdapter({
-        merchantId: options.merchantId,
-        secretKey: options.secretKey,
-        checkoutApiUrl: options.checkoutApiUrl,
-        frontendBaseUrl: options.frontendBaseUrl,
-        label: 'Svea',
-        collections,
-      })
-
       // Call confirmOrder
       const result = await adapter.confirmOrder({
         data,
@@ -119,7 +141,7 @@ export function createSveaConfirmOrderHandler(options: {
 
       console.log('[Svea Confirm Order] Result:', result)
 
-      return NextResponse.json(result)
+      return sveaJson(result)
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error'
@@ -132,14 +154,45 @@ export function createSveaConfirmOrderHandler(options: {
         )
       }
 
-      return NextResponse.json({ error: errorMessage }, { status: 500 })
+      const { status, message } = getSveaErrorResponse(error)
+      return sveaJson({ error: message }, { status })
     }
   }
 
+  return handleConfirmOrder
+}
+
+/**
+ * Creates a confirm order handler for finalizing Svea payments
+ *
+ * This endpoint is called by the frontend after the customer completes
+ * payment in the Svea checkout to finalize the order in Payload.
+ *
+ * @example
+ * ```ts
+ * // app/api/payments/svea/confirm/route.ts
+ * import { createSveaConfirmOrderHandler } from '@sanderjevnaker/payload-svea-adapter/handlers'
+ * import { getPayload } from 'payload'
+ * import config from '@payload-config'
+ *
+ * const handler = createSveaConfirmOrderHandler({
+ *   getPayload: () => getPayload({ config }),
+ *   merchantId: process.env.SVEA_MERCHANT_ID!,
+ *   secretKey: process.env.SVEA_SECRET_KEY!,
+ * })
+ *
+ * export const POST = handler.POST
+ * export const OPTIONS = handler.OPTIONS
+ * ```
+ */
+export function createSveaConfirmOrderHandler(
+  options: Parameters<typeof createSveaConfirmOrderCore>[0],
+) {
+  const handler = toFetchHandler(createSveaConfirmOrderCore(options))
+
   return {
-    POST: handleConfirmOrder,
+    POST: handler,
     OPTIONS: () =>
-      new NextResponse(null, { status: 200, headers: CORS_HEADERS }),
+      new Response(null, { status: 200, headers: CORS_HEADERS }),
   }
 }
-
@@ -0,0 +1,214 @@
+import type {
+  SveaCoreHandler,
+  SveaHandlerRequest,
+  SveaHandlerResponse,
+} from './types'
+
+/**
+ * Minimal shape of an Express request used by `toExpressHandler`
+ */
+export interface SveaExpressRequest {
+  method: string
+  url: string
+  originalUrl?: string
+  protocol?: string
+  headers: Record<string, string | string[] | undefined>
+  /** Parsed or raw body, when a body parser ran before the handler */
+  body?: unknown
+}
+
+/**
+ * Minimal shape of an Express response used by `toExpressHandler`
+ */
+export interface SveaExpressResponse {
+  status: (code: number) => unknown
+  setHeader: (name: string, value: string) => unknown
+  send: (body?: string) => unknown
+  end: () => unknown
+}
+
+/**
+ * Minimal shape of a Hono context used by `toHonoHandler`
+ */
+export interface SveaHonoContext {
+  req: { raw: Request }
+}
+
+/**
+ * Builds a JSON handler response; `null` gives an empty body
+ */
+export function sveaJson(
+  body: unknown,
+  init: { status?: number; headers?: Record<string, string> } = {},
+): SveaHandlerResponse {
+  return {
+    status: init.status ?? 200,
+    headers: {
+      ...(body === null ? {} : { 'Content-Type': 'application/json' }),
+      ...init.headers,
+    },
+    body,
+  }
+}
+
+/**
+ * Serializes a handler response body
+ */
+function serializeBody(response: SveaHandlerResponse): string | null {
+  return response.body === null || response.body === undefined
+    ? null
+    : JSON.stringify(response.body)
+}
+
+/**
+ * Converts a Fetch `Request` into a handler request
+ */
+export async function fromFetchRequest(
+  req: Request,
+): Promise<SveaHandlerRequest> {
+  const headers: Record<string, string> = {}
+  req.headers.forEach((value, key) => {
+    headers[key] = value
+  })
+
+  let body = ''
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    try {
+      body = await req.text()
+    } catch {
+      // Body already consumed or unreadable
+    }
+  }
+
+  return { method: req.method, url: req.url, headers, body }
+}
+
+/**
+ * Converts a handler response into a Fetch `Response`
+ */
+export function toFetchResponse(response: SveaHandlerResponse): Response {
+  return new Response(serializeBody(response), {
+    status: response.status,
+    headers: response.headers,
+  })
+}
+
+/**
+ * Wraps a handler core as a Fetch handler, e.g. for Next.js route files,
+ * Bun, Deno or Cloudflare Workers
+ */
+export function toFetchHandler(
+  core: SveaCoreHandler,
+): (req: Request) => Promise<Response> {
+  return async (req) => toFetchResponse(await core(await fromFetchRequest(req)))
+}
+
+/**
+ * Reads the raw body of an Express request. Bodies already parsed by
+ * `express.json()` or `express.urlencoded()` are serialized back.
+ */
+async function readExpressBody(req: SveaExpressRequest): Promise<string> {
+  const { body } = req
+
+  if (typeof body === 'string') return body
+  if (body instanceof Uint8Array) return Buffer.from(body).toString('utf-8')
+
+  if (body && typeof body === 'object') {
+    const contentType = String(req.headers['content-type'] || '')
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      return new URLSearchParams(body as Record<string, string>).toString()
+    }
+    return JSON.stringify(body)
+  }
+
+  // No body parser - read the stream
+  if (Symbol.asyncIterator in req) {
+    const chunks: Buffer[] = []
+    for await (const chunk of req as unknown as AsyncIterable<
+      Buffer | string
+    >) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+    }
+    return Buffer.concat(chunks).toString('utf-8')
+  }
+
+  return ''
+}
+
+/**
+ * Wraps a handler core as Express middleware
+ *
+ * @example
+ * ```ts
+ * app.post(
+ *   '/api/payments/svea/webhook',
+ *   toExpressHandler(createSveaWebhookCore({ getPayload, merchantId, secretKey })),
+ * )
+ * ```
+ */
+export function toExpressHandler(
+  core: SveaCoreHandler,
+): (
+  req: SveaExpressRequest,
+  res: SveaExpressResponse,
+  next?: (error?: unknown) => void,
+) => Promise<void> {
+  return async (req, res, next) => {
+    try {
+      const headers: Record<string, string> = {}
+      for (const [key, value] of Object.entries(req.headers)) {
+        if (value !== undefined) {
+          headers[key.toLowerCase()] = Array.isArray(value)
+            ? value.join(', ')
+            : value
+        }
+      }
+
+      const protocol =
+        headers['x-forwarded-proto']?.split(',')[0]?.trim() ||
+        req.protocol ||
+        'http'
+      const host = headers['x-forwarded-host'] || headers.host || 'localhost'
+
+      const response = await core({
+        method: req.method,
+        url: `${protocol}://${host}${req.originalUrl ?? req.url}`,
+        headers,
+        body: await readExpressBody(req),
+      })
+
+      res.status(response.status)
+      for (const [name, value] of Object.entries(response.headers)) {
+        res.setHeader(name, value)
+      }
+
+      const body = serializeBody(response)
+      if (body === null) {
+        res.end()
+      } else {
+        res.send(body)
+      }
+    } catch (error) {
+      if (next) {
+        next(error)
+      } else {
+        throw error
+      }
+    }
+  }
+}
+
+/**
+ * Wraps a handler core as a Hono handler
+ *
+ * @example
+ * ```ts
+ * app.post('/api/payments/svea/webhook', toHonoHandler(webhookCore))
+ * ```
+ */
+export function toHonoHandler(
+  core: SveaCoreHandler,
+): (c: SveaHonoContext) => Promise<Response> {
+  const handler = toFetchHandler(core)
+  return (c) => handler(c.req.raw)
+}
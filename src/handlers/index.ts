@@ -1,12 +1,47 @@
 /**
- * Next.js API Route Handlers for Svea Payment Adapter
+ * Route Handlers for Svea Payment Adapter
+ *
+ * Each handler has a framework-neutral core (`createSvea*Core`) and a
+ * Fetch `Request`/`Response` wrapper (`createSvea*Handler`) that can be
+ * exported directly from Next.js route files. `toExpressHandler` and
+ * `toHonoHandler` adapt the cores to Express and Hono.
  *
  * @packageDocumentation
  */
 
-export { createSveaWebhookHandler } from './webhook'
-export { createSveaValidationCallbackHandler } from './validation-callback'
-export { createSveaConfirmOrderHandler } from './confirm-order'
+export { createSveaWebhookCore, createSveaWebhookHandler } from './webhook'
+export {
+  createSveaValidationCallbackCore,
+  createSveaValidationCallbackHandler,
+} from './validation-callback'
+export {
+  createSveaConfirmOrderCore,
+  createSveaConfirmOrderHandler,
+} from './confirm-order'
+export {
+  createSveaUpdateOrderCore,
+  createSveaUpdateOrderHandler,
+} from './update-order'
+export {
+  fromFetchRequest,
+  sveaJson,
+  toExpressHandler,
+  toFetchHandler,
+  toFetchResponse,
+  toHonoHandler,
+} from './http'
 
-export type { SveaHandlerConfig, SveaHandlerContext, GetPayloadFn } from './types'
+export type {
+  SveaExpressRequest,
+  SveaExpressResponse,
+  SveaHonoContext,
+} from './http'
+export type {
+  SveaHandlerConfig,
+  SveaHandlerContext,
+  GetPayloadFn,
+  SveaCoreHandler,
+  SveaHandlerRequest,
+  SveaHandlerResponse,
+} from './types'
 
@@ -20,6 +20,8 @@ export interface SveaHandlerConfig {
     customers?: string
     products?: string
     variants?: string
+    events?: string
+    reservations?: string
   }
 }
 
@@ -36,3 +38,32 @@ export interface SveaHandlerContext {
  */
 export type GetPayloadFn = () => Promise<Payload>
 
+
+/**
+ * Framework-neutral request passed to the handler cores
+ */
+export interface SveaHandlerRequest {
+  method: string
+  /** Absolute request URL including the query string */
+  url: string
+  headers: Record<string, string>
+  /** Raw request body, empty string when there is none */
+  body: string
+}
+
+/**
+ * Framework-neutral response returned by the handler cores.
+ * `body` is serialized as JSON; `null` means an empty body.
+ */
+export interface SveaHandlerResponse {
+  status: number
+  headers: Record<string, string>
+  body: unknown
+}
+
+/**
+ * A handler core: business logic without framework request handling
+ */
+export type SveaCoreHandler = (
+  request: SveaHandlerRequest,
+) => Promise<SveaHandlerResponse>
@@ -0,0 +1,155 @@
+import { createLocalReq } from 'payload'
+
+import { sveaJson, toFetchHandler } from './http'
+import type {
+  GetPayloadFn,
+  SveaCoreHandler,
+  SveaHandlerConfig,
+  SveaHandlerRequest,
+  SveaHandlerResponse,
+} from './types'
+import { sveaAdapter } from '../adapter'
+import { getSveaErrorResponse } from '../adapter/errors'
+import type { SveaAdapterConfig } from '../adapter/types'
+
+// No `Access-Control-Allow-Origin`: only the shop's own pages may call this
+const CORS_HEADERS = {
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+}
+
+const DEFAULT_COLLECTIONS = {
+  transactions: 'transactions',
+  orders: 'orders',
+  carts: 'carts',
+  customers: 'users',
+}
+
+/**
+ * Creates the framework-neutral core of the update order handler
+ */
+export function createSveaUpdateOrderCore(
+  options: {
+    getPayload: GetPayloadFn
+    merchantId: string
+    secretKey: string
+    checkoutApiUrl?: string
+    collections?: SveaHandlerConfig['collections']
+  } & Omit<
+    SveaAdapterConfig,
+    'merchantId' | 'secretKey' | 'checkoutApiUrl' | 'collections'
+  >,
+): SveaCoreHandler {
+  const { getPayload, ...adapterConfig } = options
+  const collections = { ...DEFAULT_COLLECTIONS, ...options.collections }
+
+  const adapter = sveaAdapter({
+    ...adapterConfig,
+    label: 'Svea',
+    collections,
+  })
+
+  async function handleUpdateOrder(
+    request: SveaHandlerRequest,
+  ): Promise<SveaHandlerResponse> {
+    let payload
+    try {
+      payload = await getPayload()
+
+      let data: Record<string, unknown> = {}
+      try {
+        data = JSON.parse(request.body)
+      } catch {
+        return sveaJson(
+          { error: 'Invalid request body' },
+          { status: 400, headers: CORS_HEADERS },
+        )
+      }
+
+      const transactionId =
+        (data.transactionId as string | number | undefined) ??
+        (data.transactionID as string | number | undefined)
+      const sveaOrderId =
+        (data.orderId as string | number | undefined) ??
+        (data.sveaOrderId as string | number | undefined)
+
+      if (!transactionId && !sveaOrderId) {
+        return sveaJson(
+          { error: 'transactionId or orderId is required' },
+          { status: 400, headers: CORS_HEADERS },
+        )
+      }
+
+      // A logged-in customer may update their checkout without the token
+      let user = null
+      try {
+        user = (await payload.auth({ headers: new Headers(request.headers) }))
+          .user
+      } catch {
+        // Guest checkout
+      }
+
+      const result = await adapter.updateCheckout({
+        req: await createLocalReq(user ? { user } : {}, payload),
+        transactionId,
+        sveaOrderId,
+        checkoutToken: data.checkoutToken as string | undefined,
+        transactionsSlug: collections.transactions,
+        cartsSlug: collections.carts,
+      })
+
+      return sveaJson(result, { headers: CORS_HEADERS })
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error'
+      console.error('[Svea Update Order] Error:', error)
+
+      if (payload) {
+        payload.logger.error(
+          { error: errorMessage },
+          'Error updating Svea order',
+        )
+      }
+
+      const { status, message } = getSveaErrorResponse(error)
+      return sveaJson({ error: message }, { status, headers: CORS_HEADERS })
+    }
+  }
+
+  return handleUpdateOrder
+}
+
+/**
+ * Creates a handler that sends the current cart to an existing Svea order
+ *
+ * Call this from the checkout page after the customer changes the cart
+ * while the Svea checkout is open. The order must still be `Created`.
+ *
+ * @example
+ * ```ts
+ * // app/api/payments/svea/update-order/route.ts
+ * import { createSveaUpdateOrderHandler } from '@jevnakern/payload-svea-adapter/handlers'
+ * import { getPayload } from 'payload'
+ * import config from '@payload-config'
+ *
+ * const handler = createSveaUpdateOrderHandler({
+ *   getPayload: () => getPayload({ config }),
+ *   merchantId: process.env.SVEA_MERCHANT_ID!,
+ *   secretKey: process.env.SVEA_SECRET_KEY!,
+ * })
+ *
+ * export const POST = handler.POST
+ * export const OPTIONS = handler.OPTIONS
+ * ```
+ */
+export function createSveaUpdateOrderHandler(
+  options: Parameters<typeof createSveaUpdateOrderCore>[0],
+) {
+  const handler = toFetchHandler(createSveaUpdateOrderCore(options))
+
+  return {
+    POST: handler,
+    OPTIONS: () =>
+      new Response(null, { status: 200, headers: CORS_HEADERS }),
+  }
+}
@@ -1,6 +1,36 @@
-import type { NextRequest } from 'next/server'
-import { NextResponse } from 'next/server'
-import type { GetPayloadFn } from './types'
+import type { Payload } from 'payload'
+
+import { sveaJson, toFetchHandler } from './http'
+import type {
+  GetPayloadFn,
+  SveaCoreHandler,
+  SveaHandlerRequest,
+  SveaHandlerResponse,
+} from './types'
+import { SVEA_API_URLS } from '../adapter/checkout-client'
+import { createSveaEventLog, withSveaEventLog } from '../adapter/event-log'
+import {
+  createSveaMerchantClients,
+  getSveaMerchantProfileName,
+} from '../adapter/merchant-profiles'
+import type { SveaOrderRowOptions } from '../adapter/order-rows'
+import {
+  createSveaInventoryReservations,
+  describeSveaShortages,
+} from '../adapter/reservations'
+import type {
+  SveaEventInput,
+  SveaHttpOptions,
+  SveaMerchantProfile,
+  SveaOrder,
+  SveaReservationOptions,
+  SveaValidationOptions,
+  SveaValidationResult,
+} from '../adapter/types'
+import {
+  rejectSveaValidation,
+  validateSveaCheckout,
+} from '../adapter/validation'
 
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
@@ -10,68 +40,158 @@ const CORS_HEADERS = {
 
 const DEFAULT_COLLECTIONS: Record<string, string> = {
   transactions: 'transactions',
+  carts: 'carts',
 }
 
 /**
  * Creates a Svea OK response with optional extra data
  */
 function sveaOkResponse(extra: Record<string, unknown> = {}) {
-  return NextResponse.json(
+  return sveaJson(
     { Valid: true, ...extra },
     { status: 200, headers: CORS_HEADERS },
   )
 }
 
 /**
- * Creates a validation callback handler for Svea checkout
- *
- * This endpoint is called by Svea before finalizing a payment to validate
- * that the order is still valid on your end.
- *
- * @example
- * ```ts
- * // app/api/payments/svea/validation-callback/[[...params]]/route.ts
- * import { createSveaValidationCallbackHandler } from '@sanderjevnaker/payload-svea-adapter/handlers'
- * import { getPayload } from 'payload'
- * import config from '@payload-config'
- *
- * const handler = createSveaValidationCallbackHandler({
- *   getPayload: () => getPayload({ config }),
- * })
- *
- * export const GET = handler.GET
- * export const POST = handler.POST
- * export const PUT = handler.PUT
- * export const OPTIONS = handler.OPTIONS
- * ```
+ * Creates a Svea response rejecting the purchase with a customer-facing
+ * message
+ */
+function sveaInvalidResponse(message: string) {
+  return sveaJson(
+    { Valid: false, Message: message },
+    { status: 200, headers: CORS_HEADERS },
+  )
+}
+
+/**
+ * Reads the ID of a relationship value that may be populated
  */
-export function createSveaValidationCallbackHandler(options: {
-  getPayload: GetPayloadFn
-  collections?: {
-    transactions?: string
+function getRelationId(value: unknown): number | string | undefined {
+  if (value && typeof value === 'object') {
+    return (value as { id?: number | string }).id
   }
-  /**
-   * Custom validation function. Return true to allow the payment,
-   * or throw an error / return false to reject it.
-   */
-  customValidation?: (params: {
-    orderId: number
-    transaction: Record<string, unknown>
-    body: Record<string, unknown>
-  }) => Promise<boolean> | boolean
-}) {
-  const collections = { ...DEFAULT_COLLECTIONS, ...options.collections }
-
-  async function handleValidationRequest(req: NextRequest) {
+  return (value as number | string | null | undefined) ?? undefined
+}
+
+/**
+ * Creates the framework-neutral core of the validation callback handler
+ */
+export function createSveaValidationCallbackCore(
+  options: {
+    getPayload: GetPayloadFn
+    /**
+     * Svea credentials used to fetch the order rows. Without them the
+     * cart is compared with the transaction amount instead.
+     */
+    merchantId?: string
+    secretKey?: string
+    checkoutApiUrl?: string
+    /**
+     * Merchant profiles of the adapter. Orders are fetched with the
+     * credentials of the profile stored on the transaction.
+     */
+    merchants?: SveaMerchantProfile[]
+    /** Timeouts, retries and circuit breaking for calls to Svea */
+    http?: SveaHttpOptions
+    collections?: {
+      transactions?: string
+      carts?: string
+      products?: string
+      variants?: string
+      events?: string
+      reservations?: string
+    }
+    /** Built-in checks and the policy for internal errors */
+    validation?: SveaValidationOptions
+    /**
+     * Custom validation function. Return true to allow the payment,
+     * or throw an error / return false to reject it.
+     */
+    customValidation?: (params: {
+      orderId: number
+      transaction: Record<string, unknown>
+      body: Record<string, unknown>
+    }) => Promise<boolean> | boolean
+    /**
+     * Store every validation callback and its outcome in the `svea-events`
+     * collection
+     * @default false
+     */
+    eventLog?: boolean
+    /**
+     * Extend the transaction's inventory reservation, re-reserving it
+     * when it lapsed. Must match the adapter's `reservations` option.
+     * @default false
+     */
+    reservations?: boolean | SveaReservationOptions
+  } & SveaOrderRowOptions,
+): SveaCoreHandler {
+  const {
+    getPayload,
+    merchantId,
+    secretKey,
+    checkoutApiUrl = SVEA_API_URLS.staging,
+    merchants,
+    http,
+    collections: collectionOverrides,
+    validation = {},
+    customValidation,
+    eventLog: eventLogEnabled,
+    reservations: reservationsConfig,
+    ...orderRowOptions
+  } = options
+  const collections = { ...DEFAULT_COLLECTIONS, ...collectionOverrides }
+  const { onError = 'closed' } = validation
+
+  const reservationOptions =
+    reservationsConfig === true ? {} : reservationsConfig || undefined
+  const reservations = reservationOptions
+    ? createSveaInventoryReservations({
+        ...reservationOptions,
+        slug: collections.reservations,
+        productsSlug: collections.products,
+        variantsSlug: collections.variants,
+      })
+    : undefined
+
+  const merchantClients =
+    merchantId && secretKey
+      ? createSveaMerchantClients({
+          merchantId,
+          secretKey,
+          checkoutApiUrl,
+          merchants,
+          http,
+        })
+      : undefined
+
+  const eventLog = eventLogEnabled
+    ? createSveaEventLog({
+        slug: collections.events,
+        transactionsSlug: collections.transactions,
+      })
+    : undefined
+
+  async function handleValidationRequest(
+    request: SveaHandlerRequest,
+  ): Promise<SveaHandlerResponse> {
     console.log(
       '[Svea Validation Callback] Request received at:',
       new Date().toISOString(),
     )
 
-    let payload
+    const event: SveaEventInput = {
+      type: 'validation',
+      method: request.method,
+      url: request.url,
+      outcome: 'valid',
+    }
+
+    let payload: Payload | undefined
     try {
-      payload = await options.getPayload()
-      const url = new URL(req.url)
+      payload = await getPayload()
+      const url = new URL(request.url)
       const pathParts = url.pathname.split('/').filter(Boolean)
 
       // Extract order ID from URL path
@@ -88,7 +208,7 @@ export function createSveaValidationCallbackHandler(options: {
       // Parse body
       let body: Record<string, unknown> = {}
       try {
-        const bodyText = await req.text()
+        const bodyText = request.body
         if (bodyText) {
           body = JSON.parse(bodyText)
         }
@@ -96,8 +216,10 @@ export function createSveaValidationCallbackHandler(options: {
         console.log('[Svea Validation Callback] Could not parse body')
       }
 
+      event.request = body
+
       payload.logger.info(
-        { body, url: req.url, orderIdFromUrl },
+        { body, url: request.url, orderIdFromUrl },
         'Received Svea validation callback',
       )
 
@@ -107,6 +229,8 @@ export function createSveaValidationCallbackHandler(options: {
         const correlationId = body.CorrelationId as string | undefined
         const timestampUtc = body.TimestampUtc as string | undefined
 
+        event.status = eventName
+
         payload.logger.info(
           { eventName, correlationId, timestampUtc },
           'Received Svea webhook event in validation callback',
@@ -119,6 +243,8 @@ export function createSveaValidationCallbackHandler(options: {
           orderIdFromUrl
 
         if (orderId) {
+          event.sveaOrderId = Number(orderId)
+
       const transactionsResults = await payload.find({
         collection: collections.transactions as 'users',
         where: {
@@ -159,15 +285,29 @@ export function createSveaValidationCallbackHandler(options: {
         billingReference,
       })
 
+      const reject = (result: SveaValidationResult) => {
+        event.outcome = 'invalid'
+        event.error = [result.reason, result.detail].filter(Boolean).join(': ')
+        payload?.logger.warn(
+          { orderId, reason: result.reason, detail: result.detail },
+          'Svea validation callback rejected the order',
+        )
+        return sveaInvalidResponse(result.message || 'Order validation failed')
+      }
+
       if (!orderId) {
         console.warn('[Svea Validation Callback] Missing OrderId')
-        payload.logger.warn(
-          { body, url: req.url },
-          'Missing OrderId in validation callback',
+        return reject(
+          rejectSveaValidation(
+            'transaction-not-found',
+            'Missing OrderId',
+            validation.messages,
+          ),
         )
-        return sveaOkResponse({ Warning: 'Missing OrderId' })
       }
 
+      event.sveaOrderId = Number(orderId)
+
       // Find transaction
       const transactionsResults = await payload.find({
         collection: collections.transactions as 'users',
@@ -177,58 +317,113 @@ export function createSveaValidationCallbackHandler(options: {
           },
         },
         limit: 1,
+        depth: 0,
       })
 
-      const transaction = transactionsResults.docs[0]
+      const transaction = transactionsResults.docs[0] as
+        | Record<string, unknown>
+        | undefined
 
       if (!transaction) {
-        payload.logger.warn(
-          { orderId },
-          'Transaction not found in validation callback',
+        return reject(
+          rejectSveaValidation(
+            'transaction-not-found',
+            'Transaction not found',
+            validation.messages,
+          ),
         )
-        return sveaOkResponse({ Warning: 'Transaction not found' })
       }
 
-      const transactionStatus = (transaction as Record<string, unknown>).status
-      if (transactionStatus !== 'pending') {
-        payload.logger.warn(
-          { orderId, status: transactionStatus },
-          'Transaction is not pending in validation callback',
+      event.transaction = transaction.id as number | string
+
+      // Re-read the cart and the Svea order so prices and stock are current
+      const cartId = getRelationId(transaction.cart)
+      const cart = cartId
+        ? await payload
+            .find({
+              collection: collections.carts as 'carts',
+              where: { id: { equals: cartId } },
+              limit: 1,
+              depth: 2,
+            })
+            .then((result) => result.docs[0] || null)
+        : null
+
+      let sveaOrder: SveaOrder | undefined
+      if (merchantClients && validation.checkCart !== false) {
+        sveaOrder = await withSveaEventLog(
+          merchantClients.checkoutClient(
+            getSveaMerchantProfileName(transaction),
+          ),
+          eventLog,
+          payload,
+        ).getOrder(orderId)
+        event.status = sveaOrder.Status
+      }
+
+      const result = validateSveaCheckout({
+        transaction,
+        cart: cart as Parameters<typeof validateSveaCheckout>[0]['cart'],
+        sveaOrder,
+        orderRowOptions,
+        options: {
+          inventoryField: reservationOptions?.inventoryField,
+          ...validation,
+        },
+      })
+
+      if (!result.valid) {
+        return reject(result)
+      }
+
+      // Hold the stock until Svea reports the order as final
+      if (reservations) {
+        const shortages = await reservations.extend(
+          payload,
+          transaction.id as number | string,
         )
+        if (shortages.length > 0) {
+          return reject(
+            rejectSveaValidation(
+              'out-of-stock',
+              `Reservation lapsed: ${describeSveaShortages(shortages)}`,
+              validation.messages,
+            ),
+          )
+        }
       }
 
       // Run custom validation if provided
-      if (options.customValidation) {
+      if (customValidation) {
         try {
-          const isValid = await options.customValidation({
+          const isValid = await customValidation({
             orderId,
             transaction: transaction as Record<string, unknown>,
             body,
           })
           if (!isValid) {
-            payload.logger.warn(
-              { orderId },
-              'Custom validation rejected the order',
-            )
-            return NextResponse.json(
-              { Valid: false, Message: 'Order validation failed' },
-              { status: 200, headers: CORS_HEADERS },
+            return reject(
+              rejectSveaValidation(
+                'custom',
+                'Custom validation rejected the order',
+                validation.messages,
+              ),
             )
           }
         } catch (validationError) {
+          event.outcome = 'invalid'
+          event.error =
+            validationError instanceof Error
+              ? validationError.message
+              : 'Validation error'
           payload.logger.error(
             { orderId, error: validationError },
             'Custom validation threw an error',
           )
-          return NextResponse.json(
-            {
-              Valid: false,
-              Message:
-                validationError instanceof Error
-                  ? validationError.message
-                  : 'Validation error',
-            },
-            { status: 200, headers: CORS_HEADERS },
+          return sveaInvalidResponse(
+            validationError instanceof Error
+              ? validationError.message
+              : 'Validation error',
           )
         }
       }
@@ -255,7 +450,7 @@ export function createSveaValidationCallbackHandler(options: {
 
       try {
         if (!payload) {
-          payload = await options.getPayload()
+          payload = await getPayload()
         }
         payload.logger.error(
           { error: errorMessage },
@@ -265,17 +460,61 @@ export function createSveaValidationCallbackHandler(options: {
         // Ignore
       }
 
-      // Return 200 OK despite error to not block payment
-      return sveaOkResponse({ Error: errorMessage })
+      event.outcome = onError === 'open' ? 'failed-open' : 'failed-closed'
+      event.error = errorMessage
+
+      // Fail open lets the purchase through rather than block payment
+      if (onError === 'open') {
+        return sveaOkResponse({ Error: errorMessage })
+      }
+
+      return sveaInvalidResponse(
+        rejectSveaValidation('error', undefined, validation.messages)
+          .message as string,
+      )
+    } finally {
+      if (eventLog && payload) {
+        await eventLog.record(payload, event)
+      }
     }
   }
 
+  return handleValidationRequest
+}
+
+/**
+ * Creates a validation callback handler for Svea checkout
+ *
+ * This endpoint is called by Svea before finalizing a payment to validate
+ * that the order is still valid on your end.
+ *
+ * @example
+ * ```ts
+ * // app/api/payments/svea/validation-callback/[[...params]]/route.ts
+ * import { createSveaValidationCallbackHandler } from '@sanderjevnaker/payload-svea-adapter/handlers'
+ * import { getPayload } from 'payload'
+ * import config from '@payload-config'
+ *
+ * const handler = createSveaValidationCallbackHandler({
+ *   getPayload: () => getPayload({ config }),
+ * })
+ *
+ * export const GET = handler.GET
+ * export const POST = handler.POST
+ * export const PUT = handler.PUT
+ * export const OPTIONS = handler.OPTIONS
+ * ```
+ */
+export function createSveaValidationCallbackHandler(
+  options: Parameters<typeof createSveaValidationCallbackCore>[0],
+) {
+  const handler = toFetchHandler(createSveaValidationCallbackCore(options))
+
   return {
-    GET: () => sveaOkResponse(),
+    GET: handler,
     OPTIONS: () =>
-      new NextResponse(null, { status: 200, headers: CORS_HEADERS }),
-    POST: handleValidationRequest,
-    PUT: handleValidationRequest,
+      new Response(null, { status: 200, headers: CORS_HEADERS }),
+    POST: handler,
+    PUT: handler,
   }
 }
-
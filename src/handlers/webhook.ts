@@ -1,6 +1,33 @@
-import type { NextRequest } from 'next/server'
-import { NextResponse } from 'next/server'
-import type { GetPayloadFn, SveaHandlerConfig } from './types'
+import { sveaJson, toFetchHandler } from './http'
+import type {
+  GetPayloadFn,
+  SveaCoreHandler,
+  SveaHandlerConfig,
+  SveaHandlerRequest,
+  SveaHandlerResponse,
+} from './types'
+import {
+  createSveaAmountMismatch,
+  reconcileSveaOrderAmount,
+  recordSveaAmountMismatch,
+} from '../adapter/reconciliation'
+import { SveaApiError, SveaUnavailableError } from '../adapter/errors'
+import { createSveaEventLog, withSveaEventLog } from '../adapter/event-log'
+import { finalizeSveaOrder } from '../adapter/finalize-order'
+import {
+  createSveaMerchantClients,
+  getSveaMerchantProfileName,
+} from '../adapter/merchant-profiles'
+import { verifySveaPushRequest } from '../adapter/push-verification'
+import { createSveaInventoryReservations } from '../adapter/reservations'
+import type {
+  SveaAmountMismatchPolicy,
+  SveaEventInput,
+  SveaHttpOptions,
+  SveaMerchantProfile,
+  SveaOrder,
+  SveaReservationOptions,
+} from '../adapter/types'
 
 const DEFAULT_COLLECTIONS = {
   transactions: 'transactions',
@@ -12,42 +39,156 @@ const DEFAULT_COLLECTIONS = {
 }
 
 /**
- * Creates a webhook handler for Svea push notifications
+ * Creates the framework-neutral core of the webhook handler
+ *
+ * The push body is never trusted: the order is always re-fetched from the
+ * signed Checkout API and Svea's status is used. Pushes can additionally
+ * be restricted by client IP and a shared secret in the `pushUri` query.
  *
  * @example
  * ```ts
- * // app/api/payments/svea/webhook/route.ts
- * import { createSveaWebhookHandler } from '@sanderjevnaker/payload-svea-adapter/handlers'
- * import { getPayload } from 'payload'
- * import config from '@payload-config'
- *
- * const handler = createSveaWebhookHandler({
- *   getPayload: () => getPayload({ config }),
- *   merchantId: process.env.SVEA_MERCHANT_ID!,
- *   secretKey: process.env.SVEA_SECRET_KEY!,
- * })
+ * import express from 'express'
+ * import { createSveaWebhookCore, toExpressHandler } from '@jevnakern/payload-svea-adapter/handlers'
  *
- * export const POST = handler.POST
- * export const GET = handler.GET
+ * const webhook = createSveaWebhookCore({ getPayload, merchantId, secretKey })
+ * app.post('/api/payments/svea/webhook', toExpressHandler(webhook))
  * ```
  */
-export function createSveaWebhookHandler(options: {
+export function createSveaWebhookCore(options: {
   getPayload: GetPayloadFn
   merchantId: string
   secretKey: string
   checkoutApiUrl?: string
+  /**
+   * Merchant profiles of the adapter. Orders are fetched with the
+   * credentials of the profile stored on the transaction.
+   */
+  merchants?: SveaMerchantProfile[]
+  /** Timeouts, retries and circuit breaking for calls to Svea */
+  http?: SveaHttpOptions
   collections?: SveaHandlerConfig['collections']
-}) {
+  /**
+   * Policy when the Svea order total differs from the transaction
+   * @default 'review'
+   */
+  onMismatch?: SveaAmountMismatchPolicy
+  /**
+   * Allowed difference in minor units
+   * @default 0
+   */
+  amountTolerance?: number
+  /**
+   * Client IPs allowed to send push notifications. Read from the
+   * `x-forwarded-for` / `x-real-ip` headers.
+   */
+  allowedIps?: string[]
+  /**
+   * Number of proxies in front of the app appending to `x-forwarded-for`.
+   * The client IP is the entry this many places from the right.
+   * @default 1
+   */
+  trustedProxies?: number
+  /**
+   * Shared secret expected in the `secret` query parameter. Must match
+   * the adapter's `pushSecret`.
+   * @default process.env.SVEA_PUSH_SECRET
+   */
+  pushSecret?: string
+  /**
+   * Response to pushes failing the IP or secret check: `'reject'` answers
+   * 401, `'ignore'` answers 200 without acting on them
+   * @default 'reject'
+   */
+  onUnverified?: 'reject' | 'ignore'
+  /**
+   * Store every push and its outcome in the `svea-events` collection
+   * @default false
+   */
+  eventLog?: boolean
+  /**
+   * Commit inventory reservations on `Final` and release them on
+   * `Cancelled`. Must match the adapter's `reservations` option.
+   * @default false
+   */
+  reservations?: boolean | SveaReservationOptions
+}): SveaCoreHandler {
   const collections = { ...DEFAULT_COLLECTIONS, ...options.collections }
+  const {
+    onMismatch = 'review',
+    amountTolerance = 0,
+    allowedIps,
+    trustedProxies,
+    pushSecret = process.env.SVEA_PUSH_SECRET,
+    onUnverified = 'reject',
+  } = options
+
+  const eventLog = options.eventLog
+    ? createSveaEventLog({
+        slug: collections.events,
+        transactionsSlug: collections.transactions,
+      })
+    : undefined
+
+  const reservations = options.reservations
+    ? createSveaInventoryReservations({
+        ...(options.reservations === true ? {} : options.reservations),
+        slug: collections.reservations,
+        productsSlug: collections.products,
+        variantsSlug: collections.variants,
+      })
+    : undefined
+
+  const merchantClients = createSveaMerchantClients({
+    merchantId: options.merchantId,
+    secretKey: options.secretKey,
+    checkoutApiUrl: options.checkoutApiUrl,
+    merchants: options.merchants,
+    http: options.http,
+  })
+
+  async function handleWebhook(
+    request: SveaHandlerRequest,
+  ): Promise<SveaHandlerResponse> {
+    const headers = new Headers(request.headers)
 
-  async function handleWebhook(req: NextRequest) {
     console.log('[Svea Webhook] Request received at:', new Date().toISOString())
 
+    const event: SveaEventInput = {
+      type: 'push',
+      method: request.method,
+      url: request.url,
+      outcome: 'accepted',
+    }
+
     let payload
     try {
       payload = await options.getPayload()
 
-      const url = new URL(req.url)
+      const verification = verifySveaPushRequest({
+        url: request.url,
+        headers,
+        allowedIps,
+        trustedProxies,
+        pushSecret,
+      })
+
+      if (!verification.verified) {
+        event.outcome = onUnverified === 'reject' ? 'rejected' : 'ignored'
+        event.error = verification.reason
+        payload.logger.warn(
+          {
+            decision: onUnverified === 'reject' ? 'rejected' : 'ignored',
+            reason: verification.reason,
+            clientIp: verification.clientIp,
+          },
+          'Svea webhook failed verification',
+        )
+        return onUnverified === 'reject'
+          ? sveaJson({ success: false }, { status: 401 })
+          : sveaJson(null, { status: 200 })
+      }
+
+      const url = new URL(request.url)
       const queryOrderId =
         url.searchParams.get('orderId') ?? url.searchParams.get('OrderId')
       const queryStatus =
@@ -66,10 +207,10 @@ export function createSveaWebhookHandler(options: {
 
       // Parse body
       let body: Record<string, unknown> = {}
-      const contentType = req.headers.get('content-type') || ''
+      const contentType = headers.get('content-type') || ''
 
       try {
-        const bodyText = await req.text()
+        const bodyText = request.body
         if (bodyText) {
           if (contentType.includes('application/json')) {
             body = JSON.parse(bodyText)
@@ -93,6 +234,8 @@ export function createSveaWebhookHandler(options: {
         // Ignore parse errors
       }
 
+      event.request = { body, clientIp: verification.clientIp }
+
       // Resolve order ID and status from various sources
       const orderId =
         (body.OrderId as number | string | undefined) ??
@@ -104,31 +247,41 @@ export function createSveaWebhookHandler(options: {
         queryOrderId ??
         orderIdFromPath
 
-      const status =
+      // Only logged - Svea's order status is authoritative
+      const pushedStatus =
         (body.Status as string | undefined) ??
         (body.status as string | undefined) ??
         ((body.Data as Record<string, unknown>)?.Status as string | undefined) ??
         queryStatus
 
-      const paymentType =
-        (body.PaymentType as string) ??
-        (body.paymentType as string) ??
-        ((body.Data as Record<string, unknown>)?.PaymentType as string)
-
       if (!orderId) {
+        event.outcome = 'ignored'
+        event.error = 'Missing OrderId'
         console.warn('[Svea Webhook] Missing OrderId')
         payload.logger.warn(
           { body, queryParams: Object.fromEntries(url.searchParams.entries()) },
           'Svea webhook missing OrderId',
         )
-        return new NextResponse(null, { status: 200 })
+        return sveaJson(null, { status: 200 })
       }
 
       const orderIdNum =
         typeof orderId === 'string' ? parseInt(orderId, 10) : orderId
 
+      if (!Number.isFinite(orderIdNum)) {
+        event.outcome = 'ignored'
+        event.error = 'Invalid OrderId'
+        payload.logger.warn(
+          { orderId, decision: 'ignored' },
+          'Svea webhook has an invalid OrderId',
+        )
+        return sveaJson(null, { status: 200 })
+      }
+
+      event.sveaOrderId = orderIdNum as number
+
       payload.logger.info(
-        { orderId: orderIdNum, status, paymentType },
+        { orderId: orderIdNum, pushedStatus, clientIp: verification.clientIp },
         'Received Svea webhook',
       )
 
@@ -146,11 +299,82 @@ export function createSveaWebhookHandler(options: {
       const transaction = transactionsResults.docs[0]
 
       if (!transaction) {
+        event.outcome = 'ignored'
+        event.error = 'Transaction not found'
         payload.logger.warn(
-          { orderId: orderIdNum },
+          { orderId: orderIdNum, decision: 'ignored' },
           'Transaction not found for Svea order',
         )
-        return new NextResponse(null, { status: 200 })
+        return sveaJson(null, { status: 200 })
+      }
+
+      event.transaction = transaction.id
+
+      // Re-fetch the order through the signed Checkout API
+      let sveaOrder: SveaOrder
+      try {
+        sveaOrder = await withSveaEventLog(
+          merchantClients.checkoutClient(
+            getSveaMerchantProfileName(transaction),
+          ),
+          eventLog,
+          payload,
+        ).getOrder(orderIdNum)
+      } catch (fetchError) {
+        // Svea retries pushes that are not answered with 200, so outages
+        // are worth a retry while unknown orders are not
+        const retry =
+          fetchError instanceof SveaUnavailableError ||
+          (fetchError instanceof SveaApiError && fetchError.status >= 500)
+        const decision = retry ? 'retry' : 'ignored'
+        event.outcome = decision
+        event.error = 'Svea order could not be fetched'
+        payload.logger.warn(
+          {
+            orderId: orderIdNum,
+            decision,
+            error:
+              fetchError instanceof Error ? fetchError.message : fetchError,
+          },
+          retry
+            ? 'Svea order could not be fetched - asking Svea to retry'
+            : 'Svea order could not be fetched - ignoring webhook',
+        )
+        return sveaJson(null, { status: retry ? 503 : 200 })
+      }
+
+      const status = sveaOrder.Status
+      event.status = status
+
+      if (pushedStatus && pushedStatus !== status) {
+        payload.logger.warn(
+          { orderId: orderIdNum, pushedStatus, sveaStatus: status },
+          'Pushed status differs from Svea - using Svea status',
+        )
+      }
+
+      const storedClientOrderNumber = (
+        transaction.svea as { clientOrderNumber?: string } | undefined
+      )?.clientOrderNumber
+
+      if (
+        storedClientOrderNumber &&
+        sveaOrder.ClientOrderNumber &&
+        storedClientOrderNumber !== sveaOrder.ClientOrderNumber
+      ) {
+        event.outcome = 'ignored'
+        event.error = 'ClientOrderNumber does not match transaction'
+        payload.logger.warn(
+          {
+            orderId: orderIdNum,
+            transactionId: transaction.id,
+            decision: 'ignored',
+            storedClientOrderNumber,
+            sveaClientOrderNumber: sveaOrder.ClientOrderNumber,
+          },
+          'Svea order does not belong to transaction - ignoring webhook',
+        )
+        return sveaJson(null, { status: 200 })
       }
 
       payload.logger.info(
@@ -158,6 +382,8 @@ export function createSveaWebhookHandler(options: {
           orderId: orderIdNum,
           transactionId: transaction.id,
           currentStatus: transaction.status,
+          sveaStatus: status,
+          decision: 'accepted',
         },
         'Found transaction for Svea webhook',
       )
@@ -165,173 +391,77 @@ export function createSveaWebhookHandler(options: {
       if (status === 'Final') {
         // Check if already processed
         if (transaction.status === 'succeeded' && transaction.order) {
+          event.outcome = 'already-processed'
           payload.logger.info(
             { orderId: orderIdNum, transactionId: transaction.id },
             'Transaction already succeeded - idempotent',
           )
-          return NextResponse.json({
+          return sveaJson({
             success: true,
             message: 'Already processed',
           })
         }
 
-        const existingSveaData =
-          transaction.svea && typeof transaction.svea === 'object'
-            ? (transaction.svea as Record<string, unknown>)
-            : {}
+        // Compare what Svea charged with what Payload recorded
+        const reconciliation = reconcileSveaOrderAmount(
+          sveaOrder,
+          transaction,
+          amountTolerance,
+        )
+        const amountMismatch = reconciliation.matches
+          ? undefined
+          : createSveaAmountMismatch(reconciliation, onMismatch)
 
-        // Update transaction status
-        await payload.update({
-          id: transaction.id,
-          collection: collections.transactions,
-          data: {
-            status: 'succeeded',
-            svea: {
-              ...existingSveaData,
+        if (amountMismatch) {
+          payload.logger.warn(
+            {
               orderId: orderIdNum,
-              paymentType: paymentType || existingSveaData.paymentType,
+              transactionId: transaction.id,
+              ...amountMismatch,
             },
-          },
-        })
-
-        // Check if order exists
-        let existingOrderId: number | undefined
-
-        if (transaction.order) {
-          existingOrderId =
-            typeof transaction.order === 'object'
-              ? (transaction.order as { id: number }).id
-              : (transaction.order as number)
-        } else {
-          const existingOrderLookup = await payload.find({
-            collection: collections.orders,
-            where: {
-              transactions: {
-                contains: transaction.id,
-              },
-            },
-            limit: 1,
-          })
-          existingOrderId = existingOrderLookup.docs?.[0]?.id as
-            | number
-            | undefined
-        }
+            'Svea order amount does not match transaction',
+          )
 
-        // Create order if it doesn't exist
-        if (!existingOrderId) {
-          const cartId = transaction.cart
-          const cart =
-            cartId && typeof cartId === 'object'
-              ? cartId
-              : cartId
-                ? await payload.findByID({
-                    collection: collections.carts,
-                    id: cartId as number,
-                  })
-                : null
-
-          if (cart) {
-            const normalizedItems = ((cart.items as unknown[]) || []).map(
-              (item: unknown) => {
-                const typedItem = item as {
-                  product?: number | { id?: number } | null
-                  variant?: number | { id?: number } | null
-                  quantity?: number
-                }
-                return {
-                  product:
-                    typeof typedItem.product === 'object'
-                      ? typedItem.product?.id
-                      : typedItem.product,
-                  variant: typedItem.variant
-                    ? typeof typedItem.variant === 'object'
-                      ? typedItem.variant.id
-                      : typedItem.variant
-                    : undefined,
-                  quantity: typedItem.quantity || 1,
-                }
-              },
+          if (onMismatch === 'reject') {
+            event.outcome = 'amount-mismatch'
+            await recordSveaAmountMismatch(
+              payload,
+              transaction,
+              collections.transactions,
+              amountMismatch,
             )
-
-            // Resolve customer
-            const cartCustomerId =
-              cart.customer && typeof cart.customer === 'object'
-                ? (cart.customer as { id: number }).id
-                : cart.customer
-            const transactionCustomerId =
-              transaction.customer && typeof transaction.customer === 'object'
-                ? (transaction.customer as { id: number }).id
-                : transaction.customer
-            const customerId = cartCustomerId || transactionCustomerId
-
-            const order = await payload.create({
-              collection: collections.orders,
-              data: {
-                ...(customerId ? { customer: customerId } : {}),
-                ...(transaction.customerEmail
-                  ? { customerEmail: transaction.customerEmail }
-                  : {}),
-                items: normalizedItems,
-                amount:
-                  (transaction.amount as number) ||
-                  (cart.subtotal as number) ||
-                  0,
-                currency: (transaction.currency ||
-                  cart.currency ||
-                  'NOK') as string,
-                status: 'processing',
-                transactions: [transaction.id],
-              },
+            return sveaJson({
+              success: false,
+              message: 'Amount mismatch - order requires review',
             })
+          }
+        }
 
-            payload.logger.info(
-              {
-                orderId: orderIdNum,
-                transactionId: transaction.id,
-                payloadOrderId: order.id,
-              },
-              'Created order from webhook',
-            )
-
-            // Link order to transaction
-            await payload.update({
-              id: transaction.id,
-              collection: collections.transactions,
-              data: {
-                order: order.id,
-              },
-            })
+        const { orderID, created } = await finalizeSveaOrder({
+          payload,
+          transactionId: transaction.id,
+          sveaOrder,
+          amountMismatch,
+          ordersSlug: collections.orders,
+          transactionsSlug: collections.transactions,
+          cartsSlug: collections.carts,
+          customersSlug: collections.customers,
+          reservations,
+        })
 
-            // Update cart
-            try {
-              await payload.update({
-                id: cart.id as number,
-                collection: collections.carts,
-                data: {
-                  purchasedAt:
-                    (cart.purchasedAt as string) || new Date().toISOString(),
-                  status: 'purchased',
-                  items: [],
-                },
-              })
-            } catch (cartError) {
-              payload.logger.warn(
-                { cartId: cart.id, error: cartError },
-                'Could not update cart in webhook',
-              )
-            }
-          } else {
-            payload.logger.warn(
-              { orderId: orderIdNum, transactionId: transaction.id },
-              'No cart found for transaction in webhook',
-            )
-          }
-        } else {
-          payload.logger.info(
-            { orderId: orderIdNum, transactionId: transaction.id, existingOrderId },
-            'Order already exists - skipping creation',
-          )
+        if (!created) {
+          event.outcome = 'already-processed'
         }
+
+        payload.logger.info(
+          {
+            orderId: orderIdNum,
+            transactionId: transaction.id,
+            payloadOrderId: orderID,
+            created,
+          },
+          'Finalized order from webhook',
+        )
       } else if (status === 'Cancelled') {
         await payload.update({
           id: transaction.id,
@@ -340,18 +470,22 @@ export function createSveaWebhookHandler(options: {
             status: 'failed',
           },
         })
+        await reservations?.release(payload, transaction.id)
         payload.logger.info(
           { orderId: orderIdNum, transactionId: transaction.id },
           'Transaction marked as failed',
         )
       }
 
-      return NextResponse.json({ success: true })
+      return sveaJson({ success: true })
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error'
       console.error('[Svea Webhook] Error:', error)
 
+      event.outcome = 'failed'
+      event.error = errorMessage
+
       try {
         if (!payload) {
           payload = await options.getPayload()
@@ -365,13 +499,47 @@ export function createSveaWebhookHandler(options: {
       }
 
       // Return 200 to prevent retries
-      return new NextResponse(null, { status: 200 })
+      return sveaJson(null, { status: 200 })
+    } finally {
+      if (eventLog && payload) {
+        await eventLog.record(payload, event)
+      }
     }
   }
 
+  return handleWebhook
+}
+
+/**
+ * Creates a webhook handler for Svea push notifications
+ *
+ * Verification and processing are done by `createSveaWebhookCore`.
+ *
+ * @example
+ * ```ts
+ * // app/api/payments/svea/webhook/route.ts
+ * import { createSveaWebhookHandler } from '@sanderjevnaker/payload-svea-adapter/handlers'
+ * import { getPayload } from 'payload'
+ * import config from '@payload-config'
+ *
+ * const handler = createSveaWebhookHandler({
+ *   getPayload: () => getPayload({ config }),
+ *   merchantId: process.env.SVEA_MERCHANT_ID!,
+ *   secretKey: process.env.SVEA_SECRET_KEY!,
+ *   pushSecret: process.env.SVEA_PUSH_SECRET,
+ * })
+ *
+ * export const POST = handler.POST
+ * export const GET = handler.GET
+ * ```
+ */
+export function createSveaWebhookHandler(
+  options: Parameters<typeof createSveaWebhookCore>[0],
+) {
+  const handler = toFetchHandler(createSveaWebhookCore(options))
+
   return {
-    POST: handleWebhook,
-    GET: handleWebhook,
+    POST: handler,
+    GET: handler,
   }
 }
-
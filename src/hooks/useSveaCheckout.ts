@@ -4,11 +4,27 @@ import { useCallback, useEffect, useState } from 'react'
 
 const STORAGE_KEY = 'svea:lastOrder'
 const PENDING_ORDER_TIMEOUT_MS = 30 * 60 * 1000 // 30 minutes
+const UPDATE_ORDER_ENDPOINT = '/api/payments/svea/update-order'
+
+/**
+ * Svea Checkout JavaScript API exposed by the checkout snippet
+ */
+interface SveaCheckoutApi {
+  setCheckoutEnabled?: (enabled: boolean) => void
+}
+
+declare global {
+  interface Window {
+    scoApi?: SveaCheckoutApi
+  }
+}
 
 interface StoredSveaOrder {
   orderId?: string | number
   transactionId?: string | number
   clientOrderNumber?: string
+  /** Authorizes updates of the checkout by this browser */
+  checkoutToken?: string
   savedAt?: number
 }
 
@@ -17,9 +33,18 @@ interface SveaPaymentResponse {
   orderId?: number | string
   transactionId?: number | string
   clientOrderNumber?: string
+  checkoutToken?: string
   [key: string]: unknown
 }
 
+interface SveaUpdateOrderResponse {
+  message?: string
+  orderId?: number | string
+  transactionId?: number | string
+  amount?: number
+  error?: string
+}
+
 interface UseSveaCheckoutOptions {
   /**
    * Session storage key for stored order info
@@ -31,6 +56,11 @@ interface UseSveaCheckoutOptions {
    * @default 1800000 (30 minutes)
    */
   pendingOrderTimeout?: number
+  /**
+   * API endpoint for updating the Svea order after cart changes
+   * @default '/api/payments/svea/update-order'
+   */
+  updateOrderEndpoint?: string
 }
 
 interface UseSveaCheckoutReturn {
@@ -47,6 +77,15 @@ interface UseSveaCheckoutReturn {
    * Call this after initiatePayment('svea', ...) returns
    */
   handleSveaPaymentResponse: (response: SveaPaymentResponse) => void
+  /**
+   * Send the current cart to the open Svea order and reload the checkout.
+   * Call this after the customer changes the cart.
+   */
+  updateSveaCheckout: () => Promise<SveaUpdateOrderResponse>
+  /**
+   * Whether a cart update is in progress
+   */
+  isUpdating: boolean
   /**
    * Clear the current Svea checkout session
    */
@@ -68,6 +107,7 @@ interface UseSveaCheckoutReturn {
  * - Storing order info to sessionStorage for the confirmation page
  * - Detecting pending orders (started but not completed)
  * - Managing the checkout snippet state
+ * - Updating the open Svea order when the cart changes
  *
  * @example
  * ```tsx
@@ -111,6 +151,7 @@ export function useSveaCheckout(
   const {
     storageKey = STORAGE_KEY,
     pendingOrderTimeout = PENDING_ORDER_TIMEOUT_MS,
+    updateOrderEndpoint = UPDATE_ORDER_ENDPOINT,
   } = options
 
   const [checkoutSnippet, setCheckoutSnippet] = useState<string | null>(null)
@@ -118,6 +159,7 @@ export function useSveaCheckout(
   const [storedOrderInfo, setStoredOrderInfo] = useState<StoredSveaOrder | null>(
     null,
   )
+  const [isUpdating, setIsUpdating] = useState(false)
 
   // Check for pending order on mount
   useEffect(() => {
@@ -141,8 +183,13 @@ export function useSveaCheckout(
 
   const handleSveaPaymentResponse = useCallback(
     (response: SveaPaymentResponse) => {
-      const { checkoutSnippet, orderId, transactionId, clientOrderNumber } =
-        response
+      const {
+        checkoutSnippet,
+        orderId,
+        transactionId,
+        clientOrderNumber,
+        checkoutToken,
+      } = response
 
       if (checkoutSnippet) {
         setCheckoutSnippet(checkoutSnippet)
@@ -157,6 +204,7 @@ export function useSveaCheckout(
           orderId,
           transactionId,
           clientOrderNumber,
+          checkoutToken,
           savedAt: Date.now(),
         }
         window.sessionStorage.setItem(storageKey, JSON.stringify(orderInfo))
@@ -166,6 +214,45 @@ export function useSveaCheckout(
     [storageKey],
   )
 
+  const updateSveaCheckout = useCallback(async () => {
+    if (!storedOrderInfo?.transactionId && !storedOrderInfo?.orderId) {
+      throw new Error('No Svea order to update')
+    }
+
+    setIsUpdating(true)
+    // Lock the checkout while the cart is updated
+    window.scoApi?.setCheckoutEnabled?.(false)
+
+    try {
+      const response = await fetch(updateOrderEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          transactionId: storedOrderInfo.transactionId,
+          orderId: storedOrderInfo.orderId,
+          checkoutToken: storedOrderInfo.checkoutToken,
+        }),
+        credentials: 'include',
+      })
+
+      const result = (await response.json()) as SveaUpdateOrderResponse
+
+      if (!response.ok) {
+        throw new Error(
+          result.error || `Failed to update order: ${response.status}`,
+        )
+      }
+
+      return result
+    } finally {
+      // Re-enabling reloads the checkout with the updated cart
+      window.scoApi?.setCheckoutEnabled?.(true)
+      setIsUpdating(false)
+    }
+  }, [storedOrderInfo, updateOrderEndpoint])
+
   const clearCheckout = useCallback(() => {
     setCheckoutSnippet(null)
   }, [])
@@ -182,6 +269,8 @@ export function useSveaCheckout(
     checkoutSnippet,
     hasPendingOrder,
     handleSveaPaymentResponse,
+    updateSveaCheckout,
+    isUpdating,
     clearCheckout,
     clearPendingOrder,
     storedOrderInfo,
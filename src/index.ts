@@ -5,13 +5,103 @@
  */
 
 // Main adapter export
-export { sveaAdapter, SVEA_API_URLS, createSveaAuthHeaders } from './adapter'
+export {
+  sveaAdapter,
+  SVEA_API_URLS,
+  SveaCheckoutClient,
+  SVEA_ADMIN_API_URLS,
+  SveaPaymentAdminClient,
+  sveaOrderActionsField,
+  sveaRecurringMerchantProfileField,
+  sveaRecurringTokenField,
+  sveaShippingField,
+  SVEA_ORDER_ACTIONS_COMPONENT,
+  applySveaCartAdjustments,
+  buildSveaOrderRows,
+  calculateSveaOrderTotal,
+  calculateSveaRowAmount,
+  createTaxClassVatResolver,
+  mapCartItemToSveaOrderRow,
+  resolveCartShippingMethod,
+  resolveCurrencyPrice,
+  getSveaOrderRows,
+  reconcileSveaOrderAmount,
+  finalizeSveaOrder,
+  compareSveaOrderRows,
+  getSveaInventory,
+  rejectSveaValidation,
+  SVEA_VALIDATION_MESSAGES,
+  validateSveaCartRows,
+  validateSveaCheckout,
+  validateSveaStock,
+  createSveaEventLog,
+  redactSveaEventData,
+  SVEA_EVENTS_SLUG,
+  sveaEventLogPlugin,
+  sveaEventsCollection,
+  createSveaInventoryReservations,
+  describeSveaShortages,
+  SVEA_RESERVATIONS_SLUG,
+  sveaReservationsCollection,
+  sveaReservationsPlugin,
+  toSveaReservationItems,
+  createSveaSweepTask,
+  SVEA_SWEEP_TASK_SLUG,
+  sweepSveaPendingTransactions,
+  createSveaReconciliationTask,
+  reconcileSveaTransactions,
+  SVEA_RECONCILIATION_REPORTS_SLUG,
+  SVEA_RECONCILIATION_TASK_SLUG,
+  sveaReconciliationPlugin,
+  sveaReconciliationReportsCollection,
+  chargeSveaRecurringToken,
+  buildSveaShippingInformation,
+  getSveaShippingDetails,
+  hasSveaShippingRecorded,
+  isSveaShippingRow,
+  buildSveaCompanyPresetValues,
+  buildSveaPresetValues,
+  mergeSveaPresetValues,
+  resolveSveaIdentityFlags,
+  SVEA_PRESET_TYPE_NAMES,
+  getSveaCompanyDetails,
+  getSveaRecurringMerchantProfile,
+  getSveaRecurringToken,
+  storeSveaRecurringToken,
+  SVEA_RECURRING_MERCHANT_PROFILE_FIELD,
+  SVEA_RECURRING_TOKEN_FIELD,
+  createSveaMerchantClients,
+  getSveaMerchantProfileName,
+  selectSveaMerchantProfile,
+  SVEA_DEFAULT_MERCHANT_PROFILE,
+  buildSveaPushUri,
+  getSveaPushClientIp,
+  SVEA_PUSH_SECRET_PARAM,
+  verifySveaPushRequest,
+  isSveaAdmin,
+  createSveaAuthHeaders,
+  createSveaCircuitBreaker,
+  SVEA_DEFAULT_TIMEOUT_MS,
+  SveaError,
+  SveaApiError,
+  SveaUnavailableError,
+  SveaValidationError,
+  SveaOutOfStockError,
+  SveaTransactionNotFoundError,
+  SveaCartNotFoundError,
+  SveaOrderStateError,
+  SveaOrderNotFinalError,
+  SveaAmountMismatchError,
+  getSveaErrorResponse,
+} from './adapter'
 
 // Types
 export type {
   SveaAdapterConfig,
   SveaAddress,
   SveaCart,
+  SveaBusinessCheckoutOptions,
+  SveaCompanyDetails,
   SveaCustomer,
   SveaGui,
   SveaIdentityFlags,
@@ -20,10 +110,92 @@ export type {
   SveaOrderRow,
   SveaPaymentInfo,
   SveaPresetValue,
+  SveaPresetContext,
+  SveaPresetField,
+  SveaPresetFieldOptions,
+  SveaPresetValuesOptions,
   SveaShippingInformation,
+  SveaShippingFallbackOption,
+  SveaShippingSelection,
+  SveaShippingDetails,
+  SveaShippingOptions,
+  SveaCheckoutClientConfig,
+  SveaFetch,
   CreateSveaOrderRequest,
   CreateSveaOrderResponse,
   GetSveaOrderResponse,
+  UpdateSveaOrderRequest,
+  UpdateSveaOrderResponse,
+  CreateSveaTokenOrderRequest,
+  CreateSveaTokenOrderResponse,
+  SveaPaymentAdminClientConfig,
+  SveaAdminOrder,
+  SveaAdminOrderRow,
+  SveaAdminDelivery,
+  SveaAdminCredit,
+  DeliverSveaOrderResponse,
+  CreditSveaOrderResponse,
+  SveaAdminStatus,
+  SveaAdminActions,
+  SveaAdminActionArgs,
+  SveaAdminActionResult,
+  SveaCaptureOrderArgs,
+  SveaRefundOrderArgs,
+  SveaCancelOrderArgs,
+  SveaPaymentAdapter,
+  SveaUpdateCheckoutArgs,
+  SveaUpdateCheckoutResult,
+  SveaCartItem,
+  SveaOrderRowContext,
+  SveaOrderRowResolvers,
+  SveaCartAdjustmentContext,
+  SveaCartAdjustmentResolvers,
+  SveaChargeRow,
+  SveaDiscountRow,
+  SveaAmountMismatch,
+  SveaAmountMismatchPolicy,
+  SveaAmountReconciliation,
+  SveaFinalizeOrderArgs,
+  SveaFinalizeOrderResult,
+  SveaValidationFailureReason,
+  SveaValidationOptions,
+  SveaValidationResult,
+  SveaApiCall,
+  SveaApiCallListener,
+  SveaEventType,
+  SveaEventInput,
+  SveaEventLog,
+  SveaEventsCollectionOptions,
+  SveaInventoryReservations,
+  SveaReservationItem,
+  SveaReservationOptions,
+  SveaReservationShortage,
+  SveaReservationStatus,
+  SveaReservationsCollectionOptions,
+  SveaSweepEntry,
+  SveaSweepOptions,
+  SveaSweepOutcome,
+  SveaSweepResult,
+  SveaSweepTaskOptions,
+  SveaReconciliationFailure,
+  SveaReconciliationFix,
+  SveaReconciliationFixType,
+  SveaReconciliationOptions,
+  SveaReconciliationReportsCollectionOptions,
+  SveaReconciliationResult,
+  SveaReconciliationTaskOptions,
+  SveaRecurringChargeArgs,
+  SveaRecurringChargeResult,
+  SveaMerchantProfile,
+  SveaMerchantClients,
+  SveaHttpOptions,
+  SveaRetryOptions,
+  SveaCircuitBreaker,
+  SveaCircuitBreakerOptions,
+  SveaCircuitState,
+  SveaErrorOptions,
+  SveaPushVerification,
+  SveaPushVerificationOptions,
   PayloadAddress,
 } from './adapter/types'
 
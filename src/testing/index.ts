@@ -0,0 +1,22 @@
+/**
+ * Test utilities for Svea Payment Adapter
+ *
+ * `createSveaMockServer` runs the Svea Checkout API and Payment Admin API
+ * in-process, so checkouts can be exercised without Svea's stage
+ * environment.
+ *
+ * @packageDocumentation
+ */
+
+export { createSveaMockServer } from './mock-server'
+
+export type {
+  SveaMockCallbackResult,
+  SveaMockCheckoutDetails,
+  SveaMockFailure,
+  SveaMockFinalizeResult,
+  SveaMockMerchant,
+  SveaMockRequest,
+  SveaMockServer,
+  SveaMockServerOptions,
+} from './types'
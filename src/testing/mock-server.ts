@@ -0,0 +1,995 @@
+import crypto from 'crypto'
+import http from 'http'
+import type { AddressInfo } from 'net'
+
+import {
+  calculateSveaOrderTotal,
+  calculateSveaRowAmount,
+} from '../adapter/order-rows'
+import type {
+  CreateSveaOrderRequest,
+  CreateSveaTokenOrderRequest,
+  SveaAdminCredit,
+  SveaAdminOrder,
+  SveaAdminOrderRow,
+  SveaOrder,
+  SveaOrderRow,
+  SveaPresetValue,
+  UpdateSveaOrderRequest,
+} from '../adapter/types'
+import type {
+  SveaMockCallbackResult,
+  SveaMockCheckoutDetails,
+  SveaMockFailure,
+  SveaMockRequest,
+  SveaMockServer,
+  SveaMockServerOptions,
+} from './types'
+
+/** Placeholder Svea replaces with the order ID in callback URIs */
+const ORDER_URI_PLACEHOLDER = '{checkout.order.uri}'
+
+/**
+ * Error answered with its status and an `ErrorMessage` header
+ */
+class SveaMockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Order row with the Payment Admin state of the mock
+ */
+interface MockOrderRow extends SveaOrderRow {
+  rowId: number
+  deliveryId?: number
+  credited?: boolean
+}
+
+/**
+ * Delivery (capture) of a mock order
+ */
+interface MockDelivery {
+  id: number
+  creationDate: string
+  rowIds: number[]
+  amount: number
+  credits: SveaAdminCredit[]
+}
+
+/**
+ * A mock order with both its checkout and Payment Admin state
+ */
+interface MockOrderRecord {
+  merchantId: string
+  order: SveaOrder
+  rows: MockOrderRow[]
+  presetValues: SveaPresetValue[]
+  /** Recurring token the order was charged with */
+  token?: string
+  adminCancelled: boolean
+  cancelledAmount: number
+  deliveries: MockDelivery[]
+}
+
+/**
+ * Parses the `YYYY-MM-DD HH:MM:SS` UTC timestamp Svea signs with
+ */
+function parseSveaTimestamp(timestamp: string): number {
+  return Date.parse(`${timestamp.replace(' ', 'T')}Z`)
+}
+
+/**
+ * Builds a mock API response; errors carry Svea's `ErrorMessage` header
+ */
+function respond(
+  status: number,
+  body?: unknown,
+  errorMessage?: string,
+): Response {
+  const hasBody = body !== undefined && status !== 204
+  return new Response(hasBody ? JSON.stringify(body) : null, {
+    status,
+    headers: {
+      ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+      ...(errorMessage ? { ErrorMessage: errorMessage } : {}),
+    },
+  })
+}
+
+/**
+ * Reads a callback response body as JSON, falling back to text
+ */
+async function readCallbackBody(response: Response): Promise<unknown> {
+  const text = await response.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+/**
+ * Strips the mock's Payment Admin state from an order row
+ */
+function toSveaOrderRow(row: MockOrderRow): SveaOrderRow {
+  const { rowId, deliveryId, credited, ...sveaRow } = row
+  return sveaRow
+}
+
+/**
+ * Checks the rows of a create or update request
+ */
+function assertCartRows(cart: { items?: SveaOrderRow[] } | undefined) {
+  if (!cart?.items?.length) {
+    throw new SveaMockHttpError(400, 'Cart must contain at least one row')
+  }
+  for (const row of cart.items) {
+    if (
+      !row.name ||
+      typeof row.quantity !== 'number' ||
+      row.quantity <= 0 ||
+      typeof row.unitPrice !== 'number' ||
+      typeof row.vatPercent !== 'number'
+    ) {
+      throw new SveaMockHttpError(
+        400,
+        'Order rows require name, quantity, unitPrice and vatPercent',
+      )
+    }
+  }
+}
+
+/**
+ * Creates an in-process Svea Checkout API and Payment Admin API for tests
+ * and offline development
+ *
+ * Requests must be signed like `createSveaAuthHeaders` does, and orders
+ * are kept in memory per merchant. The test drives what the customer and
+ * Svea would do: `finalizeOrder` completes a checkout (calling the
+ * validation callback and sending the push notification), `cancelOrder`
+ * abandons it, and `deliverOrder`/`creditOrder` change it in Payment
+ * Admin. Both APIs share one base URL.
+ *
+ * @example
+ * ```ts
+ * import { createSveaMockServer } from '@jevnakern/payload-svea-adapter/testing'
+ *
+ * const svea = createSveaMockServer({ merchantId: '124842', secretKey: 'test' })
+ * const url = await svea.listen()
+ *
+ * const adapter = sveaAdapter({
+ *   merchantId: '124842',
+ *   secretKey: 'test',
+ *   checkoutApiUrl: url,
+ *   paymentAdminApiUrl: url,
+ * })
+ *
+ * // ...initiate a payment, then complete the checkout as the customer
+ * await svea.finalizeOrder(orderId)
+ * await svea.close()
+ * ```
+ */
+export function createSveaMockServer(
+  options: SveaMockServerOptions,
+): SveaMockServer {
+  const {
+    maxClockSkewSeconds = 300,
+    callbackHeaders = {},
+    tokenOrderStatus = 'Final',
+    firstOrderId = 100001,
+  } = options
+
+  const secrets = new Map<string, string>([
+    [options.merchantId, options.secretKey],
+    ...(options.merchants || []).map(
+      (merchant): [string, string] => [merchant.merchantId, merchant.secretKey],
+    ),
+  ])
+
+  let nextOrderId = firstOrderId
+  let nextDeliveryId = 1
+  const orders = new Map<number, MockOrderRecord>()
+  const tokens = new Map<string, { merchantId: string; orderId: number }>()
+  const requests: SveaMockRequest[] = []
+  let failures: SveaMockFailure[] = []
+  let server: http.Server | undefined
+  let url: string | undefined
+
+  const callbackFetch = (...args: Parameters<typeof fetch>) =>
+    (options.fetch || globalThis.fetch)(...args)
+
+  /**
+   * Verifies the `Authorization` and `Timestamp` headers and returns the
+   * merchant ID
+   */
+  function authenticate(request: Request, body: string): string {
+    const authorization = request.headers.get('authorization') || ''
+    const timestamp = request.headers.get('timestamp') || ''
+    const match = /^Svea\s+(\S+)$/.exec(authorization)
+
+    if (!match || !timestamp) {
+      throw new SveaMockHttpError(401, 'Missing Svea authorization')
+    }
+
+    const decoded = Buffer.from(match[1], 'base64').toString('utf-8')
+    const separator = decoded.indexOf(':')
+    const merchantId = decoded.slice(0, separator)
+    const hash = decoded.slice(separator + 1)
+    const secretKey = secrets.get(merchantId)
+
+    if (separator < 0 || !secretKey) {
+      throw new SveaMockHttpError(401, 'Unknown merchant')
+    }
+
+    const signedAt = parseSveaTimestamp(timestamp)
+    if (
+      !Number.isFinite(signedAt) ||
+      Math.abs(Date.now() - signedAt) > maxClockSkewSeconds * 1000
+    ) {
+      throw new SveaMockHttpError(401, 'Timestamp is outside the allowed window')
+    }
+
+    const expected = crypto
+      .createHash('sha512')
+      .update(body + secretKey + timestamp, 'utf-8')
+      .digest('hex')
+
+    if (
+      hash.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(expected))
+    ) {
+      throw new SveaMockHttpError(401, 'Invalid authorization signature')
+    }
+
+    return merchantId
+  }
+
+  /**
+   * Takes the failure rule matching a request, if any
+   */
+  function takeFailure(
+    method: string,
+    path: string,
+  ): SveaMockFailure | undefined {
+    const failure = failures.find(
+      (rule) =>
+        (!rule.method || rule.method === method) &&
+        (!rule.path ||
+          (typeof rule.path === 'string'
+            ? rule.path === path
+            : rule.path.test(path))),
+    )
+    if (!failure) return undefined
+
+    const times = (failure.times ?? 1) - 1
+    failures = failures.filter((rule) => rule !== failure)
+    if (times > 0) failures.unshift({ ...failure, times })
+    return failure
+  }
+
+  function getRecord(orderId: number, merchantId?: string): MockOrderRecord {
+    const record = orders.get(orderId)
+    if (!record || (merchantId && record.merchantId !== merchantId)) {
+      throw new SveaMockHttpError(404, `Order ${orderId} not found`)
+    }
+    return record
+  }
+
+  function toCheckoutOrder(record: MockOrderRecord): SveaOrder {
+    return structuredClone({
+      ...record.order,
+      Cart: { items: record.rows.map(toSveaOrderRow) },
+    })
+  }
+
+  function toAdminRow(row: MockOrderRow, actions: string[]): SveaAdminOrderRow {
+    return {
+      OrderRowId: row.rowId,
+      ...(row.articleNumber ? { ArticleNumber: row.articleNumber } : {}),
+      Name: row.name,
+      Quantity: row.quantity,
+      UnitPrice: row.unitPrice,
+      ...(row.discountPercent ? { DiscountPercent: row.discountPercent } : {}),
+      VatPercent: row.vatPercent,
+      IsCancelled: false,
+      Actions: actions,
+    }
+  }
+
+  function remainingAmount(record: MockOrderRecord): number {
+    const delivered = record.deliveries.reduce(
+      (sum, delivery) => sum + delivery.amount,
+      0,
+    )
+    return calculateSveaOrderTotal(record.rows) - delivered - record.cancelledAmount
+  }
+
+  function toAdminOrder(record: MockOrderRecord): SveaAdminOrder {
+    const openRows = record.rows.filter((row) => !row.deliveryId)
+    const remaining = remainingAmount(record)
+    const isOpen = !record.adminCancelled && remaining > 0
+
+    return structuredClone({
+      Id: record.order.OrderId,
+      Currency: record.order.Currency,
+      MerchantOrderId: record.order.ClientOrderNumber,
+      OrderStatus: record.adminCancelled
+        ? 'Cancelled'
+        : isOpen
+          ? 'Open'
+          : 'Delivered',
+      PaymentType: record.order.PaymentType,
+      OrderAmount: calculateSveaOrderTotal(record.rows),
+      CancelledAmount: record.cancelledAmount,
+      Actions: isOpen
+        ? [
+            'CanDeliverOrder',
+            'CanDeliverOrderPartially',
+            ...(record.deliveries.length === 0 ? ['CanCancelOrder'] : []),
+            'CanCancelAmount',
+          ]
+        : [],
+      OrderRows: openRows.map((row) =>
+        toAdminRow(row, isOpen ? ['CanDeliverRow'] : []),
+      ),
+      Deliveries: record.deliveries.map((delivery) => {
+        const creditedAmount = delivery.credits.reduce(
+          (sum, credit) => sum + credit.Amount,
+          0,
+        )
+        const canCredit = creditedAmount < delivery.amount
+        return {
+          Id: delivery.id,
+          CreationDate: delivery.creationDate,
+          DeliveryAmount: delivery.amount,
+          CreditedAmount: creditedAmount,
+          Credits: delivery.credits,
+          OrderRows: record.rows
+            .filter((row) => row.deliveryId === delivery.id)
+            .map((row) =>
+              toAdminRow(row, canCredit && !row.credited ? ['CanCreditRow'] : []),
+            ),
+          Actions: canCredit ? ['CanCreditOrderRows', 'CanCreditAmount'] : [],
+          Status: 'Delivered',
+        }
+      }),
+    })
+  }
+
+  function createRecord(
+    merchantId: string,
+    order: Omit<SveaOrder, 'OrderId' | 'Gui' | 'Cart'>,
+    items: SveaOrderRow[],
+    extra: Partial<MockOrderRecord> = {},
+  ): MockOrderRecord {
+    const orderId = nextOrderId++
+    const record: MockOrderRecord = {
+      merchantId,
+      order: {
+        ...order,
+        OrderId: orderId,
+        Gui: {
+          Snippet: `<div id="svea-checkout-mock" data-order-id="${orderId}"></div>`,
+        },
+        Cart: { items: [] },
+      },
+      rows: items.map((row, index) => ({ ...row, rowId: index + 1 })),
+      presetValues: [],
+      adminCancelled: false,
+      cancelledAmount: 0,
+      deliveries: [],
+      ...extra,
+    }
+    orders.set(orderId, record)
+    return record
+  }
+
+  function getFinalRecord(orderId: number, merchantId?: string) {
+    const record = getRecord(orderId, merchantId)
+    // The Payment Admin API only knows orders that reached Final
+    if (record.order.Status !== 'Final') {
+      throw new SveaMockHttpError(404, `Order ${orderId} not found`)
+    }
+    return record
+  }
+
+  function deliver(record: MockOrderRecord, rowIds: number[]): number {
+    if (record.adminCancelled) {
+      throw new SveaMockHttpError(400, 'Order is cancelled')
+    }
+
+    const openRows = record.rows.filter((row) => !row.deliveryId)
+    const rows =
+      rowIds.length === 0
+        ? openRows
+        : rowIds.map((rowId) => {
+            const row = openRows.find((openRow) => openRow.rowId === rowId)
+            if (!row) {
+              throw new SveaMockHttpError(
+                400,
+                `Order row ${rowId} cannot be delivered`,
+              )
+            }
+            return row
+          })
+
+    if (rows.length === 0) {
+      throw new SveaMockHttpError(400, 'Order has no rows left to deliver')
+    }
+
+    const delivery: MockDelivery = {
+      id: nextDeliveryId++,
+      creationDate: new Date().toISOString(),
+      rowIds: rows.map((row) => row.rowId),
+      amount: calculateSveaOrderTotal(rows),
+      credits: [],
+    }
+    for (const row of rows) row.deliveryId = delivery.id
+    record.deliveries.push(delivery)
+    return delivery.id
+  }
+
+  function credit(
+    record: MockOrderRecord,
+    deliveryId: number,
+    { rowIds, amount }: { rowIds?: number[]; amount?: number },
+  ): number {
+    const delivery = record.deliveries.find((entry) => entry.id === deliveryId)
+    if (!delivery) {
+      throw new SveaMockHttpError(404, `Delivery ${deliveryId} not found`)
+    }
+
+    const creditedAmount = delivery.credits.reduce(
+      (sum, entry) => sum + entry.Amount,
+      0,
+    )
+
+    let rows: MockOrderRow[] = []
+    let creditAmount = amount ?? delivery.amount - creditedAmount
+    if (rowIds?.length) {
+      rows = rowIds.map((rowId) => {
+        const row = record.rows.find(
+          (entry) =>
+            entry.rowId === rowId &&
+            entry.deliveryId === deliveryId &&
+            !entry.credited,
+        )
+        if (!row) {
+          throw new SveaMockHttpError(400, `Order row ${rowId} cannot be credited`)
+        }
+        return row
+      })
+      creditAmount = rows.reduce((sum, row) => sum + calculateSveaRowAmount(row), 0)
+    }
+
+    if (creditAmount <= 0 || creditedAmount + creditAmount > delivery.amount) {
+      throw new SveaMockHttpError(400, 'Credit exceeds the delivered amount')
+    }
+
+    for (const row of rows) row.credited = true
+    delivery.credits.push({
+      Amount: creditAmount,
+      ...(rows.length > 0
+        ? { OrderRows: rows.map((row) => toAdminRow(row, [])) }
+        : {}),
+      Actions: [],
+    })
+    return delivery.credits.length
+  }
+
+  async function sendCallback(
+    uri: string,
+    orderId: number,
+    init: RequestInit,
+  ): Promise<SveaMockCallbackResult> {
+    const callbackUrl = uri.split(ORDER_URI_PLACEHOLDER).join(String(orderId))
+    const response = await callbackFetch(callbackUrl, {
+      ...init,
+      headers: { ...callbackHeaders, ...(init.headers as Record<string, string>) },
+    })
+    return {
+      url: callbackUrl,
+      status: response.status,
+      body: await readCallbackBody(response),
+    }
+  }
+
+  const sendPush: SveaMockServer['sendPush'] = async (orderId) => {
+    const record = getRecord(orderId)
+    const pushUri = record.order.MerchantSettings?.pushUri
+    if (!pushUri) {
+      throw new Error(`Svea mock order ${orderId} has no pushUri.`)
+    }
+    return sendCallback(pushUri, orderId, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ OrderId: orderId, Status: record.order.Status }),
+    })
+  }
+
+  const sendValidationCallback: SveaMockServer['sendValidationCallback'] =
+    async (orderId) => {
+      const uri =
+        getRecord(orderId).order.MerchantSettings?.checkoutValidationCallBackUri
+      return uri ? sendCallback(uri, orderId, { method: 'GET' }) : undefined
+    }
+
+  const finalizeOrder: SveaMockServer['finalizeOrder'] = async (
+    orderId,
+    details = {},
+  ) => {
+    const record = getRecord(orderId)
+    if (record.order.Status !== 'Created') {
+      throw new Error(
+        `Svea mock order ${orderId} is ${record.order.Status}, not Created.`,
+      )
+    }
+
+    const validation =
+      details.validate === false
+        ? undefined
+        : await sendValidationCallback(orderId)
+    if (
+      validation &&
+      (validation.status !== 200 ||
+        (validation.body as { Valid?: boolean } | null)?.Valid !== true)
+    ) {
+      return { order: toCheckoutOrder(record), validation }
+    }
+
+    applyCheckoutDetails(record, details)
+    record.order.Status = 'Final'
+
+    const push = details.push === false ? undefined : await sendPush(orderId)
+
+    return { order: toCheckoutOrder(record), validation, push }
+  }
+
+  function applyCheckoutDetails(
+    record: MockOrderRecord,
+    details: SveaMockCheckoutDetails,
+  ) {
+    const { order } = record
+    const presetEmail = record.presetValues.find(
+      (preset) => preset.typeName === 'EmailAddress',
+    )?.value
+    const emailAddress =
+      details.emailAddress || presetEmail || 'customer@example.com'
+    const billingAddress = details.billingAddress || {
+      FirstName: 'Tess',
+      LastName: 'Persson',
+      FullName: 'Tess Persson',
+      StreetAddress: 'Testgatan 1',
+      PostalCode: '99999',
+      City: 'Stan',
+      CountryCode: order.CountryCode,
+    }
+    const paymentType = details.paymentType || 'Invoice'
+
+    order.EmailAddress = emailAddress
+    order.PhoneNumber = details.phoneNumber
+    order.Customer = {
+      EmailAddress: emailAddress,
+      PhoneNumber: details.phoneNumber,
+      IsCompany: false,
+      ...details.customer,
+    }
+    order.BillingAddress = billingAddress
+    order.ShippingAddress = details.shippingAddress || billingAddress
+    order.PaymentType = paymentType
+    order.Payment = { paymentType }
+    order.CustomerReference = details.customerReference
+    order.PeppolId = details.peppolId
+    order.BillingReferences = details.billingReferences
+
+    if (details.shipping) {
+      order.Shipping = details.shipping
+      const price = details.shipping.price ?? details.shipping.Price ?? 0
+      if (price > 0) {
+        record.rows.push({
+          rowId: record.rows.length + 1,
+          name: details.shipping.name || details.shipping.Name || 'Shipping',
+          quantity: 100,
+          unitPrice: price,
+          vatPercent: 2500,
+          rowType: 'ShippingFee',
+        })
+      }
+    }
+
+    if (order.Recurring) {
+      const token = details.recurringToken || `mock-${crypto.randomUUID()}`
+      tokens.set(token, {
+        merchantId: record.merchantId,
+        orderId: order.OrderId,
+      })
+      order.RecurringToken = token
+    }
+  }
+
+  const cancelOrder: SveaMockServer['cancelOrder'] = async (
+    orderId,
+    { push = true } = {},
+  ) => {
+    const record = getRecord(orderId)
+    if (record.order.Status !== 'Created') {
+      throw new Error(
+        `Svea mock order ${orderId} is ${record.order.Status}, not Created.`,
+      )
+    }
+    record.order.Status = 'Cancelled'
+    if (push) await sendPush(orderId)
+    return toCheckoutOrder(record)
+  }
+
+  /**
+   * Routes a signed request to the Checkout or Payment Admin API
+   */
+  async function route(
+    method: string,
+    path: string,
+    merchantId: string,
+    body: unknown,
+  ): Promise<Response> {
+    let match: RegExpExecArray | null
+
+    // Checkout API
+    if (path === '/api/orders' && method === 'POST') {
+      const request = body as CreateSveaOrderRequest
+      const settings = request.merchantSettings
+      if (
+        !request.countryCode ||
+        !request.currency ||
+        !request.locale ||
+        !request.clientOrderNumber
+      ) {
+        throw new SveaMockHttpError(
+          400,
+          'countryCode, currency, locale and clientOrderNumber are required',
+        )
+      }
+      if (
+        !settings?.termsUri ||
+        !settings.checkoutUri ||
+        !settings.confirmationUri ||
+        !settings.pushUri
+      ) {
+        throw new SveaMockHttpError(
+          400,
+          'merchantSettings require termsUri, checkoutUri, confirmationUri and pushUri',
+        )
+      }
+      assertCartRows(request.cart)
+
+      const record = createRecord(
+        merchantId,
+        {
+          ClientOrderNumber: request.clientOrderNumber,
+          Status: 'Created',
+          Currency: request.currency,
+          Locale: request.locale,
+          CountryCode: request.countryCode,
+          MerchantSettings: settings,
+          IdentityFlags: request.identityFlags,
+          MerchantData: request.merchantData,
+          ShippingInformation: request.shippingInformation,
+          Recurring: request.recurring ?? null,
+          RecurringToken: null,
+        },
+        request.cart.items,
+        { presetValues: request.presetValues || [] },
+      )
+      return respond(201, toCheckoutOrder(record))
+    }
+
+    if ((match = /^\/api\/orders\/(\d+)$/.exec(path))) {
+      const record = getRecord(Number(match[1]), merchantId)
+
+      if (method === 'GET') return respond(200, toCheckoutOrder(record))
+
+      if (method === 'PUT') {
+        if (record.order.Status !== 'Created') {
+          throw new SveaMockHttpError(400, 'Order can no longer be updated')
+        }
+        const request = body as UpdateSveaOrderRequest
+        assertCartRows(request.cart)
+        record.rows = request.cart.items.map((row, index) => ({
+          ...row,
+          rowId: index + 1,
+        }))
+        if (request.merchantData !== undefined) {
+          record.order.MerchantData = request.merchantData
+        }
+        if (request.shippingInformation) {
+          record.order.ShippingInformation = request.shippingInformation
+        }
+        return respond(200, toCheckoutOrder(record))
+      }
+    }
+
+    if ((match = /^\/api\/tokens\/([^/]+)\/orders$/.exec(path)) && method === 'POST') {
+      const token = decodeURIComponent(match[1])
+      const issued = tokens.get(token)
+      if (!issued || issued.merchantId !== merchantId) {
+        throw new SveaMockHttpError(404, 'Recurring token not found')
+      }
+      const request = body as CreateSveaTokenOrderRequest
+      if (!request.currency || !request.clientOrderNumber) {
+        throw new SveaMockHttpError(
+          400,
+          'currency and clientOrderNumber are required',
+        )
+      }
+      assertCartRows(request.cart)
+
+      const source = getRecord(issued.orderId).order
+      const record = createRecord(
+        merchantId,
+        {
+          ClientOrderNumber: request.clientOrderNumber,
+          Status: tokenOrderStatus,
+          Currency: request.currency,
+          Locale: source.Locale,
+          CountryCode: source.CountryCode,
+          MerchantData: request.merchantData,
+          EmailAddress: source.EmailAddress,
+          PhoneNumber: source.PhoneNumber,
+          Customer: source.Customer,
+          BillingAddress: source.BillingAddress,
+          ShippingAddress: source.ShippingAddress,
+          PaymentType: source.PaymentType,
+          Payment: source.Payment,
+          Recurring: null,
+          RecurringToken: null,
+        },
+        request.cart.items,
+        { token },
+      )
+      return respond(201, {
+        OrderId: record.order.OrderId,
+        Status: record.order.Status,
+      })
+    }
+
+    if (
+      (match = /^\/api\/tokens\/([^/]+)\/orders\/(\d+)$/.exec(path)) &&
+      method === 'GET'
+    ) {
+      const record = getRecord(Number(match[2]), merchantId)
+      if (record.token !== decodeURIComponent(match[1])) {
+        throw new SveaMockHttpError(404, `Order ${match[2]} not found`)
+      }
+      return respond(200, toCheckoutOrder(record))
+    }
+
+    // Payment Admin API
+    if ((match = /^\/api\/v1\/orders\/(\d+)$/.exec(path))) {
+      const record = getFinalRecord(Number(match[1]), merchantId)
+
+      if (method === 'GET') return respond(200, toAdminOrder(record))
+
+      if (method === 'PATCH') {
+        const request = (body || {}) as {
+          IsCancelled?: boolean
+          CancelledAmount?: number
+        }
+        if (request.IsCancelled) {
+          if (record.deliveries.length > 0) {
+            throw new SveaMockHttpError(400, 'Delivered orders cannot be cancelled')
+          }
+          record.adminCancelled = true
+          return respond(204)
+        }
+        if (typeof request.CancelledAmount === 'number') {
+          if (
+            request.CancelledAmount <= 0 ||
+            request.CancelledAmount > remainingAmount(record)
+          ) {
+            throw new SveaMockHttpError(
+              400,
+              'Cancelled amount exceeds the remaining amount',
+            )
+          }
+          record.cancelledAmount += request.CancelledAmount
+          return respond(204)
+        }
+        throw new SveaMockHttpError(400, 'Nothing to update')
+      }
+    }
+
+    if (
+      (match = /^\/api\/v1\/orders\/(\d+)\/deliveries$/.exec(path)) &&
+      method === 'POST'
+    ) {
+      const record = getFinalRecord(Number(match[1]), merchantId)
+      const rowIds = (body as { OrderRowIds?: number[] } | null)?.OrderRowIds
+      return respond(200, { DeliveryId: deliver(record, rowIds || []) })
+    }
+
+    if (
+      (match = /^\/api\/v1\/orders\/(\d+)\/deliveries\/(\d+)$/.exec(path)) &&
+      method === 'PATCH'
+    ) {
+      const record = getFinalRecord(Number(match[1]), merchantId)
+      const amount = (body as { CreditedAmount?: number } | null)?.CreditedAmount
+      if (typeof amount !== 'number') {
+        throw new SveaMockHttpError(400, 'CreditedAmount is required')
+      }
+      credit(record, Number(match[2]), { amount })
+      return respond(204)
+    }
+
+    if (
+      (match = /^\/api\/v1\/orders\/(\d+)\/deliveries\/(\d+)\/credits$/.exec(
+        path,
+      )) &&
+      method === 'POST'
+    ) {
+      const record = getFinalRecord(Number(match[1]), merchantId)
+      const rowIds = (body as { OrderRowIds?: number[] } | null)?.OrderRowIds
+      if (!rowIds?.length) {
+        throw new SveaMockHttpError(400, 'OrderRowIds are required')
+      }
+      return respond(200, {
+        CreditId: credit(record, Number(match[2]), { rowIds }),
+      })
+    }
+
+    throw new SveaMockHttpError(404, `No route for ${method} ${path}`)
+  }
+
+  const handle: SveaMockServer['handle'] = async (request) => {
+    const method = request.method.toUpperCase()
+    const path = new URL(request.url).pathname.replace(/\/$/, '')
+    const text = await request.text()
+    const entry: SveaMockRequest = { method, path, status: 200 }
+    requests.push(entry)
+
+    try {
+      const failure = takeFailure(method, path)
+      if (failure) {
+        throw new SveaMockHttpError(
+          failure.status,
+          failure.errorMessage || `Simulated ${failure.status} error`,
+        )
+      }
+
+      entry.merchantId = authenticate(request, text)
+
+      let body: unknown
+      if (text) {
+        try {
+          body = JSON.parse(text)
+        } catch {
+          throw new SveaMockHttpError(400, 'Request body is not valid JSON')
+        }
+        entry.body = body
+      }
+
+      const response = await route(method, path, entry.merchantId, body)
+      entry.status = response.status
+      return response
+    } catch (error) {
+      const status = error instanceof SveaMockHttpError ? error.status : 500
+      const message = error instanceof Error ? error.message : String(error)
+      entry.status = status
+      return respond(status, { Code: status, Message: message }, message)
+    }
+  }
+
+  const listen: SveaMockServer['listen'] = async (
+    port = 0,
+    hostname = '127.0.0.1',
+  ) => {
+    if (server) {
+      throw new Error('Svea mock server is already listening.')
+    }
+
+    const httpServer = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = []
+      for await (const chunk of req) chunks.push(chunk as Buffer)
+      const body = Buffer.concat(chunks)
+
+      const headers = new Headers()
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (typeof value === 'string') headers.set(name, value)
+        else value?.forEach((item) => headers.append(name, item))
+      }
+
+      const response = await handle(
+        new Request(`http://${req.headers.host}${req.url}`, {
+          method: req.method,
+          headers,
+          ...(body.length > 0 ? { body } : {}),
+        }),
+      )
+
+      // Closing each connection keeps fetch from reusing a socket the
+      // server is about to drop after its keep-alive timeout
+      res.writeHead(response.status, {
+        ...Object.fromEntries(response.headers),
+        Connection: 'close',
+      })
+      res.end(Buffer.from(await response.arrayBuffer()))
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject)
+      httpServer.listen(port, hostname, () => resolve())
+    })
+
+    server = httpServer
+    const address = httpServer.address() as AddressInfo
+    url = `http://${hostname}:${address.port}`
+    return url
+  }
+
+  const close: SveaMockServer['close'] = async () => {
+    const httpServer = server
+    if (!httpServer) return
+    server = undefined
+    url = undefined
+
+    // Connections still open from fetch would hold the server open
+    httpServer.closeAllConnections?.()
+    await new Promise<void>((resolve, reject) =>
+      httpServer.close((error) => (error ? reject(error) : resolve())),
+    )
+  }
+
+  return {
+    get url() {
+      return url
+    },
+    requests,
+    handle,
+    fetch: (input, init) => handle(new Request(input, init)),
+    listen,
+    close,
+    getOrder: (orderId) => {
+      const record = orders.get(orderId)
+      return record ? toCheckoutOrder(record) : undefined
+    },
+    getAdminOrder: (orderId) => {
+      const record = orders.get(orderId)
+      return record?.order.Status === 'Final' ? toAdminOrder(record) : undefined
+    },
+    finalizeOrder,
+    cancelOrder,
+    deliverOrder: (orderId) => {
+      const record = getFinalRecord(orderId)
+      deliver(record, [])
+      return toAdminOrder(record)
+    },
+    creditOrder: (orderId, { deliveryId, amount } = {}) => {
+      const record = getFinalRecord(orderId)
+      const delivery = deliveryId
+        ? record.deliveries.find((entry) => entry.id === deliveryId)
+        : record.deliveries[record.deliveries.length - 1]
+      if (!delivery) {
+        throw new Error(`Svea mock order ${orderId} has no delivery to credit.`)
+      }
+      credit(record, delivery.id, { amount })
+      return toAdminOrder(record)
+    },
+    sendPush,
+    sendValidationCallback,
+    failNext: (failure) => {
+      failures.push(failure)
+    },
+    reset: () => {
+      orders.clear()
+      tokens.clear()
+      requests.length = 0
+      failures = []
+      nextOrderId = firstOrderId
+      nextDeliveryId = 1
+    },
+  }
+}
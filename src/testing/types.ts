@@ -0,0 +1,188 @@
+import type {
+  SveaAddress,
+  SveaAdminOrder,
+  SveaCustomer,
+  SveaFetch,
+  SveaOrder,
+  SveaShippingSelection,
+} from '../adapter/types'
+
+/**
+ * Credentials accepted by the mock server
+ */
+export interface SveaMockMerchant {
+  merchantId: string
+  secretKey: string
+}
+
+/**
+ * Options for `createSveaMockServer`
+ */
+export interface SveaMockServerOptions {
+  /** Merchant ID accepted in the `Authorization` header */
+  merchantId: string
+  secretKey: string
+  /** Further accepted merchants, e.g. the adapter's merchant profiles */
+  merchants?: SveaMockMerchant[]
+  /**
+   * Largest accepted difference between the `Timestamp` header and the
+   * server clock
+   * @default 300
+   */
+  maxClockSkewSeconds?: number
+  /**
+   * `fetch` used for push notifications and validation callbacks, e.g. one
+   * calling the Payload endpoints in-process
+   * @default globalThis.fetch
+   */
+  fetch?: SveaFetch
+  /**
+   * Headers added to push notifications and validation callbacks, e.g.
+   * `{ 'x-forwarded-for': '203.0.113.10' }` for `pushAllowedIps`
+   */
+  callbackHeaders?: Record<string, string>
+  /**
+   * Status of orders created from a recurring token
+   * @default 'Final'
+   */
+  tokenOrderStatus?: 'Created' | 'Final'
+  /**
+   * ID of the first created order
+   * @default 100001
+   */
+  firstOrderId?: number
+}
+
+/**
+ * What the customer entered in the checkout, applied by `finalizeOrder`
+ */
+export interface SveaMockCheckoutDetails {
+  /** @default the `EmailAddress` preset, or `customer@example.com` */
+  emailAddress?: string
+  phoneNumber?: string
+  customer?: SveaCustomer
+  /** @default a Swedish test address */
+  billingAddress?: SveaAddress
+  /** @default the billing address */
+  shippingAddress?: SveaAddress
+  /** @default 'Invoice' */
+  paymentType?: string
+  customerReference?: string
+  peppolId?: string
+  billingReferences?: Array<{ reference?: string }>
+  /**
+   * Shipping option chosen in an embedded shipping checkout. Its price
+   * (minor units) is added as a `ShippingFee` row.
+   */
+  shipping?: SveaShippingSelection
+  /** Token issued for recurring orders; generated when omitted */
+  recurringToken?: string
+  /**
+   * Call the validation callback before finalizing, and keep the order
+   * `Created` when it answers `Valid: false`
+   * @default true
+   */
+  validate?: boolean
+  /**
+   * Send a push notification once the order is final
+   * @default true
+   */
+  push?: boolean
+}
+
+/**
+ * Response to a push notification or validation callback sent by the mock
+ */
+export interface SveaMockCallbackResult {
+  url: string
+  status: number
+  /** Parsed JSON body, or the text body when it is not JSON */
+  body: unknown
+}
+
+/**
+ * Outcome of `finalizeOrder`
+ */
+export interface SveaMockFinalizeResult {
+  order: SveaOrder
+  /** Validation callback response, when one was sent */
+  validation?: SveaMockCallbackResult
+  /** Push notification response, when one was sent */
+  push?: SveaMockCallbackResult
+}
+
+/**
+ * Error response returned for the next matching request(s)
+ */
+export interface SveaMockFailure {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH'
+  /** Path, or pattern matching it, e.g. `/api/orders/100001` */
+  path?: string | RegExp
+  /** HTTP status, e.g. 500 */
+  status: number
+  /** Sent in the `ErrorMessage` header */
+  errorMessage?: string
+  /** Number of requests failed before the rule is dropped. @default 1 */
+  times?: number
+}
+
+/**
+ * A request received by the mock server
+ */
+export interface SveaMockRequest {
+  method: string
+  path: string
+  /** Merchant ID from a valid `Authorization` header */
+  merchantId?: string
+  body?: unknown
+  status: number
+}
+
+/**
+ * In-process Svea Checkout API and Payment Admin API
+ */
+export interface SveaMockServer {
+  /** Base URL of both APIs; set by `listen` */
+  readonly url: string | undefined
+  /** Requests received, oldest first */
+  readonly requests: SveaMockRequest[]
+  /** Handles a Fetch request against either API */
+  handle: (request: Request) => Promise<Response>
+  /** `fetch` routed to `handle`, for the clients' `fetch` option */
+  fetch: SveaFetch
+  /** Starts an HTTP server and resolves to its base URL */
+  listen: (port?: number, hostname?: string) => Promise<string>
+  /** Stops the HTTP server started by `listen` */
+  close: () => Promise<void>
+  /** Copy of the checkout order, or `undefined` */
+  getOrder: (orderId: number) => SveaOrder | undefined
+  /** Copy of the Payment Admin order, or `undefined` before `Final` */
+  getAdminOrder: (orderId: number) => SveaAdminOrder | undefined
+  /** Completes the checkout: `Created` → `Final` */
+  finalizeOrder: (
+    orderId: number,
+    details?: SveaMockCheckoutDetails,
+  ) => Promise<SveaMockFinalizeResult>
+  /** Abandons the checkout: `Created` → `Cancelled` */
+  cancelOrder: (
+    orderId: number,
+    options?: { push?: boolean },
+  ) => Promise<SveaOrder>
+  /** Delivers all remaining rows, like a capture in Payment Admin */
+  deliverOrder: (orderId: number) => SveaAdminOrder
+  /** Credits a delivery, in full unless an amount (minor units) is given */
+  creditOrder: (
+    orderId: number,
+    options?: { deliveryId?: number; amount?: number },
+  ) => SveaAdminOrder
+  /** Sends a push notification to the order's `pushUri` */
+  sendPush: (orderId: number) => Promise<SveaMockCallbackResult>
+  /** Calls the order's `checkoutValidationCallBackUri` */
+  sendValidationCallback: (
+    orderId: number,
+  ) => Promise<SveaMockCallbackResult | undefined>
+  /** Makes the next matching request(s) fail */
+  failNext: (failure: SveaMockFailure) => void
+  /** Drops all orders, tokens, recorded requests and failures */
+  reset: () => void
+}
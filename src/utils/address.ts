@@ -35,9 +35,12 @@ export function mapPayloadAddressToSvea(address: Partial<PayloadAddress>): {
 /**
  * Maps a Svea address to Payload address format
  * Handles both camelCase and PascalCase field names from Svea API
+ *
+ * @param company - Company name of a business purchase
  */
 export function mapSveaAddressToPayload(
   address?: SveaAddress | Record<string, unknown>,
+  company?: string,
 ): PayloadAddress | undefined {
   if (!address) return undefined
 
@@ -64,7 +67,7 @@ export function mapSveaAddressToPayload(
   const result: PayloadAddress = {
     firstName: firstName || undefined,
     lastName: lastName || undefined,
-    company: undefined,
+    company: company || undefined,
     addressLine1: streetAddress || coAddress || undefined,
     addressLine2:
       streetAddress2 || (coAddress && streetAddress ? coAddress : undefined),
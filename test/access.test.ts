@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+
+import { isSveaAdmin } from '../src/adapter/access'
+
+const createRequest = (user: Record<string, unknown> | null) =>
+  ({
+    user,
+    payload: { config: { admin: { user: 'users' } } },
+  }) as never
+
+describe('isSveaAdmin', () => {
+  it('allows admins of the admin user collection', () => {
+    expect(
+      isSveaAdmin({
+        req: createRequest({ collection: 'users', roles: ['admin'] }),
+      }),
+    ).toBe(true)
+    expect(
+      isSveaAdmin({ req: createRequest({ collection: 'users', roles: 'admin' }) }),
+    ).toBe(true)
+  })
+
+  it('denies customers sharing the admin user collection', () => {
+    expect(
+      isSveaAdmin({
+        req: createRequest({ collection: 'users', roles: ['customer'] }),
+      }),
+    ).toBe(false)
+    expect(isSveaAdmin({ req: createRequest({ collection: 'users' }) })).toBe(
+      false,
+    )
+  })
+
+  it('denies other collections and guests', () => {
+    expect(
+      isSveaAdmin({
+        req: createRequest({ collection: 'customers', roles: ['admin'] }),
+      }),
+    ).toBe(false)
+    expect(isSveaAdmin({ req: createRequest(null) })).toBe(false)
+  })
+})
@@ -0,0 +1,218 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { FRONTEND_URL, createTestEnvironment } from './environment'
+import {
+  SveaTransactionNotFoundError,
+  SveaValidationError,
+} from '../../src/adapter/errors'
+import type { TestEnvironment } from './environment'
+
+describe('checkout', () => {
+  let env: TestEnvironment
+
+  beforeAll(async () => {
+    env = await createTestEnvironment()
+  })
+
+  afterAll(async () => {
+    await env?.destroy()
+  })
+
+  it('creates a Svea order and a pending transaction', async () => {
+    const product = await env.createProduct(100)
+    const cart = await env.createCart([{ product, quantity: 2 }])
+
+    const { orderId, transactionId } = await env.initiate(cart)
+
+    const sveaOrder = env.svea.getOrder(orderId)
+    expect(sveaOrder?.Status).toBe('Created')
+    expect(sveaOrder?.Currency).toBe('SEK')
+    expect(sveaOrder?.CountryCode).toBe('SE')
+    expect(sveaOrder?.Cart.items).toEqual([
+      expect.objectContaining({ quantity: 200, unitPrice: 10000 }),
+    ])
+    expect(sveaOrder?.MerchantSettings?.pushUri).toBe(
+      `${FRONTEND_URL}/api/payments/svea/webhook`,
+    )
+    expect(sveaOrder?.MerchantSettings?.checkoutValidationCallBackUri).toBe(
+      `${FRONTEND_URL}/api/payments/svea/validation-callback/{checkout.order.uri}`,
+    )
+
+    const transaction = await env.findTransaction(transactionId)
+    expect(transaction).toMatchObject({
+      paymentMethod: 'svea',
+      status: 'pending',
+      amount: 200,
+      currency: 'SEK',
+      svea: {
+        orderId,
+        clientOrderNumber: sveaOrder?.ClientOrderNumber,
+      },
+    })
+  })
+
+  it('rejects an empty cart before calling Svea', async () => {
+    const requests = env.svea.requests.length
+
+    await expect(
+      env.initiate({ id: 999, items: [], currency: 'SEK' }),
+    ).rejects.toThrow(SveaValidationError)
+    expect(env.svea.requests).toHaveLength(requests)
+  })
+
+  it('confirms a final order once', async () => {
+    const product = await env.createProduct(250)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    const { orderId, transactionId } = await env.initiate(cart)
+    const ordersBefore = await env.countOrders()
+
+    await env.svea.finalizeOrder(orderId, { push: false })
+
+    const confirm = async () =>
+      env.adapter.confirmOrder({
+        data: { orderId },
+        req: await env.createRequest(),
+        ordersSlug: 'orders',
+        transactionsSlug: 'transactions',
+        cartsSlug: 'carts',
+        customersSlug: 'users',
+      })
+
+    const first = await confirm()
+    expect(first.transactionID).toBe(transactionId)
+    expect(first.orderID).toBeDefined()
+
+    const second = await confirm()
+    expect(second).toMatchObject({
+      message: 'Order already confirmed',
+      orderID: first.orderID,
+    })
+
+    expect(await env.countOrders()).toBe(ordersBefore + 1)
+
+    const transaction = await env.findTransaction(transactionId)
+    expect(transaction.status).toBe('succeeded')
+    expect(transaction.order).toBe(first.orderID)
+
+    const order = (await env.payload.findByID({
+      collection: 'orders' as never,
+      id: first.orderID as number,
+      depth: 0,
+    })) as unknown as Record<string, unknown>
+    expect(order).toMatchObject({
+      amount: 250,
+      currency: 'SEK',
+      customerEmail: 'customer@example.com',
+    })
+  })
+
+  it('confirms through the confirm order route handler', async () => {
+    const product = await env.createProduct(80)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    const { orderId, transactionId } = await env.initiate(cart)
+
+    await env.svea.finalizeOrder(orderId, { push: false })
+
+    const response = await env.handlers.confirm(
+      new Request(`${FRONTEND_URL}/api/payments/svea/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId }),
+      }),
+    )
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      transactionID: transactionId,
+    })
+    expect((await env.findTransaction(transactionId)).status).toBe('succeeded')
+  })
+
+  it('refuses to confirm an order that is not final', async () => {
+    const product = await env.createProduct(90)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    const { orderId, transactionId } = await env.initiate(cart)
+
+    await expect(
+      env.adapter.confirmOrder({
+        data: { orderId },
+        req: await env.createRequest(),
+        ordersSlug: 'orders',
+        transactionsSlug: 'transactions',
+        cartsSlug: 'carts',
+        customersSlug: 'users',
+      }),
+    ).rejects.toThrow('Svea order is not finalized. Current status: Created')
+
+    expect((await env.findTransaction(transactionId)).status).toBe('pending')
+  })
+
+  it('answers the confirm route with the status of the error', async () => {
+    const product = await env.createProduct(70)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    const { orderId } = await env.initiate(cart)
+
+    const confirm = (body: Record<string, unknown>) =>
+      env.handlers.confirm(
+        new Request(`${FRONTEND_URL}/api/payments/svea/confirm`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+      )
+
+    const notFinal = await confirm({ orderId })
+    expect(notFinal.status).toBe(409)
+    expect(await notFinal.json()).toEqual({
+      error: 'Your payment has not been completed yet.',
+    })
+
+    const unknown = await confirm({ orderId: 999999 })
+    expect(unknown.status).toBe(404)
+  })
+
+  it('updates a checkout only with its token or for its customer', async () => {
+    const product = await env.createProduct(40)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    const { orderId, transactionId, checkoutToken } = await env.initiate(cart)
+
+    const update = async (
+      args: { checkoutToken?: string; sveaOrderId?: number },
+      user?: Record<string, unknown>,
+    ) =>
+      env.adapter.updateCheckout({
+        req: await env.createRequest(user),
+        ...(args.sveaOrderId ? {} : { transactionId }),
+        ...args,
+      })
+
+    await expect(update({})).rejects.toThrow(SveaTransactionNotFoundError)
+    await expect(update({ checkoutToken: 'guess' })).rejects.toThrow(
+      SveaTransactionNotFoundError,
+    )
+    await expect(update({ sveaOrderId: orderId })).rejects.toThrow(
+      SveaTransactionNotFoundError,
+    )
+    await expect(update({}, { id: 12345 })).rejects.toThrow(
+      SveaTransactionNotFoundError,
+    )
+
+    await expect(update({ checkoutToken })).resolves.toMatchObject({
+      orderId,
+      transactionId,
+      checkoutSnippet: expect.any(String),
+    })
+  })
+
+  it('fails the transaction of a cancelled checkout', async () => {
+    const product = await env.createProduct(60)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    const { orderId, transactionId } = await env.initiate(cart)
+    const ordersBefore = await env.countOrders()
+
+    await env.svea.cancelOrder(orderId)
+
+    expect((await env.findTransaction(transactionId)).status).toBe('failed')
+    expect(await env.countOrders()).toBe(ordersBefore)
+  })
+})
@@ -0,0 +1,226 @@
+import { sqliteAdapter } from '@payloadcms/db-sqlite'
+import { ecommercePlugin } from '@payloadcms/plugin-ecommerce'
+import type { Access, FieldAccess, Payload, PayloadRequest } from 'payload'
+import { buildConfig, createLocalReq, getPayload } from 'payload'
+
+import {
+  sveaAdapter,
+  sveaRecurringMerchantProfileField,
+  sveaRecurringTokenField,
+} from '../../src/adapter'
+import type { SveaAdapterConfig, SveaPaymentAdapter } from '../../src/adapter/types'
+import { createSveaConfirmOrderHandler } from '../../src/handlers/confirm-order'
+import { createSveaValidationCallbackHandler } from '../../src/handlers/validation-callback'
+import { createSveaWebhookHandler } from '../../src/handlers/webhook'
+import { createSveaMockServer } from '../../src/testing'
+import type { SveaMockServer } from '../../src/testing'
+
+export const MERCHANT_ID = 'e2e-merchant'
+export const SECRET_KEY = 'e2e-secret'
+export const FRONTEND_URL = 'http://shop.test'
+
+const isAdmin: Access = ({ req }) => Boolean(req.user)
+const isAdminField: FieldAccess = ({ req }) => Boolean(req.user)
+
+/**
+ * A Payload instance with the ecommerce plugin and the Svea adapter,
+ * backed by in-memory SQLite and the mock Svea server
+ */
+export interface TestEnvironment {
+  payload: Payload
+  svea: SveaMockServer
+  adapter: SveaPaymentAdapter
+  /** Route handlers, as mounted in a Next.js app */
+  handlers: {
+    webhook: (request: Request) => Promise<Response>
+    validation: (request: Request) => Promise<Response>
+    confirm: (request: Request) => Promise<Response>
+  }
+  /** Local request, as the ecommerce plugin passes to the adapter */
+  createRequest: (user?: Record<string, unknown>) => Promise<PayloadRequest>
+  /** Creates a product priced in SEK with stock */
+  createProduct: (priceInSEK: number, inventory?: number) => Promise<number>
+  /** Creates a cart holding the products */
+  createCart: (
+    items: Array<{ product: number; quantity: number }>,
+  ) => Promise<Record<string, unknown>>
+  /** Starts a Svea checkout for a cart like the plugin's `/initiate` */
+  initiate: (
+    cart: Record<string, unknown>,
+  ) => Promise<{
+    orderId: number
+    transactionId: number
+    checkoutToken: string
+  }>
+  findTransaction: (id: number) => Promise<Record<string, unknown>>
+  countOrders: () => Promise<number>
+  destroy: () => Promise<void>
+}
+
+/**
+ * Boots a fresh environment. Each call uses its own database.
+ */
+export async function createTestEnvironment(
+  adapterConfig: Partial<SveaAdapterConfig> = {},
+): Promise<TestEnvironment> {
+  const handlers = {} as TestEnvironment['handlers']
+
+  // Push notifications and validation callbacks reach the route handlers
+  const svea = createSveaMockServer({
+    merchantId: MERCHANT_ID,
+    secretKey: SECRET_KEY,
+    fetch: async (input, init) => {
+      const request = new Request(input, init)
+      const { pathname } = new URL(request.url)
+      if (pathname.startsWith('/api/payments/svea/webhook')) {
+        return handlers.webhook(request)
+      }
+      if (pathname.startsWith('/api/payments/svea/validation-callback')) {
+        return handlers.validation(request)
+      }
+      return new Response(null, { status: 404 })
+    },
+  })
+  const sveaUrl = await svea.listen()
+
+  const adapterOptions = {
+    merchantId: MERCHANT_ID,
+    secretKey: SECRET_KEY,
+    checkoutApiUrl: sveaUrl,
+    paymentAdminApiUrl: sveaUrl,
+    frontendBaseUrl: FRONTEND_URL,
+    pushSecret: '',
+    registerEndpoints: false,
+    ...adapterConfig,
+  }
+  const adapter = sveaAdapter(adapterOptions)
+
+  const config = await buildConfig({
+    secret: 'e2e-payload-secret',
+    db: sqliteAdapter({ client: { url: ':memory:' } }),
+    collections: [
+      {
+        slug: 'users',
+        auth: true,
+        fields: [
+          { name: 'name', type: 'text' },
+          sveaRecurringTokenField(),
+          sveaRecurringMerchantProfileField(),
+        ],
+      },
+    ],
+    plugins: [
+      ecommercePlugin({
+        access: {
+          adminOnly: isAdmin,
+          adminOnlyFieldAccess: isAdminField,
+          adminOrCustomerOwner: isAdmin,
+          adminOrPublishedStatus: () => true,
+          customerOnlyFieldAccess: isAdminField,
+        },
+        customers: { slug: 'users' },
+        currencies: {
+          defaultCurrency: 'SEK',
+          supportedCurrencies: [
+            { code: 'SEK', decimals: 2, label: 'Swedish krona', symbol: 'kr' },
+          ],
+        },
+        inventory: true,
+        products: true,
+        payments: { paymentMethods: [adapter] },
+      }),
+    ],
+    logger: { options: { level: 'warn' } },
+    telemetry: false,
+  })
+
+  const payload = await getPayload({
+    config,
+    key: `svea-e2e-${Date.now()}-${Math.random()}`,
+  })
+
+  const handlerOptions = {
+    getPayload: async () => payload,
+    merchantId: MERCHANT_ID,
+    secretKey: SECRET_KEY,
+    checkoutApiUrl: sveaUrl,
+    pushSecret: adapterOptions.pushSecret,
+  }
+  handlers.webhook = createSveaWebhookHandler(handlerOptions).POST
+  handlers.validation =
+    createSveaValidationCallbackHandler(handlerOptions).POST
+  handlers.confirm = createSveaConfirmOrderHandler(handlerOptions).POST
+
+  const createRequest: TestEnvironment['createRequest'] = (user) =>
+    createLocalReq(
+      user ? { user: { ...user, collection: 'users' } as never } : {},
+      payload,
+    )
+
+  return {
+    payload,
+    svea,
+    adapter,
+    handlers,
+    createRequest,
+    createProduct: async (priceInSEK, inventory = 100) => {
+      const product = await payload.create({
+        collection: 'products' as never,
+        data: {
+          title: `Product ${priceInSEK}`,
+          priceInSEKEnabled: true,
+          priceInSEK,
+          inventory,
+          _status: 'published',
+        } as never,
+      })
+      return (product as { id: number }).id
+    },
+    createCart: async (items) =>
+      (await payload.create({
+        collection: 'carts' as never,
+        data: { items, currency: 'SEK' } as never,
+        depth: 2,
+      })) as unknown as Record<string, unknown>,
+    initiate: async (cart) => {
+      const result = (await adapter.initiatePayment({
+        data: {
+          cart: cart as never,
+          currency: 'SEK',
+          customerEmail: 'customer@example.com',
+          billingAddress: {
+            firstName: 'Tess',
+            lastName: 'Persson',
+            addressLine1: 'Testgatan 1',
+            postalCode: '99999',
+            city: 'Stan',
+            country: 'SE',
+          } as never,
+        },
+        req: await createRequest(),
+        transactionsSlug: 'transactions',
+      })) as unknown as {
+        orderId: number
+        transactionId: number
+        checkoutToken: string
+      }
+      return {
+        orderId: result.orderId,
+        transactionId: result.transactionId,
+        checkoutToken: result.checkoutToken,
+      }
+    },
+    findTransaction: async (id) =>
+      (await payload.findByID({
+        collection: 'transactions' as never,
+        id,
+        depth: 0,
+      })) as unknown as Record<string, unknown>,
+    countOrders: async () =>
+      (await payload.count({ collection: 'orders' as never })).totalDocs,
+    destroy: async () => {
+      await svea.close()
+      await payload.destroy()
+    },
+  }
+}
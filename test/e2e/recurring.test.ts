@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+import { SveaAmountMismatchError } from '../../src/adapter/errors'
+import { createTestEnvironment, MERCHANT_ID, SECRET_KEY } from './environment'
+import type { TestEnvironment } from './environment'
+
+describe('recurring charges', () => {
+  let env: TestEnvironment
+  let customer: number
+
+  beforeAll(async () => {
+    env = await createTestEnvironment({
+      recurring: true,
+      onMismatch: 'reject',
+      // `fi` also serves SEK, but only `se` knows the mock's merchant
+      merchants: [
+        {
+          name: 'fi',
+          merchantId: 'other-merchant',
+          secretKey: 'other-secret',
+          countries: ['FI'],
+          currencies: ['SEK'],
+        },
+        {
+          name: 'se',
+          merchantId: MERCHANT_ID,
+          secretKey: SECRET_KEY,
+          countries: ['SE'],
+        },
+      ],
+    })
+
+    const user = await env.payload.create({
+      collection: 'users' as never,
+      data: { email: 'subscriber@example.com', password: 'secret' } as never,
+    })
+    customer = (user as { id: number }).id
+
+    const product = await env.createProduct(100)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    const { orderId, transactionId } = await env.initiate(cart)
+    await env.payload.update({
+      collection: 'transactions' as never,
+      id: transactionId,
+      data: { customer } as never,
+    })
+    await env.svea.finalizeOrder(orderId, {
+      push: false,
+      recurringToken: 'subscriber-token',
+    })
+    await env.adapter.confirmOrder({
+      data: { orderId },
+      req: await env.createRequest(),
+      ordersSlug: 'orders',
+      transactionsSlug: 'transactions',
+      cartsSlug: 'carts',
+      customersSlug: 'users',
+    })
+  })
+
+  afterAll(async () => {
+    await env?.destroy()
+  })
+
+  it('charges the stored token through the profile that issued it', async () => {
+    expect(
+      await env.payload.findByID({
+        collection: 'users' as never,
+        id: customer,
+        showHiddenFields: true,
+      }),
+    ).toMatchObject({
+      sveaRecurringToken: 'subscriber-token',
+      sveaRecurringMerchantProfile: 'se',
+    })
+
+    const result = await env.adapter.chargeRecurringToken({
+      payload: env.payload,
+      customer,
+      currency: 'SEK',
+      items: [{ product: await env.createProduct(120), quantity: 1 }],
+    })
+
+    expect(result).toMatchObject({ status: 'Final' })
+    expect(result.orderID).toBeDefined()
+    expect(await env.findTransaction(result.transactionID as number))
+      .toMatchObject({ svea: { merchantProfile: 'se' } })
+  })
+
+  it('fails the transaction when a mismatch is rejected', async () => {
+    const product = await env.createProduct(130)
+    const ordersBefore = await env.countOrders()
+
+    // Records a total differing from what Svea charges
+    const create = env.payload.create.bind(env.payload)
+    const spy = vi
+      .spyOn(env.payload, 'create')
+      .mockImplementation(async (args) =>
+        create(
+          args.collection === 'transactions'
+            ? { ...args, data: { ...args.data, amount: 100 } }
+            : args,
+        ),
+      )
+
+    try {
+      await expect(
+        env.adapter.chargeRecurringToken({
+          payload: env.payload,
+          customer,
+          currency: 'SEK',
+          items: [{ product, quantity: 1 }],
+        }),
+      ).rejects.toBeInstanceOf(SveaAmountMismatchError)
+    } finally {
+      spy.mockRestore()
+    }
+
+    const { docs } = await env.payload.find({
+      collection: 'transactions' as never,
+      sort: '-createdAt',
+      limit: 1,
+      depth: 0,
+    })
+    expect(docs[0]).toMatchObject({
+      status: 'failed',
+      svea: { amountMismatch: { resolution: 'rejected' } },
+    })
+    expect(await env.countOrders()).toBe(ordersBefore)
+  })
+})
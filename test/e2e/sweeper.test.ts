@@ -0,0 +1,46 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { createTestEnvironment } from './environment'
+import type { TestEnvironment } from './environment'
+
+describe('sweeper', () => {
+  let env: TestEnvironment
+
+  beforeAll(async () => {
+    env = await createTestEnvironment({ onMismatch: 'reject' })
+  })
+
+  afterAll(async () => {
+    await env?.destroy()
+  })
+
+  it('skips transactions held for an amount mismatch', async () => {
+    const product = await env.createProduct(110)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    const { orderId, transactionId } = await env.initiate(cart)
+
+    // A Svea total differing from the transaction is rejected once
+    await env.payload.update({
+      collection: 'transactions' as never,
+      id: transactionId,
+      data: { amount: 100 } as never,
+    })
+    await env.svea.finalizeOrder(orderId, { push: false })
+
+    const sweep = () =>
+      env.adapter.sweepPendingTransactions({
+        payload: env.payload,
+        olderThanMinutes: 0,
+      })
+
+    expect(await sweep()).toMatchObject({ checked: 1, review: 1 })
+    expect(await env.findTransaction(transactionId)).toMatchObject({
+      status: 'pending',
+      svea: { amountMismatch: { resolution: 'rejected' } },
+    })
+
+    const requests = env.svea.requests.length
+    expect(await sweep()).toMatchObject({ checked: 0 })
+    expect(env.svea.requests).toHaveLength(requests)
+  })
+})
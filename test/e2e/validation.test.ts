@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { SVEA_VALIDATION_MESSAGES } from '../../src/adapter/validation'
+import { FRONTEND_URL, createTestEnvironment } from './environment'
+import type { TestEnvironment } from './environment'
+
+const VALIDATION_URL = `${FRONTEND_URL}/api/payments/svea/validation-callback`
+
+describe('validation callback', () => {
+  let env: TestEnvironment
+
+  beforeAll(async () => {
+    env = await createTestEnvironment()
+  })
+
+  afterAll(async () => {
+    await env?.destroy()
+  })
+
+  const checkout = async (price: number, inventory?: number) => {
+    const product = await env.createProduct(price, inventory)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    return { product, cart, ...(await env.initiate(cart)) }
+  }
+
+  it('accepts an unchanged cart', async () => {
+    const { orderId, transactionId } = await checkout(110)
+
+    const { order, validation } = await env.svea.finalizeOrder(orderId)
+
+    expect(validation).toMatchObject({ status: 200, body: { Valid: true } })
+    expect(order.Status).toBe('Final')
+    expect((await env.findTransaction(transactionId)).status).toBe('succeeded')
+  })
+
+  it('rejects a cart changed after the checkout started', async () => {
+    const { product, cart, orderId, transactionId } = await checkout(115)
+
+    await env.payload.update({
+      collection: 'carts' as never,
+      id: cart.id as number,
+      data: { items: [{ product, quantity: 3 }] } as never,
+    })
+
+    const { order, validation } = await env.svea.finalizeOrder(orderId)
+
+    expect(validation).toMatchObject({
+      status: 200,
+      body: { Valid: false, Message: SVEA_VALIDATION_MESSAGES['cart-changed'] },
+    })
+    expect(order.Status).toBe('Created')
+    expect((await env.findTransaction(transactionId)).status).toBe('pending')
+  })
+
+  it('rejects items that went out of stock', async () => {
+    const { product, orderId } = await checkout(130, 5)
+
+    await env.payload.update({
+      collection: 'products' as never,
+      id: product,
+      data: { inventory: 0 } as never,
+    })
+
+    const { order, validation } = await env.svea.finalizeOrder(orderId)
+
+    expect(validation?.body).toEqual({
+      Valid: false,
+      Message: SVEA_VALIDATION_MESSAGES['out-of-stock'],
+    })
+    expect(order.Status).toBe('Created')
+  })
+
+  it('rejects a checkout that is already completed', async () => {
+    const { orderId } = await checkout(135)
+    await env.svea.finalizeOrder(orderId)
+
+    const response = await env.svea.sendValidationCallback(orderId)
+
+    expect(response?.body).toEqual({
+      Valid: false,
+      Message: SVEA_VALIDATION_MESSAGES['transaction-not-pending'],
+    })
+  })
+
+  it('rejects unknown orders', async () => {
+    const response = await env.handlers.validation(
+      new Request(`${VALIDATION_URL}/999999`),
+    )
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      Valid: false,
+      Message: SVEA_VALIDATION_MESSAGES['transaction-not-found'],
+    })
+  })
+
+  it('rejects requests without an order ID', async () => {
+    const response = await env.handlers.validation(
+      new Request(VALIDATION_URL, { method: 'POST', body: '{not json' }),
+    )
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      Valid: false,
+      Message: SVEA_VALIDATION_MESSAGES['transaction-not-found'],
+    })
+  })
+})
@@ -0,0 +1,283 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+import { FRONTEND_URL, createTestEnvironment } from './environment'
+import type { TestEnvironment } from './environment'
+import { SveaOrderStateError } from '../../src/adapter/errors'
+import { finalizeSveaOrder } from '../../src/adapter/finalize-order'
+
+const WEBHOOK_URL = `${FRONTEND_URL}/api/payments/svea/webhook`
+
+describe('webhook', () => {
+  let env: TestEnvironment
+
+  beforeAll(async () => {
+    env = await createTestEnvironment()
+  })
+
+  afterAll(async () => {
+    await env?.destroy()
+  })
+
+  const checkout = async (price: number) => {
+    const product = await env.createProduct(price)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    return env.initiate(cart)
+  }
+
+  const push = (body: string, contentType = 'application/json') =>
+    env.handlers.webhook(
+      new Request(WEBHOOK_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': contentType },
+        body,
+      }),
+    )
+
+  it('creates one order from repeated pushes', async () => {
+    const { orderId, transactionId } = await checkout(120)
+    const ordersBefore = await env.countOrders()
+
+    const { push: first } = await env.svea.finalizeOrder(orderId)
+    expect(first).toMatchObject({ status: 200, body: { success: true } })
+
+    const second = await env.svea.sendPush(orderId)
+    const third = await env.svea.sendPush(orderId)
+    expect(second.body).toMatchObject({ message: 'Already processed' })
+    expect(third.body).toMatchObject({ message: 'Already processed' })
+
+    expect(await env.countOrders()).toBe(ordersBefore + 1)
+    expect((await env.findTransaction(transactionId)).status).toBe('succeeded')
+  })
+
+  it('creates one order when a push races the confirmation', async () => {
+    const { orderId, transactionId } = await checkout(140)
+    const ordersBefore = await env.countOrders()
+
+    await env.svea.finalizeOrder(orderId, { push: false })
+
+    const [, confirmed] = await Promise.all([
+      env.svea.sendPush(orderId),
+      env.createRequest().then((req) =>
+        env.adapter.confirmOrder({
+          data: { orderId },
+          req,
+          ordersSlug: 'orders',
+          transactionsSlug: 'transactions',
+          cartsSlug: 'carts',
+          customersSlug: 'users',
+        }),
+      ),
+    ])
+
+    expect(await env.countOrders()).toBe(ordersBefore + 1)
+
+    const transaction = await env.findTransaction(transactionId)
+    expect(transaction.status).toBe('succeeded')
+    expect(transaction.order).toBe(confirmed.orderID)
+  })
+
+  it('creates one order without database transactions', async () => {
+    const { orderId, transactionId } = await checkout(145)
+    const ordersBefore = await env.countOrders()
+    await env.svea.finalizeOrder(orderId, { push: false })
+    const sveaOrder = env.svea.getOrder(orderId)!
+    const finalize = () =>
+      finalizeSveaOrder({ payload: env.payload, transactionId, sveaOrder })
+
+    // Like MongoDB without a replica set
+    const { beginTransaction } = env.payload.db
+    env.payload.db.beginTransaction = undefined as never
+
+    // Hold the first call's order creation until the second call is done
+    let creating!: () => void
+    const firstCreating = new Promise<void>((resolve) => (creating = resolve))
+    let release!: () => void
+    const released = new Promise<void>((resolve) => (release = resolve))
+    const create = env.payload.create.bind(env.payload)
+    let orderCreates = 0
+    const createSpy = vi
+      .spyOn(env.payload, 'create')
+      .mockImplementation(async (args) => {
+        if (args.collection === 'orders' && orderCreates++ === 0) {
+          creating()
+          await released
+        }
+        return create(args)
+      })
+
+    try {
+      const first = finalize()
+      await firstCreating
+      const second = await finalize().catch((error: unknown) => error)
+      release()
+
+      expect(second).toBeInstanceOf(SveaOrderStateError)
+      expect(await first).toMatchObject({ created: true })
+    } finally {
+      env.payload.db.beginTransaction = beginTransaction
+      createSpy.mockRestore()
+    }
+
+    expect(await env.countOrders()).toBe(ordersBefore + 1)
+    expect((await env.findTransaction(transactionId)).status).toBe('succeeded')
+  })
+
+  it('fails the transaction when the checkout is cancelled', async () => {
+    const { orderId, transactionId } = await checkout(70)
+
+    await env.svea.cancelOrder(orderId, { push: false })
+    const response = await env.svea.sendPush(orderId)
+
+    expect(response.status).toBe(200)
+    expect((await env.findTransaction(transactionId)).status).toBe('failed')
+  })
+
+  it("uses Svea's status over the pushed one", async () => {
+    const { orderId, transactionId } = await checkout(75)
+    const ordersBefore = await env.countOrders()
+
+    const response = await push(
+      JSON.stringify({ OrderId: orderId, Status: 'Final' }),
+    )
+
+    expect(response.status).toBe(200)
+    expect((await env.findTransaction(transactionId)).status).toBe('pending')
+    expect(await env.countOrders()).toBe(ordersBefore)
+  })
+
+  it('ignores malformed payloads', async () => {
+    const ordersBefore = await env.countOrders()
+
+    for (const response of [
+      await push('{not json'),
+      await push(''),
+      await push(JSON.stringify({ Status: 'Final' })),
+      await push(JSON.stringify({ OrderId: 'abc' })),
+      await push('OrderId=&Status=Final', 'application/x-www-form-urlencoded'),
+    ]) {
+      expect(response.status).toBe(200)
+    }
+
+    expect(await env.countOrders()).toBe(ordersBefore)
+  })
+
+  it('asks Svea to retry while the order cannot be fetched', async () => {
+    const { orderId, transactionId } = await checkout(95)
+    await env.svea.finalizeOrder(orderId, { push: false })
+    env.svea.failNext({ method: 'GET', status: 503, times: 3 })
+
+    const body = JSON.stringify({ OrderId: orderId })
+    expect((await push(body)).status).toBe(503)
+    expect((await env.findTransaction(transactionId)).status).toBe('pending')
+
+    expect((await push(body)).status).toBe(200)
+    expect((await env.findTransaction(transactionId)).status).toBe('succeeded')
+  })
+
+  it('ignores pushes for unknown orders', async () => {
+    const requests = env.svea.requests.length
+
+    const response = await push(JSON.stringify({ OrderId: 999999 }))
+
+    expect(response.status).toBe(200)
+    // The order is looked up only for known transactions
+    expect(env.svea.requests).toHaveLength(requests)
+  })
+
+  it('accepts the order ID from the push URL', async () => {
+    const { orderId, transactionId } = await checkout(85)
+    await env.svea.finalizeOrder(orderId, { push: false })
+
+    const response = await env.handlers.webhook(
+      new Request(`${WEBHOOK_URL}?orderId=${orderId}`, { method: 'POST' }),
+    )
+
+    expect(response.status).toBe(200)
+    expect((await env.findTransaction(transactionId)).status).toBe('succeeded')
+  })
+})
+
+describe('webhook with a push secret', () => {
+  let env: TestEnvironment
+
+  beforeAll(async () => {
+    env = await createTestEnvironment({ pushSecret: 'push-secret' })
+  })
+
+  afterAll(async () => {
+    await env?.destroy()
+  })
+
+  it('rejects pushes without the secret', async () => {
+    const response = await env.handlers.webhook(
+      new Request(WEBHOOK_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ OrderId: 100001 }),
+      }),
+    )
+
+    expect(response.status).toBe(401)
+  })
+
+  it('processes pushes carrying the secret', async () => {
+    const product = await env.createProduct(95)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    const { orderId, transactionId } = await env.initiate(cart)
+
+    expect(env.svea.getOrder(orderId)?.MerchantSettings?.pushUri).toContain(
+      'secret=push-secret',
+    )
+
+    const { push } = await env.svea.finalizeOrder(orderId)
+
+    expect(push?.status).toBe(200)
+    expect((await env.findTransaction(transactionId)).status).toBe('succeeded')
+  })
+})
+
+describe('webhook endpoint', () => {
+  let env: TestEnvironment
+
+  beforeAll(async () => {
+    env = await createTestEnvironment({
+      registerEndpoints: true,
+      http: { retry: false, circuitBreaker: { failureThreshold: 1 } },
+    })
+  })
+
+  afterAll(async () => {
+    await env?.destroy()
+  })
+
+  it('keeps its circuit breaker across requests', async () => {
+    const product = await env.createProduct(85)
+    const cart = await env.createCart([{ product, quantity: 1 }])
+    const { orderId } = await env.initiate(cart)
+
+    const endpoint = env.adapter.endpoints?.find(
+      ({ path, method }) => path === '/webhook' && method === 'post',
+    )
+    const push = () =>
+      endpoint!.handler(
+        Object.assign(
+          new Request(WEBHOOK_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ OrderId: orderId }),
+          }),
+          { payload: env.payload },
+        ) as never,
+      )
+
+    env.svea.requests.length = 0
+    env.svea.failNext({ method: 'GET', status: 500, times: 5 })
+
+    expect((await push()).status).toBe(503)
+    // The open circuit fails the second push without calling Svea
+    expect((await push()).status).toBe(503)
+    expect(
+      env.svea.requests.filter(({ method }) => method === 'GET'),
+    ).toHaveLength(1)
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  getSveaPushClientIp,
+  verifySveaPushRequest,
+} from '../src/adapter/push-verification'
+
+const SVEA_IP = '203.0.113.10'
+const WEBHOOK_URL = 'http://shop.test/api/payments/svea/webhook'
+
+describe('verifySveaPushRequest', () => {
+  it('accepts the IP appended by the proxy', () => {
+    const verification = verifySveaPushRequest({
+      url: WEBHOOK_URL,
+      headers: new Headers({ 'x-forwarded-for': SVEA_IP }),
+      allowedIps: [SVEA_IP],
+    })
+
+    expect(verification).toEqual({ verified: true, clientIp: SVEA_IP })
+  })
+
+  it('rejects a spoofed leading x-forwarded-for entry', () => {
+    const verification = verifySveaPushRequest({
+      url: WEBHOOK_URL,
+      headers: new Headers({
+        'x-forwarded-for': `${SVEA_IP}, 198.51.100.7`,
+      }),
+      allowedIps: [SVEA_IP],
+    })
+
+    expect(verification).toMatchObject({
+      verified: false,
+      clientIp: '198.51.100.7',
+    })
+  })
+
+  it('skips the configured number of trusted proxies', () => {
+    const headers = new Headers({
+      'x-forwarded-for': `192.0.2.1, ${SVEA_IP}, 10.0.0.2`,
+    })
+
+    expect(getSveaPushClientIp(headers, 2)).toBe(SVEA_IP)
+    expect(getSveaPushClientIp(headers, 4)).toBeUndefined()
+    expect(
+      verifySveaPushRequest({
+        url: WEBHOOK_URL,
+        headers,
+        allowedIps: [SVEA_IP],
+        trustedProxies: 2,
+      }).verified,
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { SveaCheckoutClient } from '../src/adapter/checkout-client'
+import { createSveaCircuitBreaker } from '../src/adapter/circuit-breaker'
+import { SveaApiError } from '../src/adapter/errors'
+import type { SveaCheckoutClientConfig, SveaFetch } from '../src/adapter/types'
+import { createSveaMockServer } from '../src/testing'
+import type { SveaMockServer } from '../src/testing'
+
+const MERCHANT_ID = 'request-merchant'
+const SECRET_KEY = 'request-secret'
+
+describe('sveaRequest', () => {
+  let svea: SveaMockServer
+  let orderId: number
+
+  const createClient = (config: Partial<SveaCheckoutClientConfig> = {}) =>
+    new SveaCheckoutClient({
+      merchantId: MERCHANT_ID,
+      secretKey: SECRET_KEY,
+      checkoutApiUrl: 'http://svea.test',
+      fetch: svea.fetch,
+      retry: { baseDelayMs: 1, maxDelayMs: 1 },
+      ...config,
+    })
+
+  beforeEach(async () => {
+    svea = createSveaMockServer({
+      merchantId: MERCHANT_ID,
+      secretKey: SECRET_KEY,
+    })
+
+    const order = await createClient().createOrder({
+      countryCode: 'SE',
+      currency: 'SEK',
+      locale: 'sv-SE',
+      clientOrderNumber: 'ORDER-1',
+      merchantSettings: {
+        termsUri: 'http://shop.test/terms',
+        checkoutUri: 'http://shop.test/checkout',
+        confirmationUri: 'http://shop.test/confirmation',
+        pushUri: 'http://shop.test/api/payments/svea/webhook',
+      },
+      cart: {
+        items: [
+          {
+            articleNumber: 'SKU-1',
+            name: 'Product',
+            quantity: 100,
+            unitPrice: 10000,
+            vatPercent: 2500,
+          },
+        ],
+      },
+    })
+    orderId = order.OrderId
+    svea.requests.length = 0
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('retries GET requests after 5xx responses', async () => {
+    svea.failNext({ method: 'GET', status: 503, times: 2 })
+
+    const order = await createClient().getOrder(orderId)
+
+    expect(order.OrderId).toBe(orderId)
+    expect(svea.requests.map((request) => request.status)).toEqual([
+      503, 503, 200,
+    ])
+  })
+
+  it('gives up after the configured attempts', async () => {
+    svea.failNext({
+      method: 'GET',
+      status: 500,
+      errorMessage: 'Down',
+      times: 5,
+    })
+    const client = createClient({ retry: { attempts: 2, baseDelayMs: 1 } })
+
+    await expect(client.getOrder(orderId)).rejects.toThrow(
+      'Failed to fetch Svea order: 500 - Down',
+    )
+    expect(svea.requests).toHaveLength(2)
+  })
+
+  it('does not retry client errors', async () => {
+    await expect(createClient().getOrder(999999)).rejects.toThrow(': 404 -')
+    expect(svea.requests).toHaveLength(1)
+  })
+
+  it('throws SveaApiError with the status and error message', async () => {
+    svea.failNext({ method: 'GET', status: 400, errorMessage: 'Bad order' })
+
+    const error = await createClient()
+      .getOrder(orderId)
+      .catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(SveaApiError)
+    expect(error).toMatchObject({
+      status: 400,
+      errorMessage: 'Bad order',
+      responseStatus: 502,
+    })
+  })
+
+  it('does not retry requests other than GET', async () => {
+    svea.failNext({ method: 'PUT', status: 502 })
+
+    await expect(
+      createClient().updateOrder(orderId, {
+        cart: { items: [] },
+      } as never),
+    ).rejects.toThrow(': 502 -')
+    expect(svea.requests).toHaveLength(1)
+  })
+
+  it('retries network errors with a fresh Timestamp', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'))
+
+    const timestamps: string[] = []
+    let calls = 0
+    const fetchFn: SveaFetch = async (input, init) => {
+      timestamps.push(new Headers(init?.headers).get('Timestamp') ?? '')
+      vi.setSystemTime(Date.now() + 2000)
+      calls += 1
+      if (calls === 1) throw new TypeError('fetch failed')
+      return svea.fetch(input, init)
+    }
+
+    const order = await createClient({ fetch: fetchFn }).getOrder(orderId)
+
+    expect(order.OrderId).toBe(orderId)
+    expect(timestamps).toEqual(['2026-01-01 12:00:00', '2026-01-01 12:00:02'])
+  })
+
+  it('aborts attempts that exceed the timeout', async () => {
+    let signal: AbortSignal | null | undefined
+    const fetchFn: SveaFetch = (_input, init) => {
+      signal = init?.signal
+      return new Promise<Response>(() => {})
+    }
+
+    const client = createClient({ fetch: fetchFn, timeoutMs: 20, retry: false })
+
+    await expect(client.getOrder(orderId)).rejects.toThrow(
+      'Failed to fetch Svea order: Svea did not respond within 20 ms',
+    )
+    await expect(client.getOrder(orderId)).rejects.toMatchObject({
+      name: 'SveaUnavailableError',
+      reason: 'timeout',
+      responseStatus: 503,
+    })
+    expect(signal?.aborted).toBe(true)
+  })
+
+  it('fails fast while the circuit is open', async () => {
+    const circuitBreaker = createSveaCircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMs: 30,
+    })
+    const client = createClient({ retry: false, circuitBreaker })
+    svea.failNext({ status: 500, times: 2 })
+
+    await expect(client.getOrder(orderId)).rejects.toThrow(': 500 -')
+    await expect(client.getOrder(orderId)).rejects.toThrow(': 500 -')
+    expect(circuitBreaker.state).toBe('open')
+
+    await expect(client.getOrder(orderId)).rejects.toMatchObject({
+      message: expect.stringContaining(
+        'Svea is unavailable after repeated failures',
+      ),
+      reason: 'circuitOpen',
+      retryAt: circuitBreaker.retryAt,
+    })
+    expect(svea.requests).toHaveLength(2)
+
+    await new Promise((resolve) => setTimeout(resolve, 40))
+    expect(circuitBreaker.state).toBe('halfOpen')
+
+    await expect(client.getOrder(orderId)).resolves.toMatchObject({
+      OrderId: orderId,
+    })
+    expect(circuitBreaker.state).toBe('closed')
+  })
+
+  it('does not count client errors towards the circuit', async () => {
+    const circuitBreaker = createSveaCircuitBreaker({ failureThreshold: 1 })
+    const client = createClient({ circuitBreaker })
+
+    await expect(client.getOrder(999999)).rejects.toThrow(': 404 -')
+    expect(circuitBreaker.state).toBe('closed')
+  })
+})
+
+describe('createSveaCircuitBreaker', () => {
+  it('lets one trial call through when half-open', async () => {
+    const breaker = createSveaCircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 10,
+    })
+
+    breaker.recordFailure()
+    expect(breaker.tryAcquire()).toBe(false)
+    expect(breaker.retryAt).toBeInstanceOf(Date)
+
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    expect(breaker.tryAcquire()).toBe(true)
+    expect(breaker.tryAcquire()).toBe(false)
+
+    // A failed trial reopens the circuit
+    breaker.recordFailure()
+    expect(breaker.state).toBe('open')
+
+    breaker.reset()
+    expect(breaker.state).toBe('closed')
+    expect(breaker.retryAt).toBeUndefined()
+  })
+})
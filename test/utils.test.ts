@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  getLocaleFromCountryCode,
+  mapPayloadAddressToSvea,
+  mapSveaAddressToPayload,
+  normalizeCountryCode,
+} from '../src/utils'
+
+describe('getLocaleFromCountryCode', () => {
+  it('maps supported countries to Svea locales', () => {
+    expect(getLocaleFromCountryCode('SE')).toBe('sv-se')
+    expect(getLocaleFromCountryCode('fi')).toBe('fi-fi')
+    expect(getLocaleFromCountryCode('dk')).toBe('da-dk')
+  })
+
+  it('falls back to the default locale', () => {
+    expect(getLocaleFromCountryCode('NL')).toBe('nn-no')
+    expect(getLocaleFromCountryCode('NL', 'en-gb')).toBe('en-gb')
+  })
+})
+
+describe('normalizeCountryCode', () => {
+  it('returns an upper-case two-letter code', () => {
+    expect(normalizeCountryCode('se')).toBe('SE')
+    expect(normalizeCountryCode('SWE')).toBe('SW')
+  })
+
+  it('defaults to Norway', () => {
+    expect(normalizeCountryCode(undefined)).toBe('NO')
+    expect(normalizeCountryCode(null)).toBe('NO')
+    expect(normalizeCountryCode('')).toBe('NO')
+  })
+})
+
+describe('mapPayloadAddressToSvea', () => {
+  it('maps a full address', () => {
+    expect(
+      mapPayloadAddressToSvea({
+        firstName: 'Tess',
+        lastName: 'Persson',
+        addressLine1: 'Testgatan 1',
+        addressLine2: 'c/o Svensson',
+        postalCode: '99999',
+        city: 'Stan',
+        country: 'se',
+        phone: '+46701234567',
+      }),
+    ).toEqual({
+      firstName: 'Tess',
+      lastName: 'Persson',
+      fullName: 'Tess Persson',
+      streetAddress: 'Testgatan 1',
+      coAddress: 'c/o Svensson',
+      postalCode: '99999',
+      city: 'Stan',
+      countryCode: 'SE',
+      phoneNumber: '+46701234567',
+    })
+  })
+
+  it('leaves empty fields undefined', () => {
+    expect(
+      mapPayloadAddressToSvea({ firstName: '', lastName: 'Persson' }),
+    ).toMatchObject({
+      firstName: undefined,
+      fullName: 'Persson',
+      countryCode: undefined,
+    })
+  })
+})
+
+describe('mapSveaAddressToPayload', () => {
+  it('maps camelCase addresses', () => {
+    expect(
+      mapSveaAddressToPayload(
+        {
+          firstName: 'Tess',
+          lastName: 'Persson',
+          streetAddress: 'Testgatan 1',
+          coAddress: 'c/o Svensson',
+          postalCode: '99999',
+          city: 'Stan',
+          countryCode: 'SE',
+        },
+        'Testbolaget AB',
+      ),
+    ).toEqual({
+      firstName: 'Tess',
+      lastName: 'Persson',
+      company: 'Testbolaget AB',
+      addressLine1: 'Testgatan 1',
+      addressLine2: 'c/o Svensson',
+      city: 'Stan',
+      state: undefined,
+      postalCode: '99999',
+      country: 'SE',
+      phone: undefined,
+    })
+  })
+
+  it('maps PascalCase addresses', () => {
+    expect(
+      mapSveaAddressToPayload({
+        FirstName: 'Tess',
+        StreetAddress: 'Testgatan 1',
+        StreetAddress2: 'Lgh 1101',
+        PostalCode: '99999',
+        City: 'Stan',
+        CountryCode: 'SE',
+        PhoneNumber: '+46701234567',
+      }),
+    ).toMatchObject({
+      firstName: 'Tess',
+      addressLine1: 'Testgatan 1',
+      addressLine2: 'Lgh 1101',
+      phone: '+46701234567',
+    })
+  })
+
+  it('uses the c/o address when there is no street address', () => {
+    expect(
+      mapSveaAddressToPayload({ coAddress: 'Box 123', city: 'Stan' }),
+    ).toMatchObject({ addressLine1: 'Box 123', addressLine2: undefined })
+  })
+
+  it('returns undefined for empty addresses', () => {
+    expect(mapSveaAddressToPayload(undefined)).toBeUndefined()
+    expect(mapSveaAddressToPayload({})).toBeUndefined()
+    expect(mapSveaAddressToPayload({ firstName: '' })).toBeUndefined()
+  })
+})
@@ -27,6 +27,15 @@ export default defineConfig([
     sourcemap: true,
     external: ['react', 'next', 'payload', '@payloadcms/plugin-ecommerce'],
   },
+  // Testing entry
+  {
+    entry: ['src/testing/index.ts'],
+    outDir: 'dist/testing',
+    format: ['cjs', 'esm'],
+    dts: true,
+    sourcemap: true,
+    external: ['react', 'next', 'payload', '@payloadcms/plugin-ecommerce'],
+  },
   // Components entry
   {
     entry: ['src/components/index.ts'],
@@ -41,6 +50,26 @@ export default defineConfig([
       }
     },
   },
+  // Admin components entry
+  {
+    entry: ['src/admin/index.ts'],
+    outDir: 'dist/admin',
+    format: ['cjs', 'esm'],
+    dts: true,
+    sourcemap: true,
+    external: [
+      'react',
+      'next',
+      'payload',
+      '@payloadcms/plugin-ecommerce',
+      '@payloadcms/ui',
+    ],
+    esbuildOptions(options) {
+      options.banner = {
+        js: '"use client";',
+      }
+    },
+  },
   // Hooks entry
   {
     entry: ['src/hooks/index.ts'],
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    environment: 'node',
+    env: {
+      // Payload skips the schema push for a schema it pushed before, which
+      // leaves every in-memory database after the first one empty
+      PAYLOAD_FORCE_DRIZZLE_PUSH: 'true',
+    },
+    // Each e2e file boots Payload; run them one at a time
+    fileParallelism: false,
+    testTimeout: 60_000,
+    hookTimeout: 120_000,
+    // Keep the handlers' request logging out of the test output
+    onConsoleLog: (log) => !log.startsWith('[Svea'),
+  },
+})